@@ -1,8 +1,9 @@
 import { useEffect, useMemo, useState } from 'react';
-import { Link, NavLink, Outlet, useNavigationType } from 'react-router-dom';
+import { Link, Outlet, useNavigationType } from 'react-router-dom';
 import {
   AppBar,
   Box,
+  Button,
   Container,
   CssBaseline,
   IconButton,
@@ -21,15 +22,10 @@ import CloseIcon from '@mui/icons-material/Close';
 import { QueryClientProvider, QueryClient } from '@tanstack/react-query';
 import { HeaderBanner } from './components/HeaderBanner';
 import { GlobalSearch } from './components/GlobalSearch';
+import { SectionNav } from './components/SectionNav';
+import { WatchlistBadge } from './components/WatchlistBadge';
 import { useSessionStore } from './hooks/useSessionStore';
 
-const sections = [
-  { id: 'ai', label: 'AI' },
-  { id: 'ml', label: 'Machine Learning' },
-  { id: 'iot', label: 'IoT' },
-  { id: 'quantum', label: 'Quantum' },
-];
-
 const queryClient = new QueryClient();
 
 function usePreferredMode(): ["light" | "dark", (mode: "light" | "dark") => void] {
@@ -58,6 +54,7 @@ export default function App() {
   const [mode, setMode] = usePreferredMode();
   const sessionId = useSessionStore((state) => state.sessionId);
   const [refreshToast, setRefreshToast] = useState<string | null>(null);
+  const [watchlistToast, setWatchlistToast] = useState<string | null>(null);
   const [socket, setSocket] = useState<WebSocket | null>(null);
   const navigationType = useNavigationType();
 
@@ -73,6 +70,11 @@ export default function App() {
         if (payload.type === 'refresh') {
           setRefreshToast('New curated intelligence is available. Refresh to view.');
         }
+        if (payload.type === 'watchlist-match') {
+          const count = Number(payload.count ?? 1);
+          setWatchlistToast(`${count} new patent${count === 1 ? '' : 's'} matched your watchlists.`);
+          queryClient.invalidateQueries({ queryKey: ['watchlist-matches'] });
+        }
       } catch (error) {
         console.warn('Unable to parse websocket payload', error);
       }
@@ -122,29 +124,11 @@ export default function App() {
               TechNewsHub
             </Typography>
             <Box sx={{ display: 'flex', alignItems: 'center', gap: 3, width: '100%', justifyContent: 'flex-end' }}>
-              <Box sx={{ display: { xs: 'none', md: 'flex' }, gap: 2 }}>
-                {sections.map((section) => (
-                  <NavLink
-                    key={section.id}
-                    to={`/section/${section.id}`}
-                    style={{ textDecoration: 'none' }}
-                  >
-                    {({ isActive }) => (
-                      <Typography
-                        sx={{
-                          fontWeight: isActive ? 700 : 500,
-                          color: isActive ? 'primary.main' : 'text.secondary',
-                        }}
-                      >
-                        {section.label}
-                      </Typography>
-                    )}
-                  </NavLink>
-                ))}
-              </Box>
+              <SectionNav />
               <Box sx={{ flex: { xs: 1, md: '0 0 auto' } }}>
                 <GlobalSearch />
               </Box>
+              <WatchlistBadge />
               <Tooltip title={`Switch to ${mode === 'dark' ? 'light' : 'dark'} mode`}>
                 <Switch
                   color="primary"
@@ -179,6 +163,22 @@ export default function App() {
             </>
           }
         />
+        <Snackbar
+          open={Boolean(watchlistToast)}
+          message={watchlistToast}
+          autoHideDuration={8000}
+          onClose={() => setWatchlistToast(null)}
+          action={
+            <>
+              <Button size="small" color="inherit" component={Link} to="/watchlists" onClick={() => setWatchlistToast(null)}>
+                View
+              </Button>
+              <IconButton size="small" color="inherit" onClick={() => setWatchlistToast(null)}>
+                <CloseIcon fontSize="small" />
+              </IconButton>
+            </>
+          }
+        />
       </ThemeProvider>
     </QueryClientProvider>
   );
@@ -1,3 +1,5 @@
+import { useSessionStore } from '../hooks/useSessionStore';
+
 export interface GeoPayload {
   lat?: number;
   lng?: number;
@@ -14,47 +16,325 @@ export interface GeoResponse {
   sessionId: string;
 }
 
+export interface VerificationBreakdown {
+  score: number;
+  agreement: number;
+  corroboratedBy: string[];
+  consultedProviders: string[];
+  sourceMatch: number | null;
+  citationScore: number;
+  reputationScore: number;
+}
+
+export interface Citation {
+  publisher?: string;
+  url: string;
+  title?: string;
+  retrievedAt: string;
+  quote?: string;
+}
+
+export interface StoryAlternate {
+  title: string;
+  sourceUrl?: string;
+  publisher?: string;
+  publishedAt?: string;
+}
+
 export interface NewsItem {
   id: string;
   title: string;
   summary: string;
   sourceUrl?: string;
+  publisher?: string;
   verificationScore: number;
+  verification?: VerificationBreakdown;
   publishedAt?: string;
+  clusterId?: string;
+  clusterSize?: number;
+  alternates?: StoryAlternate[];
+  citations?: Citation[];
+  engagementScore?: number;
+  engagement?: Engagement;
+  entities?: EntityTag[];
+  sentiment?: number;
+  hypeRisk?: number;
+  hype?: HypeBreakdown;
+  relatedPatents?: ContentLink[];
+}
+
+export interface ContentLink {
+  id: string;
+  title: string;
+  url?: string;
+  score: number;
+  reasons: string[];
+}
+
+export interface HypeBreakdown {
+  level: 'low' | 'medium' | 'high';
+  sentimentLabel: 'positive' | 'neutral' | 'negative';
+  sourceType: 'peer-reviewed' | 'preprint' | 'news' | 'press-release' | 'blog' | 'unknown';
+  language: number;
+  sourceRisk: number;
+  citationSupport: number;
+  cues: string[];
+}
+
+export interface NewsFilters {
+  maxHypeRisk?: number;
+  sentiment?: HypeBreakdown['sentimentLabel'][];
+}
+
+export interface EntityTag {
+  id: string;
+  name: string;
+  type: 'company' | 'technology' | 'person';
+}
+
+export interface Engagement {
+  mentions: number;
+  interactions: number;
+  trend: 'rising' | 'steady' | 'falling';
+  velocity: number;
+  source: string;
+  checkedAt: string;
+}
+
+export interface ImpactComponent {
+  factor: string;
+  label: string;
+  value: number | null;
+  score: number;
+  weight: number;
+  points: number;
+  detail: string;
+}
+
+export interface ImpactBreakdown {
+  score: number;
+  model: string;
+  components: ImpactComponent[];
+}
+
+export interface PatentLink {
+  patentNumber: string;
+  title?: string;
+  assignee?: string;
+  grantDate?: string;
+}
+
+export interface PatentRelations {
+  cites: PatentLink[];
+  citedBy: PatentLink[];
+  family: PatentLink[];
 }
 
 export interface PatentItem {
   id: string;
   title: string;
   abstract: string;
+  summary?: string;
+  patentNumber?: string;
+  assignees?: string[];
+  cpcCodes?: string[];
+  claims?: string[];
+  claimCount?: number;
+  forwardCitations?: number;
+  familySize?: number;
+  assigneePatentCount?: number;
   impactScore: number;
+  impact?: ImpactBreakdown;
+  relations?: PatentRelations;
+  inTheNews?: ContentLink[];
+  priorityDate?: string;
   filingDate?: string;
+  grantDate?: string;
   inventors?: string[];
+  sourceUrl?: string;
+  entities?: EntityTag[];
+}
+
+export interface Freshness {
+  state: 'fresh' | 'stale' | 'missing';
+  verifiedAt?: string;
+  ageSeconds?: number;
+  staleAfterSeconds: number;
+  refreshing: boolean;
 }
 
 export interface AggregatedNewsResponse {
   section: string;
   timePeriod: string;
   items: NewsItem[];
+  hiddenByFilters?: number;
   verificationSummary: string;
+  promptVersion?: string;
   generatedAt: string;
+  freshness?: Freshness;
+}
+
+export type PatentDateField = 'grant' | 'filing';
+
+export interface PatentRange {
+  dateField?: PatentDateField;
+  from?: string;
+  to?: string;
 }
 
 export interface PatentResponse {
   section: string;
   timePeriod: string;
   patents: PatentItem[];
+  hiddenByFilters?: number;
+  dateField?: PatentDateField;
+  dateRange?: { earliest?: string; latest?: string };
+  promptVersion?: string;
   generatedAt: string;
+  freshness?: Freshness;
+}
+
+export interface SnapshotSummary {
+  label: string;
+  startsAt: string;
+  verifiedAt?: string;
+  verificationScore?: number;
+  newsCount: number;
+  patentCount: number;
+  patentImpactAverage?: number;
+  newsPromptVersion?: string;
+  patentPromptVersion?: string;
+}
+
+export interface SnapshotListResponse {
+  section: string;
+  timePeriod: string;
+  snapshots: SnapshotSummary[];
+  nextCursor?: string;
+  generatedAt: string;
+}
+
+export interface SnapshotDetailResponse extends SnapshotSummary {
+  section: string;
+  timePeriod: string;
+  items: NewsItem[];
+  patents: PatentItem[];
+  generatedAt: string;
+}
+
+export type SearchOrigin = 'index' | 'ai';
+
+export interface SearchResult {
+  id: string;
+  headline: string;
+  summary: string;
+  source?: string;
+  url?: string;
+  verificationScore: number;
+  origin: SearchOrigin;
+  kind?: 'news' | 'patent';
+  score?: number;
+  matchedTerms?: string[];
 }
 
 export interface SearchResponse {
   query: string;
-  results: Array<{ id: string; headline: string; summary: string; url?: string; verificationScore: number }>;
+  results: SearchResult[];
   generatedAt: string;
+  index: { builtAt: string; documents: number; source: 's3' | 'cache' } | null;
+  aiConsulted: boolean;
+  aiError?: string;
+  provider?: string;
 }
 
 export interface RecommendationResponse {
-  recommendations: Array<{ section: string; reason: string; score: number }>;
+  recommendations: Array<{ section: string; label?: string; reason: string; score: number }>;
+  generatedAt: string;
+}
+
+export interface TaggedContent {
+  itemId: string;
+  title: string;
+  summary: string;
+  sourceUrl?: string;
+  publishedAt?: string;
+  placements: string[];
+}
+
+export interface TagResponse {
+  tag: {
+    id: string;
+    name: string;
+    type: EntityTag['type'];
+    sections: string[];
+    lastSeenAt?: string;
+  };
+  news: TaggedContent[];
+  patents: TaggedContent[];
+  generatedAt: string;
+}
+
+export interface ItemResponse {
+  itemId: string;
+  kind: 'news' | 'patent';
+  section: string;
+  item: NewsItem | PatentItem;
+  placements: string[];
+  snapshots: string[];
+  firstSeenAt: string;
+  lastSeenAt: string;
+}
+
+export interface TrendTopic {
+  id: string;
+  name: string;
+  type: EntityTag['type'];
+  current: number;
+  baseline: number;
+  delta: number;
+  history: number[];
+  isNew: boolean;
+}
+
+export interface PatentGraphNode extends PatentLink {
+  id: string;
+  itemId?: string;
+  depth: number;
+  expanded: boolean;
+}
+
+export interface PatentGraphEdge {
+  source: string;
+  target: string;
+  type: 'cites' | 'family';
+}
+
+export interface PatentGraphResponse {
+  root: string;
+  nodes: PatentGraphNode[];
+  edges: PatentGraphEdge[];
+  truncated: boolean;
+}
+
+export interface TrendReport {
+  section: string;
+  timePeriod: string;
+  snapshots: string[];
+  rising: TrendTopic[];
+  fading: TrendTopic[];
+  generatedAt: string;
+}
+
+export interface SectionInfo {
+  id: string;
+  label: string;
+  description: string;
+  keywords: string[];
+  displayOrder: number;
+}
+
+export interface SectionListResponse {
+  sections: SectionInfo[];
   generatedAt: string;
 }
 
@@ -67,6 +347,7 @@ export interface RelatedContentResponse {
     summary: string;
     verificationScore: number;
     sourceUrl?: string;
+    citations?: Citation[];
     related?: RelatedContentResponse['item'][];
   };
   generatedAt: string;
@@ -77,16 +358,63 @@ export interface ProfileResponse {
   displayName: string;
 }
 
+export interface AuthCallbackResponse {
+  email: string;
+  displayName?: string;
+  idToken?: string;
+  idTokenExpiresAt?: string;
+}
+
+export interface WatchlistInput {
+  name: string;
+  assignees: string[];
+  cpcCodes: string[];
+  keywords: string[];
+}
+
+export interface Watchlist extends WatchlistInput {
+  watchlistId: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WatchlistListResponse {
+  watchlists: Watchlist[];
+  limits: { perUser: number; termsPerField: number; termLength: number };
+}
+
+export interface WatchlistMatch {
+  matchKey: string;
+  watchlistId: string;
+  watchlistName: string;
+  itemId: string;
+  patentNumber?: string;
+  title: string;
+  assignees: string[];
+  grantDate?: string;
+  sourceUrl?: string;
+  section: string;
+  timePeriod: string;
+  reasons: string[];
+  matchedAt: string;
+}
+
+export interface WatchlistMatchesResponse {
+  matches: WatchlistMatch[];
+  unread: number;
+  lastReadAt?: string;
+}
+
 const API_BASE = (import.meta.env.VITE_API_BASE_URL ?? '').replace(/\/$/, '');
 
 async function request<T>(path: string, init?: RequestInit): Promise<T> {
   const response = await fetch(`${API_BASE}${path}`, {
+    credentials: 'include',
+    ...init,
     headers: {
       'Content-Type': 'application/json',
       ...(init?.headers ?? {}),
     },
-    credentials: 'include',
-    ...init,
   });
   if (!response.ok) {
     const message = await response.text();
@@ -95,6 +423,12 @@ async function request<T>(path: string, init?: RequestInit): Promise<T> {
   return response.json() as Promise<T>;
 }
 
+// Watchlist routes sit behind the Cognito authorizer, which reads the raw ID token from the Authorization header.
+function withIdToken(init: RequestInit): RequestInit {
+  const idToken = useSessionStore.getState().idToken;
+  return idToken ? { ...init, headers: { ...(init.headers ?? {}), Authorization: idToken } } : init;
+}
+
 export const ApiClient = {
   geoEnrich(payload: GeoPayload) {
     return request<GeoResponse>('/geo-enrich', {
@@ -102,24 +436,76 @@ export const ApiClient = {
       body: JSON.stringify(payload),
     });
   },
-  fetchNews(section: string, timePeriod: string) {
-    return request<AggregatedNewsResponse>('/news', {
-      method: 'POST',
-      body: JSON.stringify({ section, timePeriod }),
+  fetchNews(section: string, timePeriod: string, filters: NewsFilters = {}) {
+    const params = new URLSearchParams({ section, timePeriod });
+    if (filters.maxHypeRisk !== undefined) {
+      params.set('maxHypeRisk', String(filters.maxHypeRisk));
+    }
+    if (filters.sentiment?.length) {
+      params.set('sentiment', filters.sentiment.join(','));
+    }
+    return request<AggregatedNewsResponse>(`/news?${params.toString()}`, {
+      method: 'GET',
     });
   },
-  fetchPatents(section: string, timePeriod: string) {
-    return request<PatentResponse>('/patents', {
-      method: 'POST',
-      body: JSON.stringify({ section, timePeriod }),
+  fetchPatents(section: string, timePeriod: string, range: PatentRange = {}) {
+    const params = new URLSearchParams({ section, timePeriod });
+    Object.entries(range)
+      .filter((entry): entry is [string, string] => Boolean(entry[1]))
+      .forEach(([key, value]) => params.set(key, value));
+    return request<PatentResponse>(`/patents?${params.toString()}`, {
+      method: 'GET',
+    });
+  },
+  listSnapshots(section: string, timePeriod: string, range: { from?: string; to?: string; cursor?: string } = {}) {
+    const params = new URLSearchParams(
+      Object.entries(range).filter((entry): entry is [string, string] => Boolean(entry[1])),
+    );
+    const query = params.toString();
+    return request<SnapshotListResponse>(`/snapshots/${section}/${timePeriod}${query ? `?${query}` : ''}`, {
+      method: 'GET',
     });
   },
+  fetchSnapshot(section: string, timePeriod: string, snapshot: string) {
+    return request<SnapshotDetailResponse>(
+      `/snapshots/${section}/${timePeriod}/${encodeURIComponent(snapshot)}`,
+      { method: 'GET' },
+    );
+  },
   search(query: string, section?: string) {
     return request<SearchResponse>('/search', {
       method: 'POST',
       body: JSON.stringify({ query, section }),
     });
   },
+  fetchTag(tagId: string, section?: string) {
+    const query = section ? `?${new URLSearchParams({ section }).toString()}` : '';
+    return request<TagResponse>(`/tags/${encodeURIComponent(tagId)}${query}`, {
+      method: 'GET',
+    });
+  },
+  fetchItem(itemId: string) {
+    return request<ItemResponse>(`/items/${encodeURIComponent(itemId)}`, {
+      method: 'GET',
+    });
+  },
+  fetchPatentGraph(patentNumber: string, depth = 1) {
+    const query = new URLSearchParams({ depth: String(depth) }).toString();
+    return request<PatentGraphResponse>(`/patents/${encodeURIComponent(patentNumber)}/graph?${query}`, {
+      method: 'GET',
+    });
+  },
+  fetchTrends(section: string, period = 'daily') {
+    const query = new URLSearchParams({ period }).toString();
+    return request<TrendReport>(`/trends/${encodeURIComponent(section)}?${query}`, {
+      method: 'GET',
+    });
+  },
+  listSections() {
+    return request<SectionListResponse>('/sections', {
+      method: 'GET',
+    });
+  },
   recommendations(sessionId: string) {
     return request<RecommendationResponse>('/recommendations', {
       method: 'POST',
@@ -134,4 +520,47 @@ export const ApiClient = {
   profile() {
     return request<ProfileResponse>('/profile/me', { method: 'GET' });
   },
+  completeSignIn(authorizationCode: string, redirectUri: string) {
+    return request<AuthCallbackResponse>('/auth', {
+      method: 'POST',
+      body: JSON.stringify({ provider: 'cognito', authorizationCode, redirectUri }),
+    });
+  },
+  listWatchlists() {
+    return request<WatchlistListResponse>('/watchlists', withIdToken({ method: 'GET' }));
+  },
+  createWatchlist(input: WatchlistInput) {
+    return request<Watchlist>(
+      '/watchlists',
+      withIdToken({
+        method: 'POST',
+        body: JSON.stringify(input),
+      }),
+    );
+  },
+  updateWatchlist(watchlistId: string, input: WatchlistInput) {
+    return request<Watchlist>(
+      `/watchlists/${encodeURIComponent(watchlistId)}`,
+      withIdToken({
+        method: 'PUT',
+        body: JSON.stringify(input),
+      }),
+    );
+  },
+  deleteWatchlist(watchlistId: string) {
+    return request<{ watchlistId: string; deleted: boolean }>(
+      `/watchlists/${encodeURIComponent(watchlistId)}`,
+      withIdToken({ method: 'DELETE' }),
+    );
+  },
+  watchlistMatches(sessionId: string) {
+    const query = new URLSearchParams({ sessionId }).toString();
+    return request<WatchlistMatchesResponse>(`/watchlists/matches?${query}`, withIdToken({ method: 'GET' }));
+  },
+  markWatchlistMatchesRead() {
+    return request<{ lastReadAt: string; unread: number }>(
+      '/watchlists/matches/read',
+      withIdToken({ method: 'POST' }),
+    );
+  },
 };
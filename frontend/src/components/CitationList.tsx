@@ -0,0 +1,57 @@
+import { useState } from 'react';
+import { Box, Button, Collapse, Link, Stack, Typography } from '@mui/material';
+import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
+import ExpandLessIcon from '@mui/icons-material/ExpandLess';
+import dayjs from 'dayjs';
+import { Citation } from '../api/client';
+
+interface CitationListProps {
+  citations?: Citation[];
+  defaultExpanded?: boolean;
+}
+
+export function CitationList({ citations, defaultExpanded = false }: CitationListProps) {
+  const [expanded, setExpanded] = useState(defaultExpanded);
+
+  if (!citations || citations.length === 0) {
+    return null;
+  }
+
+  return (
+    <Box>
+      <Button
+        size="small"
+        onClick={() => setExpanded((value) => !value)}
+        endIcon={expanded ? <ExpandLessIcon /> : <ExpandMoreIcon />}
+        aria-expanded={expanded}
+      >
+        {citations.length} {citations.length === 1 ? 'citation' : 'citations'}
+      </Button>
+      <Collapse in={expanded} unmountOnExit>
+        <Stack component="ol" spacing={1} sx={{ pl: 3, my: 1 }}>
+          {citations.map((citation) => (
+            <Box component="li" key={citation.url}>
+              <Link href={citation.url} target="_blank" rel="noopener noreferrer" variant="body2" fontWeight={600}>
+                {citation.title ?? citation.url}
+              </Link>
+              <Typography variant="caption" color="text.secondary" display="block">
+                {[citation.publisher, `retrieved ${dayjs(citation.retrievedAt).format('MMM D, YYYY')}`]
+                  .filter(Boolean)
+                  .join(' · ')}
+              </Typography>
+              {citation.quote && (
+                <Typography
+                  variant="body2"
+                  color="text.secondary"
+                  sx={{ fontStyle: 'italic', borderLeft: (theme) => `2px solid ${theme.palette.divider}`, pl: 1, mt: 0.5 }}
+                >
+                  “{citation.quote}”
+                </Typography>
+              )}
+            </Box>
+          ))}
+        </Stack>
+      </Collapse>
+    </Box>
+  );
+}
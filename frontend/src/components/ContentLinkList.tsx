@@ -0,0 +1,42 @@
+import { Link as RouterLink } from 'react-router-dom';
+import { Box, Link, Stack, Typography } from '@mui/material';
+import { ContentLink } from '../api/client';
+
+interface ContentLinkListProps {
+  title: string;
+  links?: ContentLink[];
+  onNavigate?: () => void;
+}
+
+export function ContentLinkList({ title, links, onNavigate }: ContentLinkListProps) {
+  if (!links || links.length === 0) {
+    return null;
+  }
+
+  return (
+    <Box>
+      <Typography variant="overline" color="text.secondary">
+        {title}
+      </Typography>
+      <Stack spacing={0.5}>
+        {links.map((link) => (
+          <Box key={link.id}>
+            <Link
+              component={RouterLink}
+              to={`/item/${link.id}`}
+              onClick={onNavigate}
+              variant="body2"
+              fontWeight={600}
+              underline="hover"
+            >
+              {link.title}
+            </Link>
+            <Typography variant="caption" color="text.secondary" display="block">
+              {link.reasons.join(' · ')}
+            </Typography>
+          </Box>
+        ))}
+      </Stack>
+    </Box>
+  );
+}
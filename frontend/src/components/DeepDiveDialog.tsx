@@ -1,10 +1,13 @@
 import { useMemo } from 'react';
+import { Link as RouterLink } from 'react-router-dom';
 import {
   Accordion,
   AccordionDetails,
   AccordionSummary,
+  Button,
   CircularProgress,
   Dialog,
+  DialogActions,
   DialogContent,
   DialogTitle,
   Stack,
@@ -13,6 +16,8 @@ import {
 import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
 import { useQuery } from '@tanstack/react-query';
 import { ApiClient, NewsItem, RelatedContentResponse } from '../api/client';
+import { CitationList } from './CitationList';
+import { ContentLinkList } from './ContentLinkList';
 
 interface DeepDiveDialogProps {
   open: boolean;
@@ -39,6 +44,7 @@ function RelatedTree({ item, depth = 1 }: { item: RelatedContentResponse['item']
             <Typography variant="body2" color="text.secondary">
               {child.summary}
             </Typography>
+            <CitationList citations={child.citations} />
             {child.related && depth < 5 && <RelatedTree item={child} depth={depth + 1} />}
           </AccordionDetails>
         </Accordion>
@@ -74,6 +80,8 @@ export function DeepDiveDialog({ open, onClose, section, period, item }: DeepDiv
             <Typography variant="body1" color="text.secondary">
               {relatedItem.summary}
             </Typography>
+            <CitationList citations={relatedItem.citations ?? item?.citations} defaultExpanded />
+            <ContentLinkList title="Related patents" links={item?.relatedPatents} onNavigate={onClose} />
             {relatedItem.related && relatedItem.related.length > 0 ? (
               <RelatedTree item={relatedItem} />
             ) : (
@@ -89,6 +97,13 @@ export function DeepDiveDialog({ open, onClose, section, period, item }: DeepDiv
           </Typography>
         )}
       </DialogContent>
+      {item && (
+        <DialogActions>
+          <Button component={RouterLink} to={`/item/${item.id}`} onClick={onClose}>
+            Open permalink
+          </Button>
+        </DialogActions>
+      )}
     </Dialog>
   );
 }
@@ -0,0 +1,37 @@
+import { Link as RouterLink } from 'react-router-dom';
+import { Chip, Stack } from '@mui/material';
+import { EntityTag } from '../api/client';
+
+interface EntityChipsProps {
+  entities?: EntityTag[];
+  max?: number;
+}
+
+const typeColors: Record<EntityTag['type'], 'primary' | 'secondary' | 'default'> = {
+  company: 'primary',
+  technology: 'secondary',
+  person: 'default',
+};
+
+export function EntityChips({ entities, max = 6 }: EntityChipsProps) {
+  if (!entities || entities.length === 0) {
+    return null;
+  }
+
+  return (
+    <Stack direction="row" spacing={0.5} flexWrap="wrap" useFlexGap>
+      {entities.slice(0, max).map((entity) => (
+        <Chip
+          key={entity.id}
+          label={entity.name}
+          size="small"
+          variant="outlined"
+          color={typeColors[entity.type]}
+          component={RouterLink}
+          to={`/tag/${entity.id}`}
+          clickable
+        />
+      ))}
+    </Stack>
+  );
+}
@@ -1,6 +1,8 @@
 import { useMemo, useState } from 'react';
+import { Link as RouterLink } from 'react-router-dom';
 import {
   Box,
+  Chip,
   CircularProgress,
   IconButton,
   InputAdornment,
@@ -9,11 +11,30 @@ import {
   ListItemText,
   Paper,
   TextField,
+  Typography,
 } from '@mui/material';
 import SearchIcon from '@mui/icons-material/Search';
 import CloseIcon from '@mui/icons-material/Close';
 import { useQuery } from '@tanstack/react-query';
-import { ApiClient } from '../api/client';
+import { ApiClient, SearchResult } from '../api/client';
+
+const originLabels: Record<SearchResult['origin'], string> = {
+  index: 'TechNewsHub',
+  ai: 'AI',
+};
+
+// Indexed results open their permalink; AI answers can only point at the source they cite.
+function linkProps(item: SearchResult) {
+  if (item.origin === 'index') {
+    return { component: RouterLink, to: `/item/${item.id}` };
+  }
+  return {
+    component: 'a',
+    href: item.url ?? '#',
+    target: item.url ? '_blank' : undefined,
+    rel: 'noopener noreferrer',
+  };
+}
 
 export function GlobalSearch() {
   const [query, setQuery] = useState('');
@@ -85,19 +106,25 @@ export function GlobalSearch() {
               No results yet. Try refining your query.
             </Box>
           )}
+          {searchQuery.data?.aiError && (
+            <Typography variant="caption" color="text.secondary" component="div" px={2} pt={1}>
+              AI answers are unavailable right now; showing indexed matches only.
+            </Typography>
+          )}
           <List dense>
             {results.map((item) => (
-              <ListItemButton
-                key={item.id}
-                component="a"
-                href={item.url ?? '#'}
-                target={item.url ? '_blank' : undefined}
-                rel="noopener noreferrer"
-              >
+              <ListItemButton key={item.id} {...linkProps(item)}>
                 <ListItemText
                   primary={item.headline}
                   secondary={`${item.summary.substring(0, 120)}${item.summary.length > 120 ? '…' : ''}`}
                 />
+                <Chip
+                  label={item.kind === 'patent' ? `${originLabels[item.origin]} · patent` : originLabels[item.origin]}
+                  size="small"
+                  variant={item.origin === 'index' ? 'outlined' : 'filled'}
+                  color={item.origin === 'index' ? 'primary' : 'secondary'}
+                  sx={{ ml: 1, flexShrink: 0 }}
+                />
               </ListItemButton>
             ))}
           </List>
@@ -0,0 +1,38 @@
+import { Chip, Tooltip } from '@mui/material';
+import { HypeBreakdown } from '../api/client';
+
+interface HypeBadgeProps {
+  hypeRisk?: number;
+  hype?: HypeBreakdown;
+}
+
+const levelColors: Record<HypeBreakdown['level'], 'success' | 'warning' | 'error'> = {
+  low: 'success',
+  medium: 'warning',
+  high: 'error',
+};
+
+const levelLabels: Record<HypeBreakdown['level'], string> = {
+  low: 'Low hype',
+  medium: 'Some hype',
+  high: 'Hype risk',
+};
+
+function describeHype(hypeRisk: number, hype: HypeBreakdown): string {
+  const cues = hype.cues.length > 0 ? ` · cues: ${hype.cues.join(', ')}` : '';
+  return `Hype risk ${hypeRisk}/100 · ${hype.sourceType.replace('-', ' ')} source · citation support ${Math.round(
+    hype.citationSupport * 100,
+  )}% · ${hype.sentimentLabel} tone${cues}`;
+}
+
+export function HypeBadge({ hypeRisk, hype }: HypeBadgeProps) {
+  if (hypeRisk === undefined || !hype) {
+    return null;
+  }
+
+  return (
+    <Tooltip title={describeHype(hypeRisk, hype)}>
+      <Chip label={levelLabels[hype.level]} color={levelColors[hype.level]} size="small" variant="outlined" />
+    </Tooltip>
+  );
+}
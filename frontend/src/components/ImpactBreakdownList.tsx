@@ -0,0 +1,58 @@
+import { useState } from 'react';
+import { Box, Button, Collapse, LinearProgress, Stack, Typography } from '@mui/material';
+import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
+import ExpandLessIcon from '@mui/icons-material/ExpandLess';
+import { ImpactBreakdown } from '../api/client';
+
+interface ImpactBreakdownListProps {
+  impact?: ImpactBreakdown;
+  defaultExpanded?: boolean;
+}
+
+export function ImpactBreakdownList({ impact, defaultExpanded = false }: ImpactBreakdownListProps) {
+  const [expanded, setExpanded] = useState(defaultExpanded);
+
+  if (!impact || impact.components.length === 0) {
+    return null;
+  }
+
+  return (
+    <Box>
+      <Button
+        size="small"
+        onClick={() => setExpanded((value) => !value)}
+        endIcon={expanded ? <ExpandLessIcon /> : <ExpandMoreIcon />}
+        aria-expanded={expanded}
+      >
+        Why impact {impact.score}?
+      </Button>
+      <Collapse in={expanded} unmountOnExit>
+        <Stack spacing={1.5} sx={{ my: 1 }}>
+          {impact.components.map((component) => (
+            <Box key={component.factor}>
+              <Stack direction="row" justifyContent="space-between" spacing={1}>
+                <Typography variant="body2" fontWeight={600}>
+                  {component.label}
+                </Typography>
+                <Typography variant="caption" color="text.secondary">
+                  {Math.round(component.points)} / {Math.round(component.weight * 100)} pts
+                </Typography>
+              </Stack>
+              <LinearProgress
+                variant="determinate"
+                value={component.score * 100}
+                sx={{ height: 6, borderRadius: 3, my: 0.5 }}
+              />
+              <Typography variant="caption" color="text.secondary">
+                {component.detail}
+              </Typography>
+            </Box>
+          ))}
+          <Typography variant="caption" color="text.disabled">
+            Scored with {impact.model}
+          </Typography>
+        </Stack>
+      </Collapse>
+    </Box>
+  );
+}
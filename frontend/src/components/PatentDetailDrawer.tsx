@@ -0,0 +1,89 @@
+import { Link as RouterLink } from 'react-router-dom';
+import { Box, Button, Chip, Divider, Drawer, IconButton, Stack, Typography } from '@mui/material';
+import CloseIcon from '@mui/icons-material/Close';
+import dayjs from 'dayjs';
+import { PatentItem } from '../api/client';
+import { ImpactBreakdownList } from './ImpactBreakdownList';
+
+interface PatentDetailDrawerProps {
+  patent?: PatentItem;
+  onClose: () => void;
+}
+
+export function PatentDetailDrawer({ patent, onClose }: PatentDetailDrawerProps) {
+  return (
+    <Drawer anchor="right" open={Boolean(patent)} onClose={onClose}>
+      {patent && (
+        <Stack spacing={2} sx={{ width: { xs: '100vw', sm: 440 }, p: 3 }}>
+          <Stack direction="row" justifyContent="space-between" alignItems="flex-start" spacing={1}>
+            <Typography variant="h6" fontWeight={600}>
+              {patent.title}
+            </Typography>
+            <IconButton onClick={onClose} aria-label="Close patent details">
+              <CloseIcon />
+            </IconButton>
+          </Stack>
+          {patent.patentNumber && (
+            <Typography variant="body2" color="text.secondary">
+              US {patent.patentNumber}
+              {patent.assignees && patent.assignees.length > 0 && ` · ${patent.assignees.join(', ')}`}
+            </Typography>
+          )}
+          <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap>
+            <Chip label={`Impact ${patent.impactScore}`} size="small" color="primary" variant="outlined" />
+            {[
+              ['Priority', patent.priorityDate],
+              ['Filed', patent.filingDate],
+              ['Granted', patent.grantDate],
+            ]
+              .filter(([, date]) => date)
+              .map(([label, date]) => (
+                <Chip key={label} label={`${label} ${dayjs(date).format('MMM D, YYYY')}`} size="small" variant="outlined" />
+              ))}
+          </Stack>
+          <Typography variant="body2" color="text.secondary">
+            {patent.summary ?? patent.abstract}
+          </Typography>
+          <ImpactBreakdownList impact={patent.impact} />
+          <Divider />
+          <Box>
+            <Typography variant="subtitle2" fontWeight={600}>
+              Independent claims{patent.claimCount ? ` (${patent.claimCount} claims in total)` : ''}
+            </Typography>
+            {patent.claims && patent.claims.length > 0 ? (
+              <Stack component="ol" spacing={1} sx={{ pl: 3, my: 1 }}>
+                {patent.claims.map((claim) => (
+                  <Typography component="li" key={claim} variant="body2" color="text.secondary">
+                    {claim}
+                  </Typography>
+                ))}
+              </Stack>
+            ) : (
+              <Typography variant="body2" color="text.secondary">
+                Claims are not available for this patent.
+              </Typography>
+            )}
+          </Box>
+          <Box>
+            <Typography variant="subtitle2" fontWeight={600}>
+              Inventors
+            </Typography>
+            <Typography variant="body2" color="text.secondary">
+              {patent.inventors && patent.inventors.length > 0 ? patent.inventors.join(', ') : 'Not listed'}
+            </Typography>
+          </Box>
+          <Stack direction="row" spacing={1}>
+            <Button component={RouterLink} to={`/item/${patent.id}`} variant="contained" size="small">
+              Open permalink
+            </Button>
+            {patent.sourceUrl && (
+              <Button href={patent.sourceUrl} target="_blank" rel="noopener noreferrer" size="small">
+                View patent
+              </Button>
+            )}
+          </Stack>
+        </Stack>
+      )}
+    </Drawer>
+  );
+}
@@ -0,0 +1,278 @@
+import { useMemo, useRef, useState } from 'react';
+import { Link as RouterLink } from 'react-router-dom';
+import { Box, Button, Chip, LinearProgress, Stack, Typography } from '@mui/material';
+import { useQueries } from '@tanstack/react-query';
+import dayjs from 'dayjs';
+import { ApiClient, PatentGraphEdge, PatentGraphNode } from '../api/client';
+
+interface PatentGraphExplorerProps {
+  patentNumber: string;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+const width = 720;
+const height = 420;
+const margin = 24;
+const restLength = 90;
+const iterations = 150;
+const assigneeColors = ['#1976d2', '#9c27b0', '#2e7d32', '#ed6c02', '#d32f2f', '#0097a7', '#5d4037', '#c2185b'];
+const unknownColor = '#9e9e9e';
+
+function clampPoint({ x, y }: Point): Point {
+  return { x: Math.max(margin, Math.min(width - margin, x)), y: Math.max(margin, Math.min(height - margin, y)) };
+}
+
+// A small force layout: nodes repel, edges pull to a rest length. Nodes placed in an earlier render barely move,
+// so expanding a node grows the picture around it instead of reshuffling everything.
+function layoutGraph(
+  nodes: PatentGraphNode[],
+  edges: PatentGraphEdge[],
+  previous: Map<string, Point>,
+): Map<string, Point> {
+  const positions = new Map<string, Point>();
+  nodes.forEach((node, index) => {
+    const known = previous.get(node.id);
+    const neighbour = edges
+      .filter((edge) => edge.source === node.id || edge.target === node.id)
+      .map((edge) => previous.get(edge.source === node.id ? edge.target : edge.source))
+      .find(Boolean);
+    const angle = (index / Math.max(1, nodes.length)) * Math.PI * 2;
+    const origin = neighbour ?? { x: width / 2, y: height / 2 };
+    const spread = neighbour ? 40 : node.depth === 0 ? 0 : 140;
+    positions.set(
+      node.id,
+      known ?? clampPoint({ x: origin.x + Math.cos(angle) * spread, y: origin.y + Math.sin(angle) * spread }),
+    );
+  });
+
+  for (let step = 0; step < iterations; step += 1) {
+    const forces = new Map<string, Point>(nodes.map((node) => [node.id, { x: 0, y: 0 }]));
+    nodes.forEach((a, i) => {
+      nodes.slice(i + 1).forEach((b) => {
+        const pa = positions.get(a.id)!;
+        const pb = positions.get(b.id)!;
+        const dx = pa.x - pb.x || 0.1;
+        const dy = pa.y - pb.y || 0.1;
+        const push = 2400 / Math.max(dx * dx + dy * dy, 25);
+        forces.get(a.id)!.x += dx * push * 0.05;
+        forces.get(a.id)!.y += dy * push * 0.05;
+        forces.get(b.id)!.x -= dx * push * 0.05;
+        forces.get(b.id)!.y -= dy * push * 0.05;
+      });
+    });
+    edges.forEach((edge) => {
+      const pa = positions.get(edge.source);
+      const pb = positions.get(edge.target);
+      if (!pa || !pb) {
+        return;
+      }
+      const dx = pb.x - pa.x;
+      const dy = pb.y - pa.y;
+      const distance = Math.max(Math.sqrt(dx * dx + dy * dy), 1);
+      const pull = ((distance - restLength) / distance) * 0.05;
+      forces.get(edge.source)!.x += dx * pull;
+      forces.get(edge.source)!.y += dy * pull;
+      forces.get(edge.target)!.x -= dx * pull;
+      forces.get(edge.target)!.y -= dy * pull;
+    });
+    nodes.forEach((node) => {
+      const point = positions.get(node.id)!;
+      const force = forces.get(node.id)!;
+      const damping = previous.has(node.id) ? 0.2 : 1;
+      const fx = Math.max(-10, Math.min(10, force.x + (width / 2 - point.x) * 0.005)) * damping;
+      const fy = Math.max(-10, Math.min(10, force.y + (height / 2 - point.y) * 0.005)) * damping;
+      positions.set(node.id, clampPoint({ x: point.x + fx, y: point.y + fy }));
+    });
+  }
+  return positions;
+}
+
+function mergeGraphs(graphs: Array<{ nodes: PatentGraphNode[]; edges: PatentGraphEdge[] } | undefined>) {
+  const nodes = new Map<string, PatentGraphNode>();
+  const edges = new Map<string, PatentGraphEdge>();
+  graphs.forEach((graph) => {
+    graph?.nodes.forEach((node) => {
+      const existing = nodes.get(node.id);
+      nodes.set(
+        node.id,
+        existing
+          ? { ...existing, ...node, depth: Math.min(existing.depth, node.depth), expanded: existing.expanded || node.expanded }
+          : node,
+      );
+    });
+    graph?.edges.forEach((edge) => edges.set(`${edge.source}>${edge.target}`, edge));
+  });
+  return { nodes: Array.from(nodes.values()), edges: Array.from(edges.values()) };
+}
+
+export function PatentGraphExplorer({ patentNumber }: PatentGraphExplorerProps) {
+  const [expanded, setExpanded] = useState<string[]>([patentNumber]);
+  const [selectedId, setSelectedId] = useState(patentNumber);
+  const positionsRef = useRef(new Map<string, Point>());
+
+  const queries = useQueries({
+    queries: expanded.map((id) => ({
+      queryKey: ['patent-graph', id],
+      queryFn: () => ApiClient.fetchPatentGraph(id),
+      staleTime: 1000 * 60 * 60,
+      retry: 1,
+    })),
+  });
+
+  // useQueries hands back a new array every render; only re-run the layout when some graph data actually changed.
+  const version = queries.map((query) => query.dataUpdatedAt).join(',');
+  const graph = useMemo(() => mergeGraphs(queries.map((query) => query.data)), [version]);
+  const positions = useMemo(() => {
+    const next = layoutGraph(graph.nodes, graph.edges, positionsRef.current);
+    positionsRef.current = next;
+    return next;
+  }, [graph]);
+
+  const colors = useMemo(() => {
+    const counts = new Map<string, number>();
+    graph.nodes.forEach((node) => node.assignee && counts.set(node.assignee, (counts.get(node.assignee) ?? 0) + 1));
+    const ranked = Array.from(counts.keys()).sort((a, b) => counts.get(b)! - counts.get(a)! || a.localeCompare(b));
+    return new Map(ranked.slice(0, assigneeColors.length).map((assignee, index) => [assignee, assigneeColors[index]]));
+  }, [graph]);
+
+  const colorOf = (node: PatentGraphNode) => (node.assignee && colors.get(node.assignee)) || unknownColor;
+  const selected = graph.nodes.find((node) => node.id === selectedId);
+  const loading = queries.some((query) => query.isFetching);
+  const truncated = queries.some((query) => query.data?.truncated);
+
+  const handleClick = (node: PatentGraphNode) => {
+    setSelectedId(node.id);
+    if (!expanded.includes(node.id)) {
+      setExpanded((current) => [...current, node.id]);
+    }
+  };
+
+  if (queries[0]?.isError) {
+    return (
+      <Typography variant="body2" color="text.secondary">
+        Citation data is not available for this patent yet.
+      </Typography>
+    );
+  }
+
+  return (
+    <Stack spacing={2}>
+      {loading && <LinearProgress />}
+      <Box
+        component="svg"
+        viewBox={`0 0 ${width} ${height}`}
+        sx={{ width: '100%', height: 'auto', bgcolor: 'background.default', borderRadius: 2 }}
+        role="img"
+        aria-label="Citation and family graph"
+      >
+        <defs>
+          <marker
+            id="patent-graph-arrow"
+            viewBox="0 0 10 10"
+            refX="18"
+            refY="5"
+            markerWidth="6"
+            markerHeight="6"
+            orient="auto"
+          >
+            <path d="M 0 0 L 10 5 L 0 10 z" fill="#9e9e9e" />
+          </marker>
+        </defs>
+        {graph.edges.map((edge) => {
+          const source = positions.get(edge.source);
+          const target = positions.get(edge.target);
+          return source && target ? (
+            <line
+              key={`${edge.source}>${edge.target}`}
+              x1={source.x}
+              y1={source.y}
+              x2={target.x}
+              y2={target.y}
+              stroke="#bdbdbd"
+              strokeWidth={1.2}
+              strokeDasharray={edge.type === 'family' ? '4 3' : undefined}
+              markerEnd={edge.type === 'cites' ? 'url(#patent-graph-arrow)' : undefined}
+            />
+          ) : null;
+        })}
+        {graph.nodes.map((node) => {
+          const point = positions.get(node.id);
+          if (!point) {
+            return null;
+          }
+          return (
+            <g
+              key={node.id}
+              transform={`translate(${point.x}, ${point.y})`}
+              onClick={() => handleClick(node)}
+              style={{ cursor: 'pointer' }}
+            >
+              <title>{`${node.title ?? `US ${node.patentNumber}`}${node.assignee ? ` · ${node.assignee}` : ''}`}</title>
+              <circle
+                r={node.id === patentNumber ? 12 : 8}
+                fill={colorOf(node)}
+                fillOpacity={node.expanded ? 1 : 0.6}
+                stroke={node.id === selectedId ? '#212121' : '#ffffff'}
+                strokeWidth={node.id === selectedId ? 2.5 : 1.5}
+              />
+            </g>
+          );
+        })}
+      </Box>
+
+      <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap alignItems="center">
+        {Array.from(colors).map(([assignee, color]) => (
+          <Chip
+            key={assignee}
+            label={assignee}
+            size="small"
+            variant="outlined"
+            icon={<Box component="span" sx={{ width: 10, height: 10, borderRadius: '50%', bgcolor: color, ml: 1 }} />}
+          />
+        ))}
+        <Typography variant="caption" color="text.secondary">
+          Arrows point from the citing patent to the cited one; dashed lines join family members. Click a patent to
+          expand its neighbours.
+          {truncated && ' Some neighbours were left out to keep the graph readable.'}
+        </Typography>
+      </Stack>
+
+      {selected && (
+        <Stack spacing={0.5} sx={{ p: 2, borderRadius: 2, border: 1, borderColor: 'divider' }}>
+          <Typography variant="subtitle2" fontWeight={600}>
+            {selected.title ?? `US ${selected.patentNumber}`}
+          </Typography>
+          <Typography variant="caption" color="text.secondary">
+            {[
+              `US ${selected.patentNumber}`,
+              selected.assignee,
+              selected.grantDate && `granted ${dayjs(selected.grantDate).format('MMM D, YYYY')}`,
+              `${graph.edges.filter((edge) => edge.type === 'cites' && edge.target === selected.id).length} citing in view`,
+            ]
+              .filter(Boolean)
+              .join(' · ')}
+          </Typography>
+          <Stack direction="row" spacing={1}>
+            {selected.itemId && (
+              <Button component={RouterLink} to={`/item/${selected.itemId}`} size="small">
+                Open permalink
+              </Button>
+            )}
+            <Button
+              href={`https://patents.google.com/patent/US${selected.patentNumber}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              size="small"
+            >
+              View patent
+            </Button>
+          </Stack>
+        </Stack>
+      )}
+    </Stack>
+  );
+}
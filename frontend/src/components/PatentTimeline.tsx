@@ -0,0 +1,210 @@
+import { useMemo, useState } from 'react';
+import {
+  Box,
+  ButtonBase,
+  Skeleton,
+  Slider,
+  Stack,
+  ToggleButton,
+  ToggleButtonGroup,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import dayjs from 'dayjs';
+import { ApiClient, PatentDateField, PatentItem } from '../api/client';
+import { PatentDetailDrawer } from './PatentDetailDrawer';
+
+interface PatentTimelineProps {
+  section: string;
+  period: string;
+}
+
+interface AssigneeLane {
+  assignee: string;
+  patents: PatentItem[];
+}
+
+const dayMs = 24 * 60 * 60 * 1000;
+const maxLanes = 6;
+
+function dateOf(patent: PatentItem, field: PatentDateField): string | undefined {
+  return field === 'filing' ? patent.filingDate ?? patent.priorityDate : patent.grantDate;
+}
+
+// Slider values are whole UTC days so they round-trip to the ISO dates the API filters on.
+function toDay(date: string): number {
+  return Math.floor(Date.parse(date) / dayMs);
+}
+
+function isoDay(day: number): string {
+  return new Date(day * dayMs).toISOString().slice(0, 10);
+}
+
+function formatDay(day: number): string {
+  return dayjs(isoDay(day)).format('MMM D, YYYY');
+}
+
+// The busiest assignees get their own lane; everyone else shares the last one so the chart stays readable.
+function groupByAssignee(patents: PatentItem[]): AssigneeLane[] {
+  const groups = new Map<string, PatentItem[]>();
+  patents.forEach((patent) => {
+    const assignee = patent.assignees?.[0] ?? 'Unassigned';
+    groups.set(assignee, [...(groups.get(assignee) ?? []), patent]);
+  });
+  const lanes = Array.from(groups, ([assignee, items]) => ({ assignee, patents: items })).sort(
+    (a, b) => b.patents.length - a.patents.length || a.assignee.localeCompare(b.assignee),
+  );
+  if (lanes.length <= maxLanes) {
+    return lanes;
+  }
+  return [
+    ...lanes.slice(0, maxLanes - 1),
+    { assignee: 'Other assignees', patents: lanes.slice(maxLanes - 1).flatMap((lane) => lane.patents) },
+  ];
+}
+
+export function PatentTimeline({ section, period }: PatentTimelineProps) {
+  const [dateField, setDateField] = useState<PatentDateField>('grant');
+  const [range, setRange] = useState<[number, number] | undefined>();
+  const [draft, setDraft] = useState<[number, number] | undefined>();
+  const [selected, setSelected] = useState<PatentItem | undefined>();
+
+  const query = useQuery({
+    queryKey: ['patents', section, period, dateField, range],
+    queryFn: () =>
+      ApiClient.fetchPatents(section, period, {
+        dateField,
+        from: range && isoDay(range[0]),
+        to: range && isoDay(range[1]),
+      }),
+    staleTime: 1000 * 60 * 60,
+    placeholderData: keepPreviousData,
+  });
+
+  const bounds = useMemo((): [number, number] | undefined => {
+    const { earliest, latest } = query.data?.dateRange ?? {};
+    return earliest && latest ? [toDay(earliest), toDay(latest)] : undefined;
+  }, [query.data?.dateRange]);
+
+  const lanes = useMemo(
+    () => groupByAssignee((query.data?.patents ?? []).filter((patent) => dateOf(patent, dateField))),
+    [query.data, dateField],
+  );
+
+  const position = (patent: PatentItem) => {
+    if (!bounds || bounds[1] === bounds[0]) {
+      return 50;
+    }
+    return ((toDay(dateOf(patent, dateField)!) - bounds[0]) / (bounds[1] - bounds[0])) * 100;
+  };
+
+  const changeDateField = (value: PatentDateField | null) => {
+    if (value) {
+      setDateField(value);
+      setRange(undefined);
+      setDraft(undefined);
+    }
+  };
+
+  return (
+    <Box sx={{ p: 3, borderRadius: 3, bgcolor: 'background.paper', boxShadow: 1 }}>
+      <Stack direction={{ xs: 'column', md: 'row' }} justifyContent="space-between" spacing={2} mb={2}>
+        <Typography variant="h6" fontWeight={600}>
+          Patent timeline
+        </Typography>
+        <ToggleButtonGroup value={dateField} exclusive size="small" onChange={(_, value) => changeDateField(value)}>
+          <ToggleButton value="grant">Granted</ToggleButton>
+          <ToggleButton value="filing">Filed</ToggleButton>
+        </ToggleButtonGroup>
+      </Stack>
+
+      {query.isLoading && <Skeleton variant="rounded" height={160} />}
+
+      {bounds && (
+        <Stack spacing={1.5}>
+          {lanes.map((lane) => (
+            <Stack key={lane.assignee} direction="row" spacing={2} alignItems="center">
+              <Typography variant="body2" fontWeight={600} noWrap sx={{ width: 160, flexShrink: 0 }} title={lane.assignee}>
+                {lane.assignee}
+              </Typography>
+              <Box sx={{ position: 'relative', flex: 1, height: 24, mx: 1 }}>
+                <Box sx={{ position: 'absolute', top: '50%', left: 0, right: 0, borderTop: 1, borderColor: 'divider' }} />
+                {lane.patents.map((patent) => {
+                  const size = 10 + Math.round(patent.impactScore / 10);
+                  return (
+                    <Tooltip
+                      key={patent.id}
+                      title={`${patent.title} · ${formatDay(toDay(dateOf(patent, dateField)!))} · impact ${patent.impactScore}`}
+                    >
+                      <ButtonBase
+                        onClick={() => setSelected(patent)}
+                        aria-label={patent.title}
+                        sx={{
+                          position: 'absolute',
+                          top: '50%',
+                          left: `${position(patent)}%`,
+                          width: size,
+                          height: size,
+                          borderRadius: '50%',
+                          bgcolor: 'secondary.main',
+                          opacity: 0.85,
+                          transform: 'translate(-50%, -50%)',
+                          '&:hover': { opacity: 1 },
+                        }}
+                      />
+                    </Tooltip>
+                  );
+                })}
+              </Box>
+            </Stack>
+          ))}
+          {lanes.length === 0 && (
+            <Typography variant="body2" color="text.secondary">
+              No patents {dateField === 'grant' ? 'granted' : 'filed'} in this range.
+            </Typography>
+          )}
+          <Box sx={{ pl: { xs: 2, md: 23 }, pr: 2 }}>
+            <Slider
+              value={draft ?? range ?? bounds}
+              min={bounds[0]}
+              max={bounds[1]}
+              step={1}
+              disabled={bounds[0] === bounds[1]}
+              valueLabelDisplay="auto"
+              valueLabelFormat={formatDay}
+              getAriaLabel={(index) => (index === 0 ? 'From date' : 'To date')}
+              onChange={(_, value) => setDraft(value as [number, number])}
+              onChangeCommitted={(_, value) => {
+                const [from, to] = value as [number, number];
+                setRange(from === bounds[0] && to === bounds[1] ? undefined : [from, to]);
+                setDraft(undefined);
+              }}
+            />
+            <Stack direction="row" justifyContent="space-between">
+              <Typography variant="caption" color="text.secondary">
+                {formatDay(bounds[0])}
+              </Typography>
+              {Boolean(query.data?.hiddenByFilters) && (
+                <Typography variant="caption" color="text.secondary">
+                  {query.data?.hiddenByFilters} outside the selected range
+                </Typography>
+              )}
+              <Typography variant="caption" color="text.secondary">
+                {formatDay(bounds[1])}
+              </Typography>
+            </Stack>
+          </Box>
+        </Stack>
+      )}
+
+      {!query.isLoading && !bounds && (
+        <Typography variant="body2" color="text.secondary">
+          No dated patents for this period yet.
+        </Typography>
+      )}
+
+      <PatentDetailDrawer patent={selected} onClose={() => setSelected(undefined)} />
+    </Box>
+  );
+}
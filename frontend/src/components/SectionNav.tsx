@@ -0,0 +1,27 @@
+import { NavLink } from 'react-router-dom';
+import { Box, Typography } from '@mui/material';
+import { useSections } from '../hooks/useSections';
+
+export function SectionNav() {
+  const { sections } = useSections();
+
+  return (
+    <Box sx={{ display: { xs: 'none', md: 'flex' }, gap: 2 }}>
+      {sections.map((section) => (
+        <NavLink key={section.id} to={`/section/${section.id}`} style={{ textDecoration: 'none' }}>
+          {({ isActive }) => (
+            <Typography
+              sx={{
+                fontWeight: isActive ? 700 : 500,
+                color: isActive ? 'primary.main' : 'text.secondary',
+                whiteSpace: 'nowrap',
+              }}
+            >
+              {section.label}
+            </Typography>
+          )}
+        </NavLink>
+      ))}
+    </Box>
+  );
+}
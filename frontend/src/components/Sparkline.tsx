@@ -0,0 +1,27 @@
+import { Box } from '@mui/material';
+
+interface SparklineProps {
+  values: number[];
+  width?: number;
+  height?: number;
+  color?: string;
+}
+
+export function Sparkline({ values, width = 96, height = 28, color = 'currentColor' }: SparklineProps) {
+  if (values.length < 2) {
+    return null;
+  }
+  const max = Math.max(...values, 1);
+  const step = width / (values.length - 1);
+  const points = values
+    .map((value, index) => `${(index * step).toFixed(1)},${(height - 2 - (value / max) * (height - 4)).toFixed(1)}`)
+    .join(' ');
+  const [lastX, lastY] = points.split(' ').slice(-1)[0].split(',');
+
+  return (
+    <Box component="svg" width={width} height={height} viewBox={`0 0 ${width} ${height}`} sx={{ color, flexShrink: 0 }} aria-hidden>
+      <polyline points={points} fill="none" stroke="currentColor" strokeWidth={1.5} strokeLinejoin="round" />
+      <circle cx={lastX} cy={lastY} r={2} fill="currentColor" />
+    </Box>
+  );
+}
@@ -0,0 +1,153 @@
+import { useState } from 'react';
+import { Link as RouterLink } from 'react-router-dom';
+import {
+  Box,
+  Chip,
+  Grid,
+  Link,
+  Skeleton,
+  Stack,
+  ToggleButton,
+  ToggleButtonGroup,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { useQuery } from '@tanstack/react-query';
+import { ApiClient, SectionInfo, TrendTopic } from '../api/client';
+import { Sparkline } from './Sparkline';
+
+interface TrendingPanelProps {
+  sections: SectionInfo[];
+}
+
+const periods = [
+  { id: 'daily', label: 'Day' },
+  { id: 'weekly', label: 'Week' },
+  { id: 'monthly', label: 'Month' },
+];
+
+function describeTopic(topic: TrendTopic): string {
+  return `${topic.current} mentions in the latest snapshot vs ${topic.baseline} on average before (${topic.history.join(' → ')})`;
+}
+
+function TopicRow({ topic, direction }: { topic: TrendTopic; direction: 'rising' | 'fading' }) {
+  const delta = `${topic.delta > 0 ? '+' : ''}${topic.delta}`;
+  return (
+    <Stack direction="row" spacing={1.5} alignItems="center" justifyContent="space-between">
+      <Link component={RouterLink} to={`/tag/${topic.id}`} underline="hover" color="inherit" fontWeight={600} noWrap>
+        {topic.name}
+      </Link>
+      <Stack direction="row" spacing={1} alignItems="center">
+        <Tooltip title={describeTopic(topic)}>
+          <Box component="span" display="flex">
+            <Sparkline values={topic.history} color={direction === 'rising' ? 'success.main' : 'text.disabled'} />
+          </Box>
+        </Tooltip>
+        <Chip
+          label={topic.isNew ? 'New' : delta}
+          size="small"
+          color={direction === 'rising' ? 'success' : 'default'}
+          variant={topic.isNew ? 'filled' : 'outlined'}
+          sx={{ minWidth: 56 }}
+        />
+      </Stack>
+    </Stack>
+  );
+}
+
+export function TrendingPanel({ sections }: TrendingPanelProps) {
+  const [selected, setSelected] = useState<string | undefined>();
+  const [period, setPeriod] = useState('daily');
+  const section = selected ?? sections[0]?.id;
+
+  const query = useQuery({
+    queryKey: ['trends', section, period],
+    queryFn: () => ApiClient.fetchTrends(section!, period),
+    enabled: Boolean(section),
+    staleTime: 1000 * 60 * 30,
+  });
+
+  const rising = query.data?.rising.slice(0, 5) ?? [];
+  const fading = query.data?.fading.slice(0, 3) ?? [];
+
+  return (
+    <Box sx={{ p: 3, borderRadius: 3, bgcolor: 'background.paper', boxShadow: 1 }}>
+      <Stack direction={{ xs: 'column', md: 'row' }} justifyContent="space-between" spacing={2} mb={2}>
+        <Typography variant="h6" fontWeight={600}>
+          Trending now
+        </Typography>
+        <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap alignItems="center">
+          {sections.map((option) => (
+            <Chip
+              key={option.id}
+              label={option.label}
+              size="small"
+              color={option.id === section ? 'primary' : 'default'}
+              variant={option.id === section ? 'filled' : 'outlined'}
+              onClick={() => setSelected(option.id)}
+            />
+          ))}
+          <ToggleButtonGroup
+            value={period}
+            exclusive
+            size="small"
+            onChange={(_, value: string | null) => value && setPeriod(value)}
+          >
+            {periods.map((option) => (
+              <ToggleButton key={option.id} value={option.id}>
+                {option.label}
+              </ToggleButton>
+            ))}
+          </ToggleButtonGroup>
+        </Stack>
+      </Stack>
+
+      {query.isLoading ? (
+        <Stack spacing={1}>
+          {Array.from({ length: 3 }).map((_, index) => (
+            <Skeleton key={index} variant="text" height={32} />
+          ))}
+        </Stack>
+      ) : (
+        <Grid container spacing={3}>
+          <Grid item xs={12} md={7}>
+            <Typography variant="overline" color="text.secondary">
+              Rising
+            </Typography>
+            <Stack spacing={1}>
+              {rising.map((topic) => (
+                <TopicRow key={topic.id} topic={topic} direction="rising" />
+              ))}
+              {rising.length === 0 && (
+                <Typography variant="body2" color="text.secondary">
+                  No topic is accelerating across recent snapshots yet.
+                </Typography>
+              )}
+            </Stack>
+          </Grid>
+          <Grid item xs={12} md={5}>
+            <Typography variant="overline" color="text.secondary">
+              Fading
+            </Typography>
+            <Stack spacing={1}>
+              {fading.map((topic) => (
+                <TopicRow key={topic.id} topic={topic} direction="fading" />
+              ))}
+              {fading.length === 0 && (
+                <Typography variant="body2" color="text.secondary">
+                  Nothing is cooling off.
+                </Typography>
+              )}
+            </Stack>
+          </Grid>
+        </Grid>
+      )}
+
+      {query.isError && (
+        <Typography variant="body2" color="text.secondary">
+          Trend history is not available for this section yet.
+        </Typography>
+      )}
+    </Box>
+  );
+}
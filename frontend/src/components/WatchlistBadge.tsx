@@ -0,0 +1,22 @@
+import { Link } from 'react-router-dom';
+import { Badge, IconButton, Tooltip } from '@mui/material';
+import NotificationsIcon from '@mui/icons-material/Notifications';
+import { useWatchlistMatches } from '../hooks/useWatchlistMatches';
+
+export function WatchlistBadge() {
+  const { signedIn, unread } = useWatchlistMatches();
+
+  if (!signedIn) {
+    return null;
+  }
+
+  return (
+    <Tooltip title={unread > 0 ? `${unread} new watchlist matches` : 'Patent watchlists'}>
+      <IconButton component={Link} to="/watchlists" color="primary" aria-label="Patent watchlists">
+        <Badge badgeContent={unread} color="error" max={99}>
+          <NotificationsIcon />
+        </Badge>
+      </IconButton>
+    </Tooltip>
+  );
+}
@@ -0,0 +1,23 @@
+import { useCallback } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { ApiClient, SectionInfo } from '../api/client';
+
+const noSections: SectionInfo[] = [];
+
+export function useSections() {
+  const query = useQuery({
+    queryKey: ['sections'],
+    queryFn: () => ApiClient.listSections(),
+    staleTime: 1000 * 60 * 30,
+  });
+
+  const sections = query.data?.sections ?? noSections;
+  const findSection = useCallback((id: string) => sections.find((section) => section.id === id), [sections]);
+
+  return {
+    sections,
+    findSection,
+    isLoading: query.isLoading,
+    isError: query.isError,
+  };
+}
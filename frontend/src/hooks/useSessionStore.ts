@@ -9,13 +9,21 @@ export interface Personalization {
   sessionId: string;
 }
 
+interface IdTokenClaims {
+  email?: string;
+  name?: string;
+  exp?: number;
+}
+
 interface SessionState {
   sessionId: string;
+  idToken?: string;
   personalization?: Personalization;
   displayName?: string;
   setSessionId: (sessionId: string) => void;
   setPersonalization: (personalization: Personalization) => void;
   setDisplayName: (displayName?: string) => void;
+  setIdToken: (idToken?: string) => void;
 }
 
 function bootstrapSessionId(): string {
@@ -31,6 +39,15 @@ function bootstrapSessionId(): string {
   return generated;
 }
 
+function decodeClaims(idToken: string): IdTokenClaims | null {
+  try {
+    const payload = idToken.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+    return JSON.parse(window.atob(payload)) as IdTokenClaims;
+  } catch (error) {
+    return null;
+  }
+}
+
 export const useSessionStore = create<SessionState>((set) => ({
   sessionId: bootstrapSessionId(),
   setSessionId: (sessionId) => {
@@ -41,4 +58,14 @@ export const useSessionStore = create<SessionState>((set) => ({
   },
   setPersonalization: (personalization) => set({ personalization }),
   setDisplayName: (displayName) => set({ displayName }),
+  // The ID token from the sign-in callback lives only in memory and is dropped once it expires.
+  setIdToken: (idToken) => {
+    const claims = idToken ? decodeClaims(idToken) : null;
+    if (!idToken || !claims?.exp || claims.exp * 1000 <= Date.now()) {
+      set({ idToken: undefined });
+      return;
+    }
+    window.setTimeout(() => set({ idToken: undefined }), claims.exp * 1000 - Date.now());
+    set({ idToken, displayName: claims.name ?? claims.email });
+  },
 }));
@@ -0,0 +1,26 @@
+import { useQuery } from '@tanstack/react-query';
+import { ApiClient } from '../api/client';
+import { useSessionStore } from './useSessionStore';
+
+export function useWatchlistMatches() {
+  const idToken = useSessionStore((state) => state.idToken);
+  const sessionId = useSessionStore((state) => state.sessionId);
+
+  // Loading alerts also registers this browser session, so the refresh workflow knows where to push new matches.
+  const query = useQuery({
+    queryKey: ['watchlist-matches', sessionId],
+    queryFn: () => ApiClient.watchlistMatches(sessionId),
+    enabled: Boolean(idToken),
+    staleTime: 1000 * 60 * 5,
+    retry: 1,
+  });
+
+  return {
+    signedIn: Boolean(idToken),
+    matches: query.data?.matches ?? [],
+    unread: query.data?.unread ?? 0,
+    lastReadAt: query.data?.lastReadAt,
+    isLoading: query.isLoading,
+    isError: query.isError,
+  };
+}
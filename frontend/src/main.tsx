@@ -5,6 +5,10 @@ import App from './App';
 import { HomePage } from './pages/HomePage';
 import { SectionPage } from './pages/SectionPage';
 import { ArchivePage } from './pages/ArchivePage';
+import { TagPage } from './pages/TagPage';
+import { ItemPage } from './pages/ItemPage';
+import { WatchlistsPage } from './pages/WatchlistsPage';
+import { AuthCallbackPage } from './pages/AuthCallbackPage';
 
 declare global {
   interface Window {
@@ -20,6 +24,10 @@ const router = createBrowserRouter([
       { index: true, element: <HomePage /> },
       { path: 'section/:sectionId', element: <SectionPage /> },
       { path: 'archive/:sectionId/:period', element: <ArchivePage /> },
+      { path: 'tag/:tagId', element: <TagPage /> },
+      { path: 'item/:itemId', element: <ItemPage /> },
+      { path: 'watchlists', element: <WatchlistsPage /> },
+      { path: 'auth/callback', element: <AuthCallbackPage /> },
       { path: '*', element: <Navigate to="/" replace /> },
     ],
   },
@@ -1,28 +1,75 @@
 import { useMemo, useState } from 'react';
-import { useParams } from 'react-router-dom';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
 import {
   Box,
   Breadcrumbs,
+  Button,
   Chip,
   LinearProgress,
   Link,
   Stack,
   TextField,
+  ToggleButton,
+  ToggleButtonGroup,
   Typography,
 } from '@mui/material';
-import { useQuery } from '@tanstack/react-query';
+import { useInfiniteQuery, useQuery } from '@tanstack/react-query';
 import dayjs from 'dayjs';
-import { ApiClient } from '../api/client';
+import { ApiClient, SnapshotSummary } from '../api/client';
+import { HypeBadge } from '../components/HypeBadge';
+import { useSections } from '../hooks/useSections';
+
+const periods = [
+  { id: 'daily', label: 'Days' },
+  { id: 'weekly', label: 'Weeks' },
+  { id: 'monthly', label: 'Months' },
+  { id: 'yearly', label: 'Years' },
+];
+
+function describeSnapshot(period: string, snapshot: SnapshotSummary): string {
+  const start = dayjs(snapshot.startsAt);
+  switch (period) {
+    case 'weekly':
+      return `Week of ${start.format('MMM D, YYYY')}`;
+    case 'monthly':
+      return start.format('MMMM YYYY');
+    case 'yearly':
+      return start.format('YYYY');
+    default:
+      return start.format('ddd, MMM D, YYYY');
+  }
+}
 
 export function ArchivePage() {
   const params = useParams();
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
   const sectionId = params.sectionId ?? 'ai';
   const period = params.period ?? 'monthly';
+  const { findSection } = useSections();
+  const sectionLabel = findSection(sectionId)?.label ?? sectionId.replace('-', ' ');
   const [search, setSearch] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+
+  const snapshotsQuery = useInfiniteQuery({
+    queryKey: ['snapshots', sectionId, period, from, to],
+    queryFn: ({ pageParam }) => ApiClient.listSnapshots(sectionId, period, { from, to, cursor: pageParam }),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    staleTime: 1000 * 60 * 10,
+  });
+
+  const snapshots = useMemo(
+    () => snapshotsQuery.data?.pages.flatMap((page) => page.snapshots) ?? [],
+    [snapshotsQuery.data?.pages],
+  );
+  const selectedLabel = searchParams.get('snapshot') ?? snapshots[0]?.label;
 
   const query = useQuery({
-    queryKey: ['archive', sectionId, period],
-    queryFn: () => ApiClient.fetchNews(sectionId, period),
+    queryKey: ['snapshot', sectionId, period, selectedLabel],
+    queryFn: () => ApiClient.fetchSnapshot(sectionId, period, selectedLabel as string),
+    enabled: Boolean(selectedLabel),
     staleTime: 1000 * 60 * 10,
   });
 
@@ -39,6 +86,18 @@ export function ArchivePage() {
     );
   }, [query.data?.items, search]);
 
+  const handlePeriodChange = (_: React.MouseEvent<HTMLElement>, value: string | null) => {
+    if (value) {
+      navigate(`/archive/${sectionId}/${value}`);
+    }
+  };
+
+  const selectSnapshot = (label: string) => {
+    setSearchParams({ snapshot: label });
+  };
+
+  const isLoading = snapshotsQuery.isLoading || query.isLoading;
+
   return (
     <Stack spacing={3}>
       <Breadcrumbs>
@@ -46,14 +105,87 @@ export function ArchivePage() {
           Home
         </Link>
         <Link underline="hover" color="inherit" href={`/section/${sectionId}`}>
-          {sectionId.toUpperCase()}
+          {sectionLabel}
         </Link>
         <Typography color="text.primary">{period.toUpperCase()} Archive</Typography>
       </Breadcrumbs>
 
-      <Typography variant="h4" fontWeight={700} textTransform="capitalize">
-        {sectionId.replace('-', ' ')} archive ({period})
-      </Typography>
+      <Stack direction={{ xs: 'column', md: 'row' }} justifyContent="space-between" spacing={2}>
+        <Typography variant="h4" fontWeight={700} textTransform="capitalize">
+          {sectionLabel} archive ({period})
+        </Typography>
+        <ToggleButtonGroup value={period} exclusive onChange={handlePeriodChange} size="small">
+          {periods.map((option) => (
+            <ToggleButton key={option.id} value={option.id}>
+              {option.label}
+            </ToggleButton>
+          ))}
+        </ToggleButtonGroup>
+      </Stack>
+
+      <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2}>
+        <TextField
+          type="date"
+          label="From"
+          value={from}
+          onChange={(event) => setFrom(event.target.value)}
+          InputLabelProps={{ shrink: true }}
+        />
+        <TextField
+          type="date"
+          label="To"
+          value={to}
+          onChange={(event) => setTo(event.target.value)}
+          InputLabelProps={{ shrink: true }}
+        />
+      </Stack>
+
+      <Stack direction="row" spacing={1} sx={{ overflowX: 'auto', pb: 1 }}>
+        {snapshots.map((snapshot) => (
+          <Chip
+            key={snapshot.label}
+            label={describeSnapshot(period, snapshot)}
+            color={snapshot.label === selectedLabel ? 'primary' : 'default'}
+            variant={snapshot.label === selectedLabel ? 'filled' : 'outlined'}
+            onClick={() => selectSnapshot(snapshot.label)}
+          />
+        ))}
+        {snapshots.length === 0 && !snapshotsQuery.isLoading && (
+          <Typography variant="body2" color="text.secondary">
+            No snapshots recorded for this range yet.
+          </Typography>
+        )}
+        {snapshotsQuery.hasNextPage && (
+          <Button
+            size="small"
+            sx={{ flexShrink: 0 }}
+            onClick={() => snapshotsQuery.fetchNextPage()}
+            disabled={snapshotsQuery.isFetchingNextPage}
+          >
+            Load more
+          </Button>
+        )}
+      </Stack>
+
+      {query.data && (
+        <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap>
+          <Chip label={`${query.data.newsCount} stories`} size="small" />
+          <Chip label={`${query.data.patentCount} patents`} size="small" />
+          {query.data.verificationScore !== undefined && (
+            <Chip label={`Avg. verification ${query.data.verificationScore}%`} color="success" size="small" />
+          )}
+          {query.data.verifiedAt && (
+            <Chip
+              label={`Captured ${dayjs(query.data.verifiedAt).format('MMM D, YYYY h:mm A')}`}
+              size="small"
+              variant="outlined"
+            />
+          )}
+          {query.data.newsPromptVersion && (
+            <Chip label={`Prompts ${query.data.newsPromptVersion}`} size="small" variant="outlined" />
+          )}
+        </Stack>
+      )}
 
       <TextField
         fullWidth
@@ -63,7 +195,7 @@ export function ArchivePage() {
         placeholder="e.g. AI ethics breakthroughs"
       />
 
-      {query.isLoading && <LinearProgress />}
+      {isLoading && <LinearProgress />}
 
       <Stack spacing={2}>
         {filtered.map((item) => (
@@ -72,22 +204,25 @@ export function ArchivePage() {
               <Typography variant="h6" fontWeight={600}>
                 {item.title}
               </Typography>
-              <Chip label={`${item.verificationScore}%`} color="success" size="small" />
+              <Stack direction="row" spacing={1} alignItems="center">
+                <HypeBadge hypeRisk={item.hypeRisk} hype={item.hype} />
+                <Chip label={`${item.verificationScore}%`} color="success" size="small" />
+              </Stack>
             </Stack>
             <Typography variant="body2" color="text.secondary" mt={1}>
               {item.summary}
             </Typography>
             <Typography variant="caption" color="text.secondary" display="block" mt={1}>
-              {dayjs(item.publishedAt ?? query.data?.generatedAt).format('MMMM D, YYYY h:mm A')}
+              {dayjs(item.publishedAt ?? query.data?.verifiedAt).format('MMMM D, YYYY h:mm A')}
             </Typography>
           </Box>
         ))}
-        {filtered.length === 0 && !query.isLoading && (
+        {filtered.length === 0 && !isLoading && selectedLabel && (
           <Typography variant="body2" color="text.secondary">
             No archive entries match your search yet. Try another keyword or adjust the time horizon.
           </Typography>
         )}
-        {query.isError && (
+        {(query.isError || snapshotsQuery.isError) && (
           <Typography variant="body2" color="error">
             Unable to load archive data. Please try again later.
           </Typography>
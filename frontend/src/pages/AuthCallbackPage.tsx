@@ -0,0 +1,47 @@
+import { useEffect } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { Alert, LinearProgress, Stack, Typography } from '@mui/material';
+import { useQuery } from '@tanstack/react-query';
+import { ApiClient } from '../api/client';
+import { useSessionStore } from '../hooks/useSessionStore';
+
+// The Cognito hosted UI redirects here with an authorization code. A code can be redeemed once, so the exchange
+// runs as a query keyed by the code rather than in an effect that StrictMode would fire twice.
+export function AuthCallbackPage() {
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const setIdToken = useSessionStore((state) => state.setIdToken);
+  const setDisplayName = useSessionStore((state) => state.setDisplayName);
+  const code = searchParams.get('code');
+
+  const query = useQuery({
+    queryKey: ['sign-in', code],
+    queryFn: () => ApiClient.completeSignIn(code as string, `${window.location.origin}/auth/callback`),
+    enabled: Boolean(code),
+    retry: false,
+    staleTime: Infinity,
+    gcTime: Infinity,
+  });
+
+  useEffect(() => {
+    if (!query.data) {
+      return;
+    }
+    setDisplayName(query.data.displayName ?? query.data.email);
+    setIdToken(query.data.idToken);
+    navigate('/watchlists', { replace: true });
+  }, [query.data, navigate, setDisplayName, setIdToken]);
+
+  if (!code || query.isError) {
+    return <Alert severity="error">Sign-in could not be completed. Please try again.</Alert>;
+  }
+
+  return (
+    <Stack spacing={2}>
+      <Typography variant="body2" color="text.secondary">
+        Completing sign-in…
+      </Typography>
+      <LinearProgress />
+    </Stack>
+  );
+}
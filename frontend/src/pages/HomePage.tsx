@@ -15,17 +15,13 @@ import {
 import { useQueries, useQuery } from '@tanstack/react-query';
 import dayjs from 'dayjs';
 import { ApiClient } from '../api/client';
+import { TrendingPanel } from '../components/TrendingPanel';
+import { useSections } from '../hooks/useSections';
 import { useSessionStore } from '../hooks/useSessionStore';
 
-const sections = [
-  { id: 'ai', label: 'Artificial Intelligence' },
-  { id: 'ml', label: 'Machine Learning' },
-  { id: 'iot', label: 'Internet of Things' },
-  { id: 'quantum', label: 'Quantum Computing' },
-];
-
 export function HomePage() {
   const sessionId = useSessionStore((state) => state.sessionId);
+  const { sections, findSection } = useSections();
 
   const newsQueries = useQueries({
     queries: sections.map((section) => ({
@@ -35,9 +31,10 @@ export function HomePage() {
     })),
   });
 
+  const spotlightSection = sections[0]?.id ?? 'ai';
   const spotlightQuery = useQuery({
-    queryKey: ['news', 'spotlight', 'daily'],
-    queryFn: () => ApiClient.fetchNews('ai', 'daily'),
+    queryKey: ['news', 'spotlight', spotlightSection, 'daily'],
+    queryFn: () => ApiClient.fetchNews(spotlightSection, 'daily'),
     staleTime: 1000 * 60 * 5,
   });
 
@@ -55,12 +52,12 @@ export function HomePage() {
   const recommendationChips = useMemo(
     () =>
       recommendationsQuery.data?.recommendations.map((recommendation) => ({
-        label: recommendation.section.toUpperCase(),
+        label: recommendation.label ?? findSection(recommendation.section)?.label ?? recommendation.section.toUpperCase(),
         href: `/section/${recommendation.section}`,
         tooltip: recommendation.reason,
         score: recommendation.score,
       })) ?? [],
-    [recommendationsQuery.data],
+    [recommendationsQuery.data, findSection],
   );
 
   return (
@@ -117,6 +114,8 @@ export function HomePage() {
         </Stack>
       )}
 
+      {sections.length > 0 && <TrendingPanel sections={sections} />}
+
       <Grid container spacing={3}>
         {newsQueries.map((query, index) => {
           const section = sections[index];
@@ -136,6 +135,11 @@ export function HomePage() {
                       variant="outlined"
                     />
                   </Stack>
+                  {section.description && (
+                    <Typography variant="body2" color="text.secondary" mt={1}>
+                      {section.description}
+                    </Typography>
+                  )}
                   <Stack spacing={2} mt={2}>
                     {query.isLoading
                       ? Array.from({ length: 3 }).map((_, skeletonIndex) => (
@@ -0,0 +1,198 @@
+import { useState } from 'react';
+import { Link as RouterLink, useParams } from 'react-router-dom';
+import {
+  Breadcrumbs,
+  Button,
+  Chip,
+  LinearProgress,
+  Link,
+  Stack,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import ShareIcon from '@mui/icons-material/Share';
+import { useQuery } from '@tanstack/react-query';
+import dayjs from 'dayjs';
+import { ApiClient, NewsItem, PatentItem } from '../api/client';
+import { CitationList } from '../components/CitationList';
+import { ContentLinkList } from '../components/ContentLinkList';
+import { EntityChips } from '../components/EntityChips';
+import { HypeBadge } from '../components/HypeBadge';
+import { ImpactBreakdownList } from '../components/ImpactBreakdownList';
+import { PatentGraphExplorer } from '../components/PatentGraphExplorer';
+import { useSections } from '../hooks/useSections';
+
+function snapshotLink(snapshot: string): { to: string; period: string; label: string } {
+  const [section, period, label] = snapshot.split('#');
+  return { to: `/archive/${section}/${period}?snapshot=${encodeURIComponent(label)}`, period, label };
+}
+
+export function ItemPage() {
+  const params = useParams();
+  const itemId = params.itemId ?? '';
+  const { findSection } = useSections();
+  const labelFor = (id: string) => findSection(id)?.label ?? id.toUpperCase();
+  const [copied, setCopied] = useState(false);
+
+  const query = useQuery({
+    queryKey: ['item', itemId],
+    queryFn: () => ApiClient.fetchItem(itemId),
+    enabled: Boolean(itemId),
+    staleTime: 1000 * 60 * 10,
+    retry: 1,
+  });
+
+  const share = async () => {
+    const url = window.location.href;
+    const title = query.data?.item.title;
+    if (navigator.share) {
+      await navigator.share({ title, url }).catch(() => undefined);
+      return;
+    }
+    await navigator.clipboard.writeText(url);
+    setCopied(true);
+  };
+
+  const data = query.data;
+  const news = data?.kind === 'news' ? (data.item as NewsItem) : undefined;
+  const patent = data?.kind === 'patent' ? (data.item as PatentItem) : undefined;
+
+  return (
+    <Stack spacing={3}>
+      <Breadcrumbs>
+        <Link component={RouterLink} underline="hover" color="inherit" to="/">
+          Home
+        </Link>
+        {data && (
+          <Link component={RouterLink} underline="hover" color="inherit" to={`/section/${data.section}`}>
+            {labelFor(data.section)}
+          </Link>
+        )}
+        <Typography color="text.primary">{data?.kind === 'patent' ? 'Patent' : 'Story'}</Typography>
+      </Breadcrumbs>
+
+      {query.isLoading && <LinearProgress />}
+
+      {query.isError && (
+        <Typography variant="body2" color="text.secondary">
+          This item is no longer available.
+        </Typography>
+      )}
+
+      {data && (
+        <Stack spacing={2} sx={{ p: 3, borderRadius: 3, bgcolor: 'background.paper', boxShadow: 1 }}>
+          <Stack direction="row" justifyContent="space-between" alignItems="flex-start" spacing={2}>
+            <Typography variant="h4" fontWeight={700}>
+              {data.item.title}
+            </Typography>
+            <Tooltip title={copied ? 'Link copied' : 'Share this item'} onClose={() => setCopied(false)}>
+              <Button startIcon={<ShareIcon />} onClick={share} sx={{ flexShrink: 0 }}>
+                Share
+              </Button>
+            </Tooltip>
+          </Stack>
+          <Typography variant="body1" color="text.secondary">
+            {news?.summary ?? patent?.summary ?? patent?.abstract}
+          </Typography>
+          {patent?.patentNumber && (
+            <Typography variant="body2" color="text.secondary">
+              US {patent.patentNumber}
+              {patent.assignees && patent.assignees.length > 0 && ` · ${patent.assignees.join(', ')}`}
+              {patent.inventors && patent.inventors.length > 0 && ` · Inventors: ${patent.inventors.join(', ')}`}
+            </Typography>
+          )}
+          <Stack direction="row" spacing={1} alignItems="center" flexWrap="wrap" useFlexGap>
+            {news && <Chip label={`Verified ${news.verificationScore}%`} color="success" size="small" />}
+            {news && <HypeBadge hypeRisk={news.hypeRisk} hype={news.hype} />}
+            {news?.engagementScore !== undefined && (
+              <Chip label={`Engagement ${news.engagementScore}`} size="small" variant="outlined" />
+            )}
+            {patent && <Chip label={`Impact ${patent.impactScore}`} size="small" color="primary" variant="outlined" />}
+            {news?.publishedAt && (
+              <Typography variant="caption" color="text.secondary">
+                {dayjs(news.publishedAt).format('MMM D, YYYY')}
+              </Typography>
+            )}
+            {patent &&
+              [
+                ['Priority', patent.priorityDate],
+                ['Filed', patent.filingDate],
+                ['Granted', patent.grantDate],
+              ]
+                .filter(([, date]) => date)
+                .map(([label, date]) => (
+                  <Chip key={label} label={`${label} ${dayjs(date).format('MMM D, YYYY')}`} size="small" variant="outlined" />
+                ))}
+            {patent?.cpcCodes?.map((code) => <Chip key={code} label={code} size="small" variant="outlined" />)}
+            {data.item.sourceUrl && (
+              <Button size="small" href={data.item.sourceUrl} target="_blank" rel="noopener noreferrer">
+                Source
+              </Button>
+            )}
+          </Stack>
+          <EntityChips entities={data.item.entities} />
+          {news && <CitationList citations={news.citations} defaultExpanded />}
+          {patent && <ImpactBreakdownList impact={patent.impact} defaultExpanded />}
+          <ContentLinkList title="Related patents" links={news?.relatedPatents} />
+          <ContentLinkList title="In the news" links={patent?.inTheNews} />
+          {patent?.abstract && patent.summary && (
+            <Typography variant="body2" color="text.secondary">
+              <strong>Abstract.</strong> {patent.abstract}
+            </Typography>
+          )}
+          {patent?.claims && patent.claims.length > 0 && (
+            <Stack spacing={1}>
+              <Typography variant="subtitle2" fontWeight={600}>
+                Independent claims{patent.claimCount ? ` (${patent.claimCount} claims in total)` : ''}
+              </Typography>
+              <Stack component="ol" spacing={1} sx={{ pl: 3, my: 0 }}>
+                {patent.claims.map((claim) => (
+                  <Typography component="li" key={claim} variant="body2" color="text.secondary">
+                    {claim}
+                  </Typography>
+                ))}
+              </Stack>
+            </Stack>
+          )}
+        </Stack>
+      )}
+
+      {patent?.patentNumber && (
+        <Stack spacing={1}>
+          <Typography variant="h6" fontWeight={600}>
+            Citations and family
+          </Typography>
+          <PatentGraphExplorer patentNumber={patent.patentNumber} />
+        </Stack>
+      )}
+
+      {data && (
+        <Stack spacing={1}>
+          <Typography variant="h6" fontWeight={600}>
+            Appearances
+          </Typography>
+          <Typography variant="caption" color="text.secondary">
+            First seen {dayjs(data.firstSeenAt).format('MMM D, YYYY')} · last seen{' '}
+            {dayjs(data.lastSeenAt).format('MMM D, YYYY')}
+          </Typography>
+          <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap>
+            {data.snapshots.map((snapshot) => {
+              const link = snapshotLink(snapshot);
+              return (
+                <Chip
+                  key={snapshot}
+                  label={`${labelFor(snapshot.split('#')[0])} · ${link.period} · ${link.label}`}
+                  size="small"
+                  variant="outlined"
+                  component={RouterLink}
+                  to={link.to}
+                  clickable
+                />
+              );
+            })}
+          </Stack>
+        </Stack>
+      )}
+    </Stack>
+  );
+}
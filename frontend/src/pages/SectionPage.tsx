@@ -1,21 +1,90 @@
-import { useState } from 'react';
-import { useParams } from 'react-router-dom';
+import { useMemo, useState } from 'react';
+import { Link as RouterLink, useParams } from 'react-router-dom';
 import {
   Box,
   Button,
   Chip,
   Divider,
+  FormControlLabel,
   Grid,
   LinearProgress,
+  Link,
   Stack,
+  Switch,
   ToggleButton,
   ToggleButtonGroup,
+  Tooltip,
   Typography,
 } from '@mui/material';
+import TrendingUpIcon from '@mui/icons-material/TrendingUp';
+import TrendingDownIcon from '@mui/icons-material/TrendingDown';
+import TrendingFlatIcon from '@mui/icons-material/TrendingFlat';
 import { useQuery } from '@tanstack/react-query';
 import dayjs from 'dayjs';
-import { ApiClient, NewsItem, PatentItem } from '../api/client';
+import { AggregatedNewsResponse, ApiClient, Engagement, NewsItem, PatentItem } from '../api/client';
+import { CitationList } from '../components/CitationList';
+import { ContentLinkList } from '../components/ContentLinkList';
 import { DeepDiveDialog } from '../components/DeepDiveDialog';
+import { EntityChips } from '../components/EntityChips';
+import { HypeBadge } from '../components/HypeBadge';
+import { ImpactBreakdownList } from '../components/ImpactBreakdownList';
+import { PatentTimeline } from '../components/PatentTimeline';
+import { useSections } from '../hooks/useSections';
+
+function describeVerification(item: NewsItem): string {
+  const breakdown = item.verification;
+  if (!breakdown) {
+    return 'Verification breakdown unavailable';
+  }
+  const corroboration =
+    breakdown.consultedProviders.length > 0
+      ? `Corroborated by ${breakdown.corroboratedBy.length}/${breakdown.consultedProviders.length} providers`
+      : 'No second provider consulted';
+  const sourceMatch =
+    breakdown.sourceMatch === null ? '' : ` · source match ${Math.round(breakdown.sourceMatch * 100)}%`;
+  return `${corroboration} · citations ${Math.round(breakdown.citationScore * 100)}% · source reputation ${Math.round(
+    breakdown.reputationScore * 100,
+  )}%${sourceMatch}`;
+}
+
+function describePatentDates(patent: PatentItem): string {
+  return [
+    patent.priorityDate && `Priority ${dayjs(patent.priorityDate).format('MMM D, YYYY')}`,
+    patent.filingDate && `Filed ${dayjs(patent.filingDate).format('MMM D, YYYY')}`,
+    patent.grantDate && `Granted ${dayjs(patent.grantDate).format('MMM D, YYYY')}`,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+}
+
+const trendIcons: Record<Engagement['trend'], JSX.Element> = {
+  rising: <TrendingUpIcon fontSize="small" />,
+  steady: <TrendingFlatIcon fontSize="small" />,
+  falling: <TrendingDownIcon fontSize="small" />,
+};
+
+function describeEngagement(engagement: Engagement): string {
+  return `${engagement.mentions} posts · ${engagement.interactions} interactions · ${engagement.trend} (${
+    engagement.velocity
+  }x) · checked ${dayjs(engagement.checkedAt).format('MMM D, h:mm A')}`;
+}
+
+const refreshPollMs = 30 * 1000;
+const hypeFilterMax = 64;
+
+function describeFreshness(data?: AggregatedNewsResponse): string | undefined {
+  const freshness = data?.freshness;
+  if (!freshness) {
+    return undefined;
+  }
+  if (freshness.state === 'missing') {
+    return freshness.refreshing ? 'Generating the first briefing for this horizon…' : 'No briefing available yet.';
+  }
+  const verified = `Verified ${dayjs(freshness.verifiedAt).format('MMM D, YYYY h:mm A')}`;
+  return freshness.refreshing ? `${verified} · refreshing in the background` : verified;
+}
+
+type NewsSort = 'top' | 'recent' | 'engagement';
 
 const periods = [
   { id: 'daily', label: 'Daily' },
@@ -27,22 +96,42 @@ const periods = [
 export function SectionPage() {
   const params = useParams();
   const sectionId = params.sectionId ?? 'ai';
+  const { findSection } = useSections();
+  const sectionLabel = findSection(sectionId)?.label ?? sectionId.replace('-', ' ');
   const [period, setPeriod] = useState<string>('daily');
+  const [sortBy, setSortBy] = useState<NewsSort>('top');
+  const [hideHype, setHideHype] = useState(false);
   const [selectedItem, setSelectedItem] = useState<NewsItem | undefined>();
   const [dialogOpen, setDialogOpen] = useState(false);
 
   const newsQuery = useQuery({
-    queryKey: ['news', sectionId, period],
-    queryFn: () => ApiClient.fetchNews(sectionId, period),
+    queryKey: ['news', sectionId, period, hideHype],
+    queryFn: () => ApiClient.fetchNews(sectionId, period, hideHype ? { maxHypeRisk: hypeFilterMax } : {}),
     staleTime: 1000 * 60 * 10,
+    refetchInterval: (query) => (query.state.data?.freshness?.refreshing ? refreshPollMs : false),
   });
 
   const patentsQuery = useQuery({
     queryKey: ['patents', sectionId, period],
     queryFn: () => ApiClient.fetchPatents(sectionId, period),
     staleTime: 1000 * 60 * 60,
+    refetchInterval: (query) => (query.state.data?.freshness?.refreshing ? refreshPollMs : false),
   });
 
+  // "Top" keeps the order the backend ranked and verified; the other options re-sort a copy on the client.
+  const sortedItems = useMemo(() => {
+    const items = [...(newsQuery.data?.items ?? [])];
+    if (sortBy === 'top') {
+      return items;
+    }
+    const publishedAt = (item: NewsItem) => dayjs(item.publishedAt ?? newsQuery.data?.generatedAt).valueOf();
+    return items.sort((a, b) =>
+      sortBy === 'engagement'
+        ? (b.engagementScore ?? -1) - (a.engagementScore ?? -1) || publishedAt(b) - publishedAt(a)
+        : publishedAt(b) - publishedAt(a),
+    );
+  }, [newsQuery.data, sortBy]);
+
   const handleDeepDive = (item: NewsItem) => {
     setSelectedItem(item);
     setDialogOpen(true);
@@ -59,11 +148,16 @@ export function SectionPage() {
       <Stack direction={{ xs: 'column', md: 'row' }} justifyContent="space-between" alignItems={{ xs: 'flex-start', md: 'center' }}>
         <Box>
           <Typography variant="h4" fontWeight={700} gutterBottom textTransform="capitalize">
-            {sectionId.replace('-', ' ')} intelligence
+            {sectionLabel} intelligence
           </Typography>
           <Typography variant="body1" color="text.secondary">
-            Explore {sectionId.toUpperCase()} breakthroughs with AI-assisted verification, curated for the {period} horizon.
+            Explore {sectionLabel} breakthroughs with AI-assisted verification, curated for the {period} horizon.
           </Typography>
+          {describeFreshness(newsQuery.data) && (
+            <Typography variant="caption" color="text.secondary">
+              {describeFreshness(newsQuery.data)}
+            </Typography>
+          )}
         </Box>
         <ToggleButtonGroup value={period} exclusive onChange={handleChange} size="small" color="primary">
           {periods.map((option) => (
@@ -79,13 +173,39 @@ export function SectionPage() {
       <Grid container spacing={3}>
         <Grid item xs={12} md={7}>
           <Stack spacing={3}>
-            {newsQuery.data?.items.map((item) => (
+            <Stack direction="row" spacing={2} justifyContent="flex-end" alignItems="center">
+              {hideHype && Boolean(newsQuery.data?.hiddenByFilters) && (
+                <Typography variant="caption" color="text.secondary">
+                  {newsQuery.data?.hiddenByFilters} hidden
+                </Typography>
+              )}
+              <FormControlLabel
+                control={<Switch size="small" checked={hideHype} onChange={(event) => setHideHype(event.target.checked)} />}
+                label="Hide hype"
+              />
+              <ToggleButtonGroup
+                value={sortBy}
+                exclusive
+                onChange={(_, value: NewsSort | null) => value && setSortBy(value)}
+                size="small"
+              >
+                <ToggleButton value="top">Top</ToggleButton>
+                <ToggleButton value="recent">Latest</ToggleButton>
+                <ToggleButton value="engagement">Most engaged</ToggleButton>
+              </ToggleButtonGroup>
+            </Stack>
+            {sortedItems.map((item) => (
               <Stack key={item.id} spacing={1} sx={{ p: 3, borderRadius: 3, bgcolor: 'background.paper', boxShadow: 1 }}>
                 <Stack direction="row" justifyContent="space-between" alignItems="center">
-                  <Typography variant="h6" fontWeight={600}>
+                  <Link component={RouterLink} to={`/item/${item.id}`} variant="h6" fontWeight={600} color="inherit" underline="hover">
                     {item.title}
-                  </Typography>
-                  <Chip label={`${item.verificationScore}%`} color="success" size="small" />
+                  </Link>
+                  <Stack direction="row" spacing={1} alignItems="center">
+                    <HypeBadge hypeRisk={item.hypeRisk} hype={item.hype} />
+                    <Tooltip title={describeVerification(item)}>
+                      <Chip label={`${item.verificationScore}%`} color="success" size="small" />
+                    </Tooltip>
+                  </Stack>
                 </Stack>
                 <Typography variant="body2" color="text.secondary">
                   {item.summary}
@@ -99,10 +219,32 @@ export function SectionPage() {
                       Source
                     </Button>
                   )}
+                  {(item.clusterSize ?? 1) > 1 && (
+                    <Tooltip
+                      title={(item.alternates ?? [])
+                        .map((alternate) => alternate.publisher ?? alternate.title)
+                        .join(' · ')}
+                    >
+                      <Chip label={`Covered by ${item.clusterSize} outlets`} size="small" variant="outlined" />
+                    </Tooltip>
+                  )}
+                  {item.engagement && item.engagementScore !== undefined && (
+                    <Tooltip title={describeEngagement(item.engagement)}>
+                      <Chip
+                        icon={trendIcons[item.engagement.trend]}
+                        label={`Engagement ${item.engagementScore}`}
+                        size="small"
+                        variant="outlined"
+                        color={item.engagement.trend === 'rising' ? 'secondary' : 'default'}
+                      />
+                    </Tooltip>
+                  )}
                   <Button size="small" onClick={() => handleDeepDive(item)}>
                     Deep dive
                   </Button>
                 </Stack>
+                <EntityChips entities={item.entities} />
+                <CitationList citations={item.citations} />
               </Stack>
             ))}
             {newsQuery.isError && (
@@ -121,23 +263,48 @@ export function SectionPage() {
             {patentsQuery.isLoading && <LinearProgress color="secondary" />}
             {patentsQuery.data?.patents.map((patent: PatentItem) => (
               <Box key={patent.id}>
-                <Typography variant="subtitle1" fontWeight={600}>
+                <Link component={RouterLink} to={`/item/${patent.id}`} variant="subtitle1" fontWeight={600} color="inherit" underline="hover">
                   {patent.title}
-                </Typography>
+                </Link>
+                {patent.patentNumber && (
+                  <Typography variant="caption" color="text.secondary" display="block">
+                    US {patent.patentNumber}
+                    {patent.assignees && patent.assignees.length > 0 && ` · ${patent.assignees.join(', ')}`}
+                  </Typography>
+                )}
                 <Typography variant="body2" color="text.secondary">
-                  {patent.abstract}
+                  {patent.summary ?? patent.abstract}
                 </Typography>
-                <Stack direction="row" spacing={1} mt={1} flexWrap="wrap" alignItems="center">
+                <Stack direction="row" spacing={1} mt={1} flexWrap="wrap" alignItems="center" useFlexGap>
                   <Chip label={`Impact ${patent.impactScore}`} size="small" color="primary" variant="outlined" />
-                  {patent.filingDate && (
-                    <Chip label={dayjs(patent.filingDate).format('MMM D, YYYY')} size="small" color="secondary" />
+                  {(patent.grantDate ?? patent.filingDate) && (
+                    <Tooltip title={describePatentDates(patent)}>
+                      <Chip
+                        label={`${patent.grantDate ? 'Granted' : 'Filed'} ${dayjs(patent.grantDate ?? patent.filingDate).format('MMM D, YYYY')}`}
+                        size="small"
+                        color="secondary"
+                      />
+                    </Tooltip>
                   )}
+                  {patent.cpcCodes?.slice(0, 2).map((code) => (
+                    <Chip key={code} label={code} size="small" variant="outlined" />
+                  ))}
                   {patent.inventors && patent.inventors.length > 0 && (
                     <Typography variant="caption" color="text.secondary">
                       Inventors: {patent.inventors.join(', ')}
                     </Typography>
                   )}
+                  {patent.sourceUrl && (
+                    <Button size="small" href={patent.sourceUrl} target="_blank" rel="noopener noreferrer">
+                      View patent
+                    </Button>
+                  )}
                 </Stack>
+                <ImpactBreakdownList impact={patent.impact} />
+                <ContentLinkList title="In the news" links={patent.inTheNews} />
+                <Box mt={1}>
+                  <EntityChips entities={patent.entities} max={4} />
+                </Box>
               </Box>
             ))}
             {patentsQuery.isError && (
@@ -149,6 +316,8 @@ export function SectionPage() {
         </Grid>
       </Grid>
 
+      <PatentTimeline key={`${sectionId}#${period}`} section={sectionId} period={period} />
+
       <DeepDiveDialog
         open={dialogOpen}
         onClose={() => setDialogOpen(false)}
@@ -0,0 +1,153 @@
+import { Link as RouterLink, useParams, useSearchParams } from 'react-router-dom';
+import {
+  Box,
+  Breadcrumbs,
+  Button,
+  Chip,
+  Grid,
+  LinearProgress,
+  Link,
+  Stack,
+  Typography,
+} from '@mui/material';
+import { useQuery } from '@tanstack/react-query';
+import dayjs from 'dayjs';
+import { ApiClient, TaggedContent } from '../api/client';
+import { useSections } from '../hooks/useSections';
+
+const typeLabels: Record<string, string> = {
+  company: 'Company',
+  technology: 'Technology',
+  person: 'Person',
+};
+
+function describePlacement(placement: string, labelFor: (id: string) => string): string {
+  const [section, period] = placement.split('#');
+  return `${labelFor(section)} · ${period}`;
+}
+
+export function TagPage() {
+  const params = useParams();
+  const tagId = params.tagId ?? '';
+  const [searchParams, setSearchParams] = useSearchParams();
+  const section = searchParams.get('section') ?? undefined;
+  const { findSection } = useSections();
+  const labelFor = (id: string) => findSection(id)?.label ?? id.toUpperCase();
+
+  const query = useQuery({
+    queryKey: ['tag', tagId, section],
+    queryFn: () => ApiClient.fetchTag(tagId, section),
+    enabled: Boolean(tagId),
+    staleTime: 1000 * 60 * 10,
+    retry: 1,
+  });
+
+  const selectSection = (value?: string) => {
+    setSearchParams(value ? { section: value } : {});
+  };
+
+  const renderContent = (entries: TaggedContent[], empty: string) => (
+    <Stack spacing={2}>
+      {entries.map((entry) => (
+        <Box key={entry.itemId} sx={{ p: 3, borderRadius: 3, bgcolor: 'background.paper', boxShadow: 1 }}>
+          <Link component={RouterLink} to={`/item/${entry.itemId}`} variant="h6" fontWeight={600} color="inherit" underline="hover">
+            {entry.title}
+          </Link>
+          <Typography variant="body2" color="text.secondary" mt={1}>
+            {entry.summary}
+          </Typography>
+          <Stack direction="row" spacing={1} mt={1} alignItems="center" flexWrap="wrap" useFlexGap>
+            {entry.publishedAt && (
+              <Typography variant="caption" color="text.secondary">
+                {dayjs(entry.publishedAt).format('MMM D, YYYY')}
+              </Typography>
+            )}
+            {entry.placements.map((placement) => (
+              <Chip key={placement} label={describePlacement(placement, labelFor)} size="small" variant="outlined" />
+            ))}
+            {entry.sourceUrl && (
+              <Button size="small" href={entry.sourceUrl} target="_blank" rel="noopener noreferrer">
+                Source
+              </Button>
+            )}
+          </Stack>
+        </Box>
+      ))}
+      {entries.length === 0 && !query.isLoading && (
+        <Typography variant="body2" color="text.secondary">
+          {empty}
+        </Typography>
+      )}
+    </Stack>
+  );
+
+  const tag = query.data?.tag;
+
+  return (
+    <Stack spacing={3}>
+      <Breadcrumbs>
+        <Link underline="hover" color="inherit" href="/">
+          Home
+        </Link>
+        <Typography color="text.primary">{tag?.name ?? tagId}</Typography>
+      </Breadcrumbs>
+
+      <Stack direction="row" spacing={2} alignItems="center">
+        <Typography variant="h4" fontWeight={700}>
+          {tag?.name ?? tagId.replace(/-/g, ' ')}
+        </Typography>
+        {tag && <Chip label={typeLabels[tag.type] ?? tag.type} color="primary" size="small" />}
+      </Stack>
+
+      {tag && (
+        <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap>
+          <Chip
+            label="All sections"
+            color={!section ? 'primary' : 'default'}
+            variant={!section ? 'filled' : 'outlined'}
+            onClick={() => selectSection(undefined)}
+          />
+          {tag.sections.map((id) => (
+            <Chip
+              key={id}
+              label={labelFor(id)}
+              color={section === id ? 'primary' : 'default'}
+              variant={section === id ? 'filled' : 'outlined'}
+              onClick={() => selectSection(id)}
+            />
+          ))}
+          {tag.lastSeenAt && (
+            <Typography variant="caption" color="text.secondary" alignSelf="center">
+              Last mentioned {dayjs(tag.lastSeenAt).format('MMM D, YYYY')}
+            </Typography>
+          )}
+        </Stack>
+      )}
+
+      {query.isLoading && <LinearProgress />}
+
+      {query.isError && (
+        <Typography variant="body2" color="text.secondary">
+          Nothing has been tagged with this entity yet.
+        </Typography>
+      )}
+
+      {query.data && (
+        <Grid container spacing={3}>
+          <Grid item xs={12} md={7}>
+            <Typography variant="h6" fontWeight={600} gutterBottom>
+              Stories ({query.data.news.length})
+            </Typography>
+            {renderContent(query.data.news, 'No stories mention this entity in the selected sections.')}
+          </Grid>
+          <Grid item xs={12} md={5}>
+            <Typography variant="h6" fontWeight={600} gutterBottom>
+              Patents ({query.data.patents.length})
+            </Typography>
+            {renderContent(query.data.patents, 'No patents mention this entity yet.')}
+          </Grid>
+        </Grid>
+      )}
+    </Stack>
+  );
+}
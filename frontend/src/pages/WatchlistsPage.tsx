@@ -0,0 +1,318 @@
+import { ChangeEvent, FormEvent, useState } from 'react';
+import { Link as RouterLink } from 'react-router-dom';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  Grid,
+  IconButton,
+  LinearProgress,
+  Link,
+  Stack,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import DeleteIcon from '@mui/icons-material/Delete';
+import EditIcon from '@mui/icons-material/Edit';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import dayjs from 'dayjs';
+import { ApiClient, Watchlist, WatchlistInput } from '../api/client';
+import { useSessionStore } from '../hooks/useSessionStore';
+import { useWatchlistMatches } from '../hooks/useWatchlistMatches';
+
+interface FormState {
+  name: string;
+  assignees: string;
+  cpcCodes: string;
+  keywords: string;
+}
+
+const emptyForm: FormState = { name: '', assignees: '', cpcCodes: '', keywords: '' };
+
+function splitTerms(value: string): string[] {
+  return value
+    .split(/[,\n]/)
+    .map((term) => term.trim())
+    .filter(Boolean);
+}
+
+function toForm(watchlist: Watchlist): FormState {
+  return {
+    name: watchlist.name,
+    assignees: watchlist.assignees.join(', '),
+    cpcCodes: watchlist.cpcCodes.join(', '),
+    keywords: watchlist.keywords.join(', '),
+  };
+}
+
+// The API answers validation failures with { message }, which request() passes through as the error text.
+function errorMessage(error: Error): string {
+  try {
+    return JSON.parse(error.message).message ?? error.message;
+  } catch (parseError) {
+    return error.message;
+  }
+}
+
+function toInput(form: FormState): WatchlistInput {
+  return {
+    name: form.name.trim(),
+    assignees: splitTerms(form.assignees),
+    cpcCodes: splitTerms(form.cpcCodes),
+    keywords: splitTerms(form.keywords),
+  };
+}
+
+export function WatchlistsPage() {
+  const queryClient = useQueryClient();
+  const idToken = useSessionStore((state) => state.idToken);
+  const { matches, unread, lastReadAt, isLoading: matchesLoading } = useWatchlistMatches();
+  const [form, setForm] = useState<FormState>(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const query = useQuery({
+    queryKey: ['watchlists'],
+    queryFn: () => ApiClient.listWatchlists(),
+    enabled: Boolean(idToken),
+    retry: 1,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['watchlists'] });
+    queryClient.invalidateQueries({ queryKey: ['watchlist-matches'] });
+  };
+
+  const save = useMutation({
+    mutationFn: (input: WatchlistInput) =>
+      editingId ? ApiClient.updateWatchlist(editingId, input) : ApiClient.createWatchlist(input),
+    onSuccess: () => {
+      setForm(emptyForm);
+      setEditingId(null);
+      refresh();
+    },
+  });
+
+  const remove = useMutation({
+    mutationFn: (watchlistId: string) => ApiClient.deleteWatchlist(watchlistId),
+    onSuccess: refresh,
+  });
+
+  const markRead = useMutation({
+    mutationFn: () => ApiClient.markWatchlistMatchesRead(),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['watchlist-matches'] }),
+  });
+
+  if (!idToken) {
+    return (
+      <Alert severity="info">
+        Sign in to create patent watchlists and get alerted when new patents match them.
+      </Alert>
+    );
+  }
+
+  const watchlists = query.data?.watchlists ?? [];
+  const limits = query.data?.limits;
+  const input = toInput(form);
+  const canSave =
+    Boolean(input.name) && input.assignees.length + input.cpcCodes.length + input.keywords.length > 0;
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    if (canSave) {
+      save.mutate(input);
+    }
+  };
+
+  const startEditing = (watchlist: Watchlist) => {
+    setEditingId(watchlist.watchlistId);
+    setForm(toForm(watchlist));
+    save.reset();
+  };
+
+  const cancelEditing = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+    save.reset();
+  };
+
+  const updateField = (field: keyof FormState) => (event: ChangeEvent<HTMLInputElement>) =>
+    setForm((current) => ({ ...current, [field]: event.target.value }));
+
+  return (
+    <Stack spacing={4}>
+      <Box>
+        <Typography variant="h4" fontWeight={700} gutterBottom>
+          Patent watchlists
+        </Typography>
+        <Typography variant="body1" color="text.secondary">
+          Track assignees, CPC codes and technology terms. Every refresh checks new patents against your watchlists;
+          a patent matches when it meets each field you fill in.
+        </Typography>
+      </Box>
+
+      <Grid container spacing={3}>
+        <Grid item xs={12} md={5}>
+          <Box
+            component="form"
+            onSubmit={handleSubmit}
+            sx={{ p: 3, borderRadius: 3, bgcolor: 'background.paper', boxShadow: 1 }}
+          >
+            <Stack spacing={2}>
+              <Typography variant="h6" fontWeight={600}>
+                {editingId ? 'Edit watchlist' : 'New watchlist'}
+              </Typography>
+              <TextField label="Name" value={form.name} onChange={updateField('name')} required fullWidth />
+              <TextField
+                label="Assignees"
+                helperText="Comma-separated, e.g. IBM, Samsung Electronics"
+                value={form.assignees}
+                onChange={updateField('assignees')}
+                fullWidth
+              />
+              <TextField
+                label="CPC codes"
+                helperText="Class or group prefixes, e.g. G06N, H01L21/02"
+                value={form.cpcCodes}
+                onChange={updateField('cpcCodes')}
+                fullWidth
+              />
+              <TextField
+                label="Keywords"
+                helperText="Phrases matched in the title, abstract and summary"
+                value={form.keywords}
+                onChange={updateField('keywords')}
+                fullWidth
+              />
+              {save.error && <Alert severity="error">{errorMessage(save.error)}</Alert>}
+              <Stack direction="row" spacing={1}>
+                <Button type="submit" variant="contained" disabled={!canSave || save.isPending}>
+                  {editingId ? 'Save changes' : 'Create watchlist'}
+                </Button>
+                {editingId && <Button onClick={cancelEditing}>Cancel</Button>}
+              </Stack>
+              {limits && (
+                <Typography variant="caption" color="text.secondary">
+                  {watchlists.length} of {limits.perUser} watchlists used
+                </Typography>
+              )}
+            </Stack>
+          </Box>
+        </Grid>
+
+        <Grid item xs={12} md={7}>
+          <Stack spacing={2}>
+            {query.isLoading && <LinearProgress />}
+            {query.isError && <Alert severity="error">Unable to load your watchlists.</Alert>}
+            {watchlists.map((watchlist) => (
+              <Box
+                key={watchlist.watchlistId}
+                sx={{ p: 3, borderRadius: 3, bgcolor: 'background.paper', boxShadow: 1 }}
+              >
+                <Stack direction="row" justifyContent="space-between" alignItems="flex-start" spacing={1}>
+                  <Typography variant="h6" fontWeight={600}>
+                    {watchlist.name}
+                  </Typography>
+                  <Stack direction="row">
+                    <Tooltip title="Edit">
+                      <IconButton size="small" onClick={() => startEditing(watchlist)}>
+                        <EditIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                    <Tooltip title="Delete">
+                      <IconButton
+                        size="small"
+                        onClick={() => remove.mutate(watchlist.watchlistId)}
+                        disabled={remove.isPending}
+                      >
+                        <DeleteIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                  </Stack>
+                </Stack>
+                <Stack direction="row" spacing={1} mt={1} flexWrap="wrap" useFlexGap>
+                  {watchlist.assignees.map((assignee) => (
+                    <Chip key={`a-${assignee}`} label={assignee} size="small" color="primary" variant="outlined" />
+                  ))}
+                  {watchlist.cpcCodes.map((code) => (
+                    <Chip key={`c-${code}`} label={code} size="small" color="secondary" variant="outlined" />
+                  ))}
+                  {watchlist.keywords.map((keyword) => (
+                    <Chip key={`k-${keyword}`} label={keyword} size="small" variant="outlined" />
+                  ))}
+                </Stack>
+              </Box>
+            ))}
+            {!query.isLoading && watchlists.length === 0 && (
+              <Typography variant="body2" color="text.secondary">
+                You have no watchlists yet.
+              </Typography>
+            )}
+          </Stack>
+        </Grid>
+      </Grid>
+
+      <Box>
+        <Stack direction="row" justifyContent="space-between" alignItems="center" mb={2}>
+          <Typography variant="h5" fontWeight={600}>
+            Matches {unread > 0 && <Chip label={`${unread} new`} color="error" size="small" sx={{ ml: 1 }} />}
+          </Typography>
+          <Button onClick={() => markRead.mutate()} disabled={unread === 0 || markRead.isPending}>
+            Mark all read
+          </Button>
+        </Stack>
+        {matchesLoading && <LinearProgress />}
+        <Stack spacing={2}>
+          {matches.map((match) => {
+            const isNew = !lastReadAt || match.matchedAt > lastReadAt;
+            return (
+              <Box
+                key={match.matchKey}
+                sx={{
+                  p: 3,
+                  borderRadius: 3,
+                  bgcolor: 'background.paper',
+                  boxShadow: 1,
+                  borderLeft: 4,
+                  borderColor: isNew ? 'error.main' : 'transparent',
+                }}
+              >
+                <Link
+                  component={RouterLink}
+                  to={`/item/${match.itemId}`}
+                  variant="h6"
+                  fontWeight={600}
+                  color="inherit"
+                  underline="hover"
+                >
+                  {match.title}
+                </Link>
+                <Typography variant="body2" color="text.secondary" mt={0.5}>
+                  {[
+                    match.patentNumber && `US ${match.patentNumber}`,
+                    match.assignees.join(', '),
+                    match.grantDate && `granted ${dayjs(match.grantDate).format('MMM D, YYYY')}`,
+                  ]
+                    .filter(Boolean)
+                    .join(' · ')}
+                </Typography>
+                <Stack direction="row" spacing={1} mt={1} alignItems="center" flexWrap="wrap" useFlexGap>
+                  <Chip label={match.watchlistName} size="small" color="primary" />
+                  <Typography variant="caption" color="text.secondary">
+                    {match.reasons.join(' · ')} · matched {dayjs(match.matchedAt).format('MMM D, YYYY')}
+                  </Typography>
+                </Stack>
+              </Box>
+            );
+          })}
+          {!matchesLoading && matches.length === 0 && (
+            <Typography variant="body2" color="text.secondary">
+              No matches yet. New patents are checked against your watchlists on every refresh.
+            </Typography>
+          )}
+        </Stack>
+      </Box>
+    </Stack>
+  );
+}
@@ -2,9 +2,10 @@ import { APIGatewayProxyEventV2, APIGatewayProxyResultV2 } from 'aws-lambda';
 import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
 import { DynamoDBDocumentClient, PutCommand } from '@aws-sdk/lib-dynamodb';
 import { SecretsManagerClient, GetSecretValueCommand } from '@aws-sdk/client-secrets-manager';
-import axios from 'axios';
+import { httpClient, withFixtureSecrets } from './shared/httpClient';
 
 interface AuthPayload {
+  provider?: 'google' | 'cognito';
   authorizationCode?: string;
   redirectUri?: string;
   sessionId?: string;
@@ -16,6 +17,17 @@ interface GoogleTokenResponse {
   id_token: string;
 }
 
+interface CognitoTokenResponse {
+  id_token: string;
+  access_token: string;
+  expires_in: number;
+}
+
+interface CognitoIdClaims {
+  email?: string;
+  name?: string;
+}
+
 interface GoogleProfileResponse {
   names?: Array<{ displayName?: string }>;
   emailAddresses?: Array<{ value?: string }>;
@@ -26,6 +38,8 @@ const secretsClient = new SecretsManagerClient({});
 
 const secretArn = process.env.API_SECRET_ARN ?? '';
 const userProfilesTableName = process.env.USER_PROFILES_TABLE_NAME ?? '';
+const cognitoDomainUrl = process.env.COGNITO_DOMAIN_URL ?? '';
+const cognitoClientId = process.env.COGNITO_CLIENT_ID ?? '';
 
 let cachedSecrets: { googleClientId?: string; googleClientSecret?: string } | null = null;
 
@@ -45,12 +59,12 @@ async function getGoogleSecrets() {
 }
 
 async function exchangeCodeForTokens(payload: AuthPayload) {
-  const secrets = await getGoogleSecrets();
+  const secrets = withFixtureSecrets(await getGoogleSecrets(), ['googleClientId', 'googleClientSecret']);
   if (!payload.authorizationCode || !secrets.googleClientId || !secrets.googleClientSecret) {
     return null;
   }
   try {
-    const tokenResponse = await axios.post<GoogleTokenResponse>(
+    const tokenResponse = await httpClient.post<GoogleTokenResponse>(
       'https://oauth2.googleapis.com/token',
       new URLSearchParams({
         grant_type: 'authorization_code',
@@ -68,9 +82,42 @@ async function exchangeCodeForTokens(payload: AuthPayload) {
   }
 }
 
+// The user pool client has no secret, so the hosted UI code is redeemed with the client id alone.
+async function exchangeCognitoCode(payload: AuthPayload) {
+  if (!payload.authorizationCode || !cognitoDomainUrl || !cognitoClientId) {
+    return null;
+  }
+  try {
+    const tokenResponse = await httpClient.post<CognitoTokenResponse>(
+      `${cognitoDomainUrl}/oauth2/token`,
+      new URLSearchParams({
+        grant_type: 'authorization_code',
+        code: payload.authorizationCode,
+        redirect_uri: payload.redirectUri ?? 'https://example.com/auth/callback',
+        client_id: cognitoClientId,
+      }),
+      { headers: { 'Content-Type': 'application/x-www-form-urlencoded' } },
+    );
+    return tokenResponse.data;
+  } catch (error) {
+    console.error('Failed to exchange Cognito authorization code', error);
+    return null;
+  }
+}
+
+// The token comes straight from the user pool's token endpoint, so its claims are read without re-verifying it.
+function readIdClaims(idToken: string): CognitoIdClaims {
+  try {
+    return JSON.parse(Buffer.from(idToken.split('.')[1], 'base64url').toString('utf-8')) as CognitoIdClaims;
+  } catch (error) {
+    console.error('Unable to read Cognito ID token claims', error);
+    return {};
+  }
+}
+
 async function fetchGoogleProfile(accessToken: string) {
   try {
-    const profileResponse = await axios.get<GoogleProfileResponse>(
+    const profileResponse = await httpClient.get<GoogleProfileResponse>(
       'https://people.googleapis.com/v1/people/me',
       {
         params: { personFields: 'names,emailAddresses' },
@@ -114,22 +161,30 @@ async function persistUserProfile(email: string, displayName: string | undefined
 
 export const handler = async (event: APIGatewayProxyEventV2): Promise<APIGatewayProxyResultV2> => {
   const payload = parsePayload(event);
-  const tokenSet = await exchangeCodeForTokens(payload);
 
   let email: string | undefined;
   let displayName: string | undefined = payload.preferredName;
-
-  if (tokenSet?.access_token) {
-    const profile = await fetchGoogleProfile(tokenSet.access_token);
-    email = profile?.emailAddresses?.[0]?.value ?? undefined;
-    displayName = displayName ?? profile?.names?.[0]?.displayName;
+  let cognitoTokens: CognitoTokenResponse | null = null;
+
+  if (payload.provider === 'cognito') {
+    cognitoTokens = await exchangeCognitoCode(payload);
+    const claims = cognitoTokens?.id_token ? readIdClaims(cognitoTokens.id_token) : {};
+    email = claims.email;
+    displayName = displayName ?? claims.name;
+  } else {
+    const tokenSet = await exchangeCodeForTokens(payload);
+    if (tokenSet?.access_token) {
+      const profile = await fetchGoogleProfile(tokenSet.access_token);
+      email = profile?.emailAddresses?.[0]?.value ?? undefined;
+      displayName = displayName ?? profile?.names?.[0]?.displayName;
+    }
   }
 
   if (!email) {
     return {
       statusCode: 400,
       headers: { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' },
-      body: JSON.stringify({ message: 'Unable to resolve Google profile information' }),
+      body: JSON.stringify({ message: 'Unable to resolve profile information' }),
     };
   }
 
@@ -144,6 +199,15 @@ export const handler = async (event: APIGatewayProxyEventV2): Promise<APIGateway
       'Access-Control-Allow-Origin': '*',
       'Set-Cookie': `tnh_session=${cookieValue}; Path=/; HttpOnly; Secure; SameSite=Lax; Max-Age=${60 * 60 * 24 * 7}`,
     },
-    body: JSON.stringify({ email, displayName }),
+    // The ID token is only handed back for the SPA to hold in memory; the watchlist authorizer reads it from the
+    // Authorization header.
+    body: JSON.stringify({
+      email,
+      displayName,
+      idToken: cognitoTokens?.id_token,
+      idTokenExpiresAt: cognitoTokens
+        ? new Date(Date.now() + cognitoTokens.expires_in * 1000).toISOString()
+        : undefined,
+    }),
   };
 };
@@ -0,0 +1,13 @@
+import { listEnabledSections } from './shared/sectionRegistry';
+import { buildIndex, loadCachedDocuments, storeSearchIndex } from './shared/searchIndex';
+
+export const handler = async () => {
+  const sections = (await listEnabledSections()).map((section) => section.id);
+  const index = buildIndex(await loadCachedDocuments(sections));
+  await storeSearchIndex(index);
+  return {
+    documents: index.documents.length,
+    terms: Object.keys(index.postings).length,
+    builtAt: index.builtAt,
+  };
+};
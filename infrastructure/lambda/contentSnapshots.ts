@@ -0,0 +1,161 @@
+import { APIGatewayProxyEventV2, APIGatewayProxyResultV2 } from 'aws-lambda';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import { resolveSnapshot, snapshotKey, snapshotSeries } from './shared/snapshots';
+
+interface SnapshotSummary {
+  label: string;
+  startsAt: string;
+  verifiedAt?: string;
+  verificationScore?: number;
+  newsCount: number;
+  patentCount: number;
+  patentImpactAverage?: number;
+  newsPromptVersion?: string;
+  patentPromptVersion?: string;
+}
+
+interface SnapshotListResponse {
+  section: string;
+  timePeriod: string;
+  snapshots: SnapshotSummary[];
+  nextCursor?: string;
+  generatedAt: string;
+}
+
+interface SnapshotDetailResponse extends SnapshotSummary {
+  section: string;
+  timePeriod: string;
+  items: unknown[];
+  patents: unknown[];
+  generatedAt: string;
+}
+
+const tableName = process.env.CONTENT_CACHE_TABLE_NAME ?? '';
+const snapshotIndexName = 'snapshot-index';
+const docClient = DynamoDBDocumentClient.from(new DynamoDBClient({}));
+
+const headers = {
+  'Content-Type': 'application/json',
+  'Access-Control-Allow-Origin': '*',
+  'Cache-Control': 'no-store',
+};
+
+function respond(statusCode: number, body: unknown): APIGatewayProxyResultV2 {
+  return { statusCode, headers, body: JSON.stringify(body) };
+}
+
+function toSummary(item: Record<string, any>): SnapshotSummary {
+  return {
+    label: item.snapshotLabel,
+    startsAt: item.snapshotDate,
+    verifiedAt: item.verifiedAt,
+    verificationScore: item.verificationScore,
+    newsCount: item.newsCount ?? (Array.isArray(item.newsArray) ? item.newsArray.length : 0),
+    patentCount: item.patentCount ?? (Array.isArray(item.patentsArray) ? item.patentsArray.length : 0),
+    patentImpactAverage: item.patentImpactAverage,
+    newsPromptVersion: item.newsPromptVersion,
+    patentPromptVersion: item.patentPromptVersion,
+  };
+}
+
+function isIsoDate(value?: string): value is string {
+  return Boolean(value && /^\d{4}-\d{2}-\d{2}$/.test(value));
+}
+
+// Cursors are the index's LastEvaluatedKey, base64url-encoded. Anything else, including a cursor from another
+// series, is rejected here rather than failing inside DynamoDB.
+function decodeCursor(cursor: string, series: string): Record<string, string> | null {
+  try {
+    const key = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+    const valid =
+      key &&
+      typeof key === 'object' &&
+      !Array.isArray(key) &&
+      Object.keys(key).sort().join(',') === 'sectionPeriod,snapshotDate,snapshotSeries' &&
+      Object.values(key).every((value) => typeof value === 'string') &&
+      key.snapshotSeries === series;
+    return valid ? key : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+async function listSnapshots(
+  section: string,
+  timePeriod: string,
+  query: Record<string, string | undefined>,
+): Promise<APIGatewayProxyResultV2> {
+  const from = isIsoDate(query.from) ? query.from : '0000-01-01';
+  const to = isIsoDate(query.to) ? query.to : '9999-12-31';
+  const limit = Math.min(Math.max(Number.parseInt(query.limit ?? '', 10) || 60, 1), 400);
+  const series = snapshotSeries(section, timePeriod);
+  const startKey = query.cursor ? decodeCursor(query.cursor, series) : undefined;
+  if (startKey === null) {
+    return respond(400, { message: 'Invalid cursor' });
+  }
+
+  const result = await docClient.send(
+    new QueryCommand({
+      TableName: tableName,
+      IndexName: snapshotIndexName,
+      KeyConditionExpression: 'snapshotSeries = :series AND snapshotDate BETWEEN :from AND :to',
+      ExpressionAttributeValues: {
+        ':series': series,
+        ':from': from,
+        ':to': to,
+      },
+      ScanIndexForward: false,
+      Limit: limit,
+      ExclusiveStartKey: startKey,
+    }),
+  );
+
+  const response: SnapshotListResponse = {
+    section,
+    timePeriod,
+    snapshots: (result.Items ?? []).map(toSummary),
+    nextCursor: result.LastEvaluatedKey
+      ? Buffer.from(JSON.stringify(result.LastEvaluatedKey)).toString('base64url')
+      : undefined,
+    generatedAt: new Date().toISOString(),
+  };
+  return respond(200, response);
+}
+
+async function getSnapshot(section: string, timePeriod: string, value: string): Promise<APIGatewayProxyResultV2> {
+  const ref = resolveSnapshot(section, timePeriod, value);
+  if (!ref) {
+    return respond(400, { message: `Unrecognised ${timePeriod} snapshot "${value}"` });
+  }
+  const result = await docClient.send(
+    new GetCommand({ TableName: tableName, Key: { sectionPeriod: snapshotKey(ref) } }),
+  );
+  if (!result.Item) {
+    return respond(404, { message: `No ${timePeriod} snapshot for ${section} at ${ref.label}` });
+  }
+  const response: SnapshotDetailResponse = {
+    ...toSummary({ snapshotLabel: ref.label, snapshotDate: ref.startsAt, ...result.Item }),
+    section,
+    timePeriod,
+    items: Array.isArray(result.Item.newsArray) ? result.Item.newsArray : [],
+    patents: Array.isArray(result.Item.patentsArray) ? result.Item.patentsArray : [],
+    generatedAt: new Date().toISOString(),
+  };
+  return respond(200, response);
+}
+
+export const handler = async (event: APIGatewayProxyEventV2): Promise<APIGatewayProxyResultV2> => {
+  const section = event.pathParameters?.section ?? 'ai';
+  const timePeriod = event.pathParameters?.period ?? 'daily';
+  const snapshot = event.pathParameters?.snapshot;
+
+  try {
+    return snapshot
+      ? await getSnapshot(section, timePeriod, decodeURIComponent(snapshot))
+      : await listSnapshots(section, timePeriod, event.queryStringParameters ?? {});
+  } catch (error) {
+    console.error('Failed to read content snapshots', error);
+    return respond(500, { message: 'Unable to load archive snapshots' });
+  }
+};
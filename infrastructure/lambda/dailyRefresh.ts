@@ -2,6 +2,7 @@ import { SFNClient, StartExecutionCommand } from '@aws-sdk/client-sfn';
 import { ApiGatewayManagementApiClient, PostToConnectionCommand } from '@aws-sdk/client-apigatewaymanagementapi';
 import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
 import { DynamoDBDocumentClient, ScanCommand } from '@aws-sdk/lib-dynamodb';
+import { listEnabledSections } from './shared/sectionRegistry';
 
 interface RefreshEventDetail {
   sections?: string[];
@@ -35,7 +36,7 @@ async function listActiveConnections(): Promise<string[]> {
 
 export const handler = async (event: { detail?: RefreshEventDetail }) => {
   const detail = event?.detail ?? {};
-  const sections = detail.sections ?? ['ml', 'ai', 'iot', 'quantum'];
+  const sections = detail.sections ?? (await listEnabledSections()).map((section) => section.id);
   const timePeriods = detail.timePeriods ?? ['daily', 'weekly', 'monthly', 'yearly'];
 
   if (!stateMachineArn) {
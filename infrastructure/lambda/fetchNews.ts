@@ -1,23 +1,62 @@
 import { APIGatewayProxyEventV2, APIGatewayProxyResultV2 } from 'aws-lambda';
-import axios, { AxiosError } from 'axios';
-import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
-import { DynamoDBDocumentClient, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { ConditionalCheckFailedException, DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { BatchGetCommand, DynamoDBDocumentClient, GetCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
 import { SecretsManagerClient, GetSecretValueCommand } from '@aws-sdk/client-secrets-manager';
-import { v4 as uuid } from 'uuid';
+import { ProviderResult, callProvider, providerOrder, runCascade } from './shared/aiProviders';
+import { Citation, citationFromArticle, citationFromUrl, mergeCitations } from './shared/citations';
+import { recordItems, stableItemId } from './shared/contentItems';
+import { ContentLink, relinkCachedContent } from './shared/contentLinks';
+import { EntityTag, indexEntities, withEntities } from './shared/entityTags';
+import { withFixtureSecrets } from './shared/httpClient';
+import { HypeBreakdown, withHypeScore } from './shared/hypeScoring';
+import { SourceArticle, collectSourceArticles } from './shared/newsSources';
+import { PromptTemplate, loadPromptTemplate, promptVersionLabel, renderPrompt } from './shared/promptTemplates';
+import { withRawArchive } from './shared/rawArchive';
+import { snapshotFor, snapshotKey, snapshotSeries } from './shared/snapshots';
+import { EngagementSignal, measureEngagement, resolveSocialClient } from './shared/socialSignals';
+import { StructuredItem } from './shared/structuredOutput';
+import {
+  ClusterableStory,
+  KnownStory,
+  StoryAlternate,
+  StoryCluster,
+  clusterStories,
+  toAlternates,
+} from './shared/clustering';
+import {
+  ProviderEvidence,
+  VerificationBreakdown,
+  scoreItem,
+  summarizeScores,
+} from './shared/verification';
 
-interface AggregationRequest {
+export interface AggregationRequest {
   section: string;
   timePeriod: string;
   mode?: string;
+  asOf?: string;
 }
 
-interface AiContentItem {
+export interface AiContentItem {
   id: string;
   title: string;
   summary: string;
   sourceUrl?: string;
+  publisher?: string;
   verificationScore: number;
+  verification?: VerificationBreakdown;
   publishedAt?: string;
+  clusterId?: string;
+  clusterSize?: number;
+  alternates?: StoryAlternate[];
+  citations?: Citation[];
+  engagementScore?: number;
+  engagement?: Omit<EngagementSignal, 'score'>;
+  entities?: EntityTag[];
+  sentiment?: number;
+  hypeRisk?: number;
+  hype?: HypeBreakdown;
+  relatedPatents?: ContentLink[];
   related?: AiContentItem[];
 }
 
@@ -26,9 +65,16 @@ interface AggregatedResponse {
   timePeriod: string;
   items: AiContentItem[];
   verificationSummary: string;
+  promptVersion: string;
   generatedAt: string;
 }
 
+interface NewsPrompts {
+  ranking: PromptTemplate;
+  discovery: PromptTemplate;
+  crossCheck: PromptTemplate;
+}
+
 interface SecretBundle {
   perplexityApiKey?: string;
   geminiApiKey?: string;
@@ -37,11 +83,16 @@ interface SecretBundle {
   xBearerToken?: string;
 }
 
-const docClient = DynamoDBDocumentClient.from(new DynamoDBClient({}));
+const docClient = DynamoDBDocumentClient.from(new DynamoDBClient({}), {
+  marshallOptions: { removeUndefinedValues: true },
+});
 const secretsClient = new SecretsManagerClient({});
 
 const contentCacheTableName = process.env.CONTENT_CACHE_TABLE_NAME ?? '';
 const apiSecretArn = process.env.API_SECRET_ARN ?? '';
+const rollingEntryTtlSeconds = 60 * 60 * 24 * 7;
+const timePeriods = ['daily', 'weekly', 'monthly', 'yearly'];
+const knownStoryRetries = 3;
 
 let cachedSecrets: SecretBundle | null = null;
 
@@ -81,163 +132,452 @@ function parseRequest(event: any): AggregationRequest {
     section: event.section ?? 'ai',
     timePeriod: event.timePeriod ?? 'daily',
     mode: event.mode,
+    asOf: event.asOf,
   };
 }
 
-async function callPerplexity(query: string, key?: string) {
-  if (!key) {
-    return null;
-  }
-  try {
-    const response = await axios.post(
-      'https://api.perplexity.ai/search',
-      { query, max_results: 10 },
-      { headers: { Authorization: `Bearer ${key}` } },
-    );
-    return {
-      provider: 'perplexity',
-      confidence: response.data?.confidence ?? 0,
-      items: response.data?.results ?? [],
-    };
-  } catch (error) {
-    const message = (error as AxiosError).message ?? 'perplexity call failed';
-    console.warn('Perplexity failure', message);
-    throw error;
+function buildPlaceholderItems(section: string, timePeriod: string): AiContentItem[] {
+  return Array.from({ length: 3 }).map((_, index) => ({
+    id: stableItemId('news', { title: `${section} placeholder ${index + 1} ${timePeriod}` }),
+    title: `${section.toUpperCase()} insight ${index + 1} (${timePeriod})`,
+    summary: `Placeholder content for ${section} during ${timePeriod}. Replace with real aggregation when API keys are configured.`,
+    verificationScore: 50,
+    publishedAt: new Date().toISOString(),
+  }));
+}
+
+function buildAiQuery(request: AggregationRequest, candidates: SourceArticle[], prompts: NewsPrompts): string {
+  if (candidates.length === 0) {
+    return renderPrompt(prompts.discovery, { section: request.section, timePeriod: request.timePeriod });
   }
+  const headlines = candidates
+    .slice(0, 20)
+    .map((candidate, index) => `${index + 1}. ${candidate.title} (${candidate.url})`)
+    .join('\n');
+  return renderPrompt(prompts.ranking, { section: request.section, timePeriod: request.timePeriod, headlines });
 }
 
-async function callGemini(query: string, key?: string) {
-  if (!key) {
-    return null;
+function normalizeUrl(url?: string): string {
+  return (url ?? '').replace(/[?#].*$/, '').replace(/\/$/, '').toLowerCase();
+}
+
+function mapCandidates(
+  candidates: SourceArticle[],
+  aiItems: StructuredItem[],
+  confidence: number,
+  generatedAt: string,
+): AiContentItem[] {
+  const byUrl = new Map(candidates.map((candidate) => [normalizeUrl(candidate.url), candidate]));
+  const byTitle = new Map(candidates.map((candidate) => [candidate.title.toLowerCase(), candidate]));
+  const used = new Set<SourceArticle>();
+  const ranked: AiContentItem[] = [];
+
+  aiItems.forEach((item) => {
+    const match = byUrl.get(normalizeUrl(item.url)) ?? byTitle.get(item.title.toLowerCase());
+    if (!match || used.has(match)) {
+      return;
+    }
+    used.add(match);
+    ranked.push({
+      id: stableItemId('news', match),
+      title: match.title,
+      summary: item.summary || match.summary,
+      sourceUrl: match.url,
+      publisher: match.publisher,
+      verificationScore: Math.round(confidence * 100),
+      publishedAt: match.publishedAt ?? generatedAt,
+      citations: mergeCitations([
+        citationFromArticle(match, generatedAt),
+        ...item.citations.map((url) => citationFromUrl(url, generatedAt)),
+      ]),
+    });
+  });
+
+  candidates
+    .filter((candidate) => !used.has(candidate))
+    .forEach((candidate) => {
+      ranked.push({
+        id: stableItemId('news', candidate),
+        title: candidate.title,
+        summary: candidate.summary || `Coverage from ${candidate.publisher ?? 'a tracked source'}.`,
+        sourceUrl: candidate.url,
+        publisher: candidate.publisher,
+        verificationScore: Math.round(confidence * 100),
+        publishedAt: candidate.publishedAt ?? generatedAt,
+        citations: mergeCitations([citationFromArticle(candidate, generatedAt)]),
+      });
+    });
+
+  return ranked.slice(0, 10);
+}
+
+function withCluster(
+  item: AiContentItem,
+  retrievedAt: string,
+  cluster?: StoryCluster<ClusterableStory>,
+): AiContentItem {
+  if (!cluster) {
+    return { ...item, clusterSize: 1 };
   }
-  try {
-    const response = await axios.post(
-      `https://generativelanguage.googleapis.com/v1beta/models/gemini-pro:generateContent?key=${key}`,
+  return {
+    ...item,
+    clusterId: cluster.clusterId,
+    clusterSize: cluster.members.length,
+    alternates: toAlternates(cluster),
+    citations: mergeCitations([
+      ...(item.citations ?? []),
+      ...cluster.members.map((member) => citationFromArticle(member, retrievedAt)),
+    ]),
+  };
+}
+
+function clusterAiItems(items: AiContentItem[], retrievedAt: string, known: KnownStory[]): AiContentItem[] {
+  const clusters = clusterStories(
+    items.map((item) => ({
+      title: item.title,
+      summary: item.summary,
+      url: item.sourceUrl,
+      publishedAt: item.publishedAt,
+      item,
+    })),
+    known,
+  );
+  return clusters.map((cluster) => withCluster(cluster.representative.item, retrievedAt, cluster));
+}
+
+function toEvidence(result: ProviderResult): ProviderEvidence {
+  return {
+    provider: result.provider,
+    texts: result.items.flatMap((item) => [item.title, item.summary]),
+    urls: result.items.flatMap((item) => [...(item.url ? [item.url] : []), ...item.citations]),
+  };
+}
+
+async function crossCheck(
+  items: AiContentItem[],
+  primaryProvider: string | undefined,
+  secrets: SecretBundle,
+  template: PromptTemplate,
+  section: string,
+): Promise<ProviderEvidence[]> {
+  const headlines = items.map((item, index) => `${index + 1}. ${item.title} (${item.sourceUrl ?? 'no url'})`).join('\n');
+  const query = renderPrompt(template, { headlines });
+
+  const settled = await Promise.allSettled(
+    providerOrder()
+      .filter((provider) => provider !== primaryProvider)
+      .map((provider) => callProvider(provider, query, secrets, { systemPrompt: template.systemPrompt, section })),
+  );
+  return settled.flatMap((result) =>
+    result.status === 'fulfilled' && result.value ? [toEvidence(result.value)] : [],
+  );
+}
+
+function verifyItems(
+  items: AiContentItem[],
+  candidates: SourceArticle[],
+  evidence: ProviderEvidence[],
+): AiContentItem[] {
+  const sourceTextByUrl = new Map(candidates.map((candidate) => [candidate.url, candidate.summary]));
+  return items.map((item) => {
+    const verification = scoreItem(
       {
-        contents: [
-          {
-            parts: [{ text: query }],
-          },
-        ],
+        title: item.title,
+        summary: item.summary,
+        sourceUrl: item.sourceUrl,
+        sourceText: item.sourceUrl ? sourceTextByUrl.get(item.sourceUrl) || undefined : undefined,
+        citationCount: Math.max(0, (item.citations?.length ?? 0) - 1),
       },
+      evidence,
     );
-    return {
-      provider: 'gemini',
-      confidence: 0.7,
-      items: response.data?.candidates ?? [],
-    };
-  } catch (error) {
-    const message = (error as AxiosError).message ?? 'gemini call failed';
-    console.warn('Gemini failure', message);
-    throw error;
-  }
+    return { ...item, verificationScore: verification.score, verification };
+  });
 }
 
-async function callChatGpt(query: string, key?: string) {
-  if (!key) {
-    return null;
+async function attachEngagement(items: AiContentItem[], secrets: SecretBundle): Promise<AiContentItem[]> {
+  const client = resolveSocialClient(secrets.xBearerToken);
+  if (!client || items.length === 0) {
+    return items;
   }
+  const signals = await measureEngagement(
+    client,
+    items.map((item) => ({ title: item.title, url: item.sourceUrl })),
+  );
+  return items.map((item, index) => {
+    const signal = signals[index];
+    if (!signal) {
+      return item;
+    }
+    const { score, ...engagement } = signal;
+    return { ...item, engagementScore: score, engagement };
+  });
+}
+
+// The section's other periods, shortest first, so a story clusters onto the entry readers saw most recently.
+// BatchGet returns throttled keys as UnprocessedKeys; they are retried with backoff so the anchors are not lost.
+async function loadKnownStories(request: AggregationRequest): Promise<KnownStory[]> {
+  const periods = timePeriods.filter((period) => period !== request.timePeriod);
   try {
-    const response = await axios.post(
-      'https://api.openai.com/v1/chat/completions',
-      {
-        model: 'gpt-4o-mini',
-        messages: [
-          { role: 'system', content: 'You are a technology news summarizer.' },
-          { role: 'user', content: query },
-        ],
-      },
-      { headers: { Authorization: `Bearer ${key}` } },
-    );
-    return {
-      provider: 'chatgpt',
-      confidence: 0.6,
-      items: response.data?.choices ?? [],
-    };
+    const rows: Array<Record<string, any>> = [];
+    let pending: Array<Record<string, any>> = periods.map((period) => ({
+      sectionPeriod: `${request.section}#${period}`,
+    }));
+    for (let attempt = 0; pending.length > 0; attempt += 1) {
+      if (attempt > 0) {
+        if (attempt > knownStoryRetries) {
+          console.warn(`Clustering without ${pending.length} other period(s) after repeated throttling`);
+          break;
+        }
+        await new Promise((resolve) => setTimeout(resolve, 100 * 2 ** attempt));
+      }
+      const result = await docClient.send(
+        new BatchGetCommand({
+          RequestItems: {
+            [contentCacheTableName]: { Keys: pending, ProjectionExpression: 'sectionPeriod, newsArray' },
+          },
+        }),
+      );
+      rows.push(...(result.Responses?.[contentCacheTableName] ?? []));
+      pending = result.UnprocessedKeys?.[contentCacheTableName]?.Keys ?? [];
+    }
+    return periods.flatMap((period) => {
+      const row = rows.find((entry) => entry.sectionPeriod === `${request.section}#${period}`);
+      return ((row?.newsArray ?? []) as AiContentItem[])
+        .filter((item) => item.sourceUrl)
+        .map((item) => ({
+          title: item.title,
+          summary: item.summary,
+          url: item.sourceUrl,
+          publisher: item.publisher,
+          publishedAt: item.publishedAt,
+          clusterId: item.clusterId,
+        }));
+    });
   } catch (error) {
-    const message = (error as AxiosError).message ?? 'chatgpt call failed';
-    console.warn('ChatGPT failure', message);
-    throw error;
+    console.warn('Unable to load other periods for clustering', (error as Error).message);
+    return [];
   }
 }
 
-function buildPlaceholderItems(section: string, timePeriod: string): AiContentItem[] {
-  return Array.from({ length: 3 }).map((_, index) => ({
-    id: uuid(),
-    title: `${section.toUpperCase()} insight ${index + 1} (${timePeriod})`,
-    summary: `Placeholder content for ${section} during ${timePeriod}. Replace with real aggregation when API keys are configured.`,
-    verificationScore: 50,
-    publishedAt: new Date().toISOString(),
-  }));
+async function loadCachedContent(request: AggregationRequest): Promise<AggregatedResponse | null> {
+  const result = await docClient.send(
+    new GetCommand({
+      TableName: contentCacheTableName,
+      Key: { sectionPeriod: `${request.section}#${request.timePeriod}` },
+    }),
+  );
+  const items = result.Item?.newsArray as AiContentItem[] | undefined;
+  if (!items?.length || items.every((item) => !item.sourceUrl)) {
+    return null;
+  }
+  return {
+    section: request.section,
+    timePeriod: request.timePeriod,
+    items,
+    verificationSummary: 'Serving previously verified content because AI providers were unavailable or over budget.',
+    promptVersion: result.Item?.newsPromptVersion ?? 'unknown',
+    generatedAt: result.Item?.verifiedAt ?? new Date().toISOString(),
+  };
 }
 
-async function aggregateContent(request: AggregationRequest): Promise<AggregatedResponse> {
-  const secrets = await resolveSecrets();
-  const query = `Top verified ${request.section} technology news for ${request.timePeriod}`;
+export async function persistContent(
+  request: AggregationRequest,
+  items: AiContentItem[],
+  generatedAt: string,
+  averageScore: number,
+  promptVersion: string,
+  verificationSummary: string,
+  placeholder = false,
+): Promise<void> {
+  // A reprocessed run is as old as the capture it replays. It keeps that time, so readers still see it as
+  // stale, and it only replaces the live entry when the live entry is no newer.
+  const verifiedAt = request.asOf ?? generatedAt;
+  const snapshot = snapshotFor(request.section, request.timePeriod, new Date(verifiedAt));
+  await Promise.all([
+    docClient
+      .send(
+        new UpdateCommand({
+          TableName: contentCacheTableName,
+          Key: { sectionPeriod: `${request.section}#${request.timePeriod}` },
+          UpdateExpression:
+            'SET newsArray = :news, verifiedAt = :verifiedAt, newsVerifiedAt = :verifiedAt, expiresAt = :ttl, ' +
+            'verificationScore = :score, newsPromptVersion = :promptVersion, newsVerificationSummary = :summary ' +
+            'REMOVE newsRefreshRequestedAt',
+          ConditionExpression: request.asOf
+            ? 'attribute_not_exists(newsVerifiedAt) OR newsVerifiedAt <= :verifiedAt'
+            : undefined,
+          ExpressionAttributeValues: {
+            ':news': items,
+            ':verifiedAt': verifiedAt,
+            ':ttl': Math.floor(Date.now() / 1000) + rollingEntryTtlSeconds,
+            ':score': averageScore,
+            ':promptVersion': promptVersion,
+            ':summary': verificationSummary,
+          },
+          ReturnValues: 'ALL_NEW',
+        }),
+      )
+      .catch((error) => {
+        if (!(request.asOf && error instanceof ConditionalCheckFailedException)) {
+          throw error;
+        }
+        console.info('Live news entry is newer than the reprocessed run; only its snapshot was rewritten');
+      }),
+    // Snapshots never expire, so placeholders only go to the live entry, where the next refresh replaces them.
+    placeholder
+      ? Promise.resolve()
+      : docClient.send(
+          new UpdateCommand({
+            TableName: contentCacheTableName,
+            Key: { sectionPeriod: snapshotKey(snapshot) },
+            UpdateExpression:
+              'SET newsArray = :news, verifiedAt = :verifiedAt, verificationScore = :score, newsCount = :count, ' +
+              'newsPromptVersion = :promptVersion, snapshotSeries = :series, snapshotDate = :startsAt, snapshotLabel = :label, #section = :section, timePeriod = :period',
+            ExpressionAttributeNames: { '#section': 'section' },
+            ExpressionAttributeValues: {
+              ':news': items,
+              ':verifiedAt': verifiedAt,
+              ':score': averageScore,
+              ':count': items.length,
+              ':promptVersion': promptVersion,
+              ':series': snapshotSeries(request.section, request.timePeriod),
+              ':startsAt': snapshot.startsAt,
+              ':label': snapshot.label,
+              ':section': request.section,
+              ':period': request.timePeriod,
+            },
+          }),
+        ),
+  ]);
+  await Promise.all([
+    recordItems(
+      items.filter((item) => item.sourceUrl),
+      request.section,
+      request.timePeriod,
+      snapshotKey(snapshot),
+      verifiedAt,
+    ),
+    relinkCachedContent(`${request.section}#${request.timePeriod}`).catch((error) =>
+      console.warn('Linking news to patents failed', (error as Error).message),
+    ),
+  ]);
+}
 
-  let aiResult: { provider: string; confidence: number; items: any[] } | null = null;
+async function aggregateContent(request: AggregationRequest): Promise<AggregatedResponse> {
+  const [ranking, discovery, crossCheckPrompt] = await Promise.all([
+    loadPromptTemplate('news-ranking', request.section),
+    loadPromptTemplate('news-discovery', request.section),
+    loadPromptTemplate('news-crosscheck', request.section),
+  ]);
+  const prompts: NewsPrompts = { ranking, discovery, crossCheck: crossCheckPrompt };
+  const promptVersion = promptVersionLabel([ranking, discovery, crossCheckPrompt]);
+  return withRawArchive(
+    { pipeline: 'news', section: request.section, timePeriod: request.timePeriod, promptVersion },
+    () => buildAggregation(request, prompts, promptVersion),
+  );
+}
 
-  try {
-    aiResult = await callPerplexity(query, secrets.perplexityApiKey ?? undefined);
-  } catch (error) {
-    console.info('Falling back from Perplexity to Gemini');
-  }
+async function buildAggregation(
+  request: AggregationRequest,
+  prompts: NewsPrompts,
+  promptVersion: string,
+): Promise<AggregatedResponse> {
+  const secrets = withFixtureSecrets(await resolveSecrets(), [
+    'perplexityApiKey',
+    'geminiApiKey',
+    'chatGptApiKey',
+    'newsApiKey',
+    'xBearerToken',
+  ]);
+  const candidates = await collectSourceArticles(
+    request.section,
+    request.timePeriod,
+    secrets.newsApiKey ?? undefined,
+  );
+  const known = await loadKnownStories(request);
+  const clusters = clusterStories(candidates, known);
+  const representatives = clusters.map((cluster) => cluster.representative);
+  const clusterByUrl = new Map(clusters.map((cluster) => [cluster.representative.url, cluster]));
+  const query = buildAiQuery(request, representatives, prompts);
+  const template = representatives.length > 0 ? prompts.ranking : prompts.discovery;
 
+  const aiResult = await runCascade(query, secrets, {
+    systemPrompt: template.systemPrompt,
+    section: request.section,
+  });
   if (!aiResult) {
-    try {
-      aiResult = await callGemini(query, secrets.geminiApiKey ?? undefined);
-    } catch (error) {
-      console.info('Falling back from Gemini to ChatGPT');
-    }
+    console.warn('All AI calls failed, using unranked source candidates or placeholder items');
   }
 
-  if (!aiResult) {
-    try {
-      aiResult = await callChatGpt(query, secrets.chatGptApiKey ?? undefined);
-    } catch (error) {
-      console.warn('All AI calls failed, generating placeholder items');
+  const generatedAt = new Date().toISOString();
+  const items: AiContentItem[] =
+    representatives.length > 0
+      ? mapCandidates(representatives, aiResult?.items ?? [], aiResult?.confidence ?? 0.5, generatedAt).map(
+          (item) => withCluster(item, generatedAt, item.sourceUrl ? clusterByUrl.get(item.sourceUrl) : undefined),
+        )
+      : clusterAiItems(
+          (aiResult?.items ?? []).map((item) => ({
+            id: stableItemId('news', item),
+            title: item.title,
+            summary: item.summary,
+            sourceUrl: item.url,
+            verificationScore: Math.round((aiResult?.confidence ?? 0.6) * 100),
+            publishedAt: item.publishedAt ?? generatedAt,
+            citations: mergeCitations([
+              ...(item.url ? [citationFromUrl(item.url, generatedAt)] : []),
+              ...item.citations.map((url) => citationFromUrl(url, generatedAt)),
+            ]),
+          })),
+          generatedAt,
+          known,
+        ).slice(0, 10);
+
+  const evidence =
+    items.length > 0 ? await crossCheck(items, aiResult?.provider, secrets, prompts.crossCheck, request.section) : [];
+  const verifiedItems = (await attachEngagement(verifyItems(items, candidates, evidence), secrets)).map((item) =>
+    withHypeScore(withEntities(item)),
+  );
+  if (verifiedItems.length === 0) {
+    const cached = await loadCachedContent(request);
+    if (cached) {
+      return cached;
     }
   }
+  const enrichedItems =
+    verifiedItems.length > 0 ? verifiedItems : buildPlaceholderItems(request.section, request.timePeriod);
+  const averageScore = Math.round(
+    enrichedItems.reduce((acc, item) => acc + item.verificationScore, 0) / Math.max(1, enrichedItems.length),
+  );
 
-  const generatedAt = new Date().toISOString();
-  const items: AiContentItem[] = (aiResult?.items ?? []).slice(0, 10).map((item: any) => ({
-    id: item.id ?? uuid(),
-    title: item.title ?? item.summary ?? `Update for ${request.section}`,
-    summary:
-      item.summary ??
-      item.content ??
-      `Automated insight regarding ${request.section} developments for ${request.timePeriod}.`,
-    sourceUrl: item.source?.url ?? item.url,
-    verificationScore: Math.round((aiResult?.confidence ?? 0.6) * 100),
-    publishedAt: item.published_at ?? item.publishedAt ?? generatedAt,
-  }));
-
-  const enrichedItems = items.length > 0 ? items : buildPlaceholderItems(request.section, request.timePeriod);
+  const verificationSummary =
+    verifiedItems.length > 0
+      ? summarizeScores(
+          verifiedItems.map((item) => item.verificationScore),
+          evidence.map((entry) => entry.provider),
+        )
+      : 'Placeholder content generated because AI providers were unavailable.';
 
-  await docClient.send(
-    new UpdateCommand({
-      TableName: contentCacheTableName,
-      Key: { sectionPeriod: `${request.section}#${request.timePeriod}` },
-      UpdateExpression:
-        'SET newsArray = :news, verifiedAt = :verifiedAt, expiresAt = :ttl, verificationScore = :score',
-      ExpressionAttributeValues: {
-        ':news': enrichedItems,
-        ':verifiedAt': generatedAt,
-        ':ttl': Math.floor(Date.now() / 1000) + 60 * 60 * 24,
-        ':score': Math.round((aiResult?.confidence ?? 0.5) * 100),
-      },
-      ReturnValues: 'ALL_NEW',
-    }),
+  await persistContent(
+    request,
+    enrichedItems,
+    generatedAt,
+    averageScore,
+    promptVersion,
+    verificationSummary,
+    verifiedItems.length === 0,
+  );
+  await indexEntities(
+    verifiedItems.map((item) => ({ ...item, kind: 'news' })),
+    request.section,
+    request.timePeriod,
   );
 
   return {
     section: request.section,
     timePeriod: request.timePeriod,
     items: enrichedItems,
-    verificationSummary:
-      aiResult?.provider
-        ? `Content verified via ${aiResult.provider} with confidence ${(aiResult.confidence * 100).toFixed(0)}%.`
-        : 'Placeholder content generated because AI providers were unavailable.',
+    verificationSummary,
+    promptVersion,
     generatedAt,
   };
 }
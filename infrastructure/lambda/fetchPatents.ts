@@ -1,44 +1,82 @@
 import { APIGatewayProxyEventV2, APIGatewayProxyResultV2 } from 'aws-lambda';
-import axios from 'axios';
-import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
-import { DynamoDBDocumentClient, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { ConditionalCheckFailedException, DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
 import { SecretsManagerClient, GetSecretValueCommand } from '@aws-sdk/client-secrets-manager';
-import { v4 as uuid } from 'uuid';
+import { runCascade } from './shared/aiProviders';
+import { recordItems, stableItemId } from './shared/contentItems';
+import { ContentLink, relinkCachedContent } from './shared/contentLinks';
+import { EntityTag, extractEntities, indexEntities } from './shared/entityTags';
+import { withFixtureSecrets } from './shared/httpClient';
+import { recordPatentGraph } from './shared/patentGraph';
+import { ImpactBreakdown, scoreImpact } from './shared/patentImpact';
+import { PatentRecord, PatentRelations, patentWindowStart, resolvePatentSource } from './shared/patentSources';
+import { PromptTemplate, loadPromptTemplate, promptVersionLabel, renderPrompt } from './shared/promptTemplates';
+import { withRawArchive } from './shared/rawArchive';
+import { findSection } from './shared/sectionRegistry';
+import { snapshotFor, snapshotKey, snapshotSeries } from './shared/snapshots';
 
-interface PatentRequest {
+export interface PatentRequest {
   section: string;
   timePeriod: string;
   mode?: string;
+  asOf?: string;
 }
 
-interface PatentSummary {
+export interface PatentSummary {
   id: string;
   title: string;
   abstract: string;
+  summary?: string;
+  patentNumber?: string;
+  assignees?: string[];
+  cpcCodes?: string[];
+  claims?: string[];
+  claimCount?: number;
+  forwardCitations?: number;
+  familySize?: number;
+  assigneePatentCount?: number;
+  priorityDate?: string;
   filingDate?: string;
+  grantDate?: string;
   inventors?: string[];
   impactScore: number;
+  impact?: ImpactBreakdown;
+  relations?: PatentRelations;
+  inTheNews?: ContentLink[];
   sourceUrl?: string;
+  entities?: EntityTag[];
 }
 
 interface PatentResponse {
   section: string;
   timePeriod: string;
   patents: PatentSummary[];
+  promptVersion: string;
   generatedAt: string;
 }
 
+export interface PatentGeneration {
+  patents: PatentSummary[];
+  promptVersion: string;
+  fromCache?: boolean;
+  placeholder?: boolean;
+}
+
 interface SecretBundle {
   perplexityApiKey?: string;
   geminiApiKey?: string;
   chatGptApiKey?: string;
   xBearerToken?: string;
+  patentsViewApiKey?: string;
 }
 
-const docClient = DynamoDBDocumentClient.from(new DynamoDBClient({}));
+const docClient = DynamoDBDocumentClient.from(new DynamoDBClient({}), {
+  marshallOptions: { removeUndefinedValues: true },
+});
 const secretsClient = new SecretsManagerClient({});
 const tableName = process.env.CONTENT_CACHE_TABLE_NAME ?? '';
 const secretArn = process.env.API_SECRET_ARN ?? '';
+const rollingEntryTtlSeconds = 60 * 60 * 24 * 7;
 let cachedSecrets: SecretBundle | null = null;
 
 async function loadSecrets(): Promise<SecretBundle> {
@@ -71,108 +109,250 @@ function normalizeRequest(event: any): PatentRequest {
     section: event.section ?? 'ai',
     timePeriod: event.timePeriod ?? 'monthly',
     mode: event.mode,
+    asOf: event.asOf,
   };
 }
 
-async function generatePatentSummaries(request: PatentRequest): Promise<PatentSummary[]> {
-  const secrets = await loadSecrets();
-  const query = `Summarize the most impactful patents related to ${request.section} filed within ${request.timePeriod}`;
-  const items: PatentSummary[] = [];
-
-  if (secrets.perplexityApiKey) {
-    try {
-      const response = await axios.post(
-        'https://api.perplexity.ai/search',
-        { query, max_results: 10 },
-        { headers: { Authorization: `Bearer ${secrets.perplexityApiKey}` } },
-      );
-      for (const patent of response.data?.results ?? []) {
-        items.push({
-          id: patent.id ?? uuid(),
-          title: patent.title ?? `Patent insight for ${request.section}`,
-          abstract:
-            patent.summary ??
-            patent.abstract ??
-            `Placeholder summary for a ${request.section} patent during ${request.timePeriod}.`,
-          filingDate: patent.published_at ?? patent.filingDate,
-          inventors: patent.inventors ?? [],
-          impactScore: Math.round((patent.confidence ?? 0.6) * 100),
-          sourceUrl: patent.source?.url ?? patent.url,
-        });
-      }
-    } catch (error) {
-      console.warn('Perplexity patent lookup failed, falling back to ChatGPT');
-    }
-  }
+function describePatents(records: PatentRecord[]): string {
+  return records
+    .map((record, index) =>
+      [
+        `${index + 1}. US${record.patentNumber} — ${record.title} (${record.url})`,
+        `Assignee: ${record.assignees.join(', ') || 'unassigned'}. Granted ${record.grantDate ?? 'unknown'}.`,
+        `Abstract: ${record.abstract}`,
+        record.claims[0] ? `First claim: ${record.claims[0].slice(0, 600)}` : '',
+      ]
+        .filter(Boolean)
+        .join('\n'),
+    )
+    .join('\n\n');
+}
 
-  if (items.length === 0 && secrets.chatGptApiKey) {
-    const response = await axios.post(
-      'https://api.openai.com/v1/chat/completions',
-      {
-        model: 'gpt-4o-mini',
-        messages: [
-          { role: 'system', content: 'Generate concise patent summaries for technology news readers.' },
-          { role: 'user', content: query },
-        ],
-      },
-      { headers: { Authorization: `Bearer ${secrets.chatGptApiKey}` } },
+async function summarizeRecords(
+  request: PatentRequest,
+  records: PatentRecord[],
+  secrets: SecretBundle,
+  sectionLabel: string,
+  template: PromptTemplate,
+): Promise<Map<string, string>> {
+  const summaries = new Map<string, string>();
+  const result = await runCascade(
+    renderPrompt(template, { section: sectionLabel, timePeriod: request.timePeriod, patents: describePatents(records) }),
+    secrets,
+    { systemPrompt: template.systemPrompt, section: request.section },
+  );
+  (result?.items ?? []).forEach((item) => {
+    const match = records.find(
+      (record) => item.url === record.url || item.title.replace(/[^0-9A-Z]/gi, '').includes(record.patentNumber),
     );
-    const text = response.data?.choices?.[0]?.message?.content ?? '';
-    if (text) {
-      const placeholder = text.split('\n').filter(Boolean).slice(0, 5);
-      placeholder.forEach((line: string, index: number) => {
-        items.push({
-          id: uuid(),
-          title: line.split(':')[0] ?? `Patent ${index + 1}`,
-          abstract: line,
-          impactScore: 60,
+    if (match && item.summary && !summaries.has(match.patentNumber)) {
+      summaries.set(match.patentNumber, item.summary);
+    }
+  });
+  return summaries;
+}
+
+async function generatePatentSummaries(request: PatentRequest): Promise<PatentGeneration> {
+  const secrets = withFixtureSecrets(await loadSecrets(), [
+    'perplexityApiKey',
+    'geminiApiKey',
+    'chatGptApiKey',
+    'patentsViewApiKey',
+  ]);
+  const template = await loadPromptTemplate('patents-summary', request.section);
+  const promptVersion = promptVersionLabel([template]);
+  const definition = await findSection(request.section);
+  const source = resolvePatentSource(secrets.patentsViewApiKey);
+
+  const items = await withRawArchive(
+    { pipeline: 'patents', section: request.section, timePeriod: request.timePeriod, promptVersion },
+    async (): Promise<PatentSummary[]> => {
+      if (!source) {
+        return [];
+      }
+      const now = request.asOf ? new Date(request.asOf) : new Date();
+      const records = await source
+        .search({
+          cpcCodes: definition?.patentCpcCodes ?? [],
+          keywords: definition?.keywords ?? [request.section],
+          from: patentWindowStart(request.timePeriod, now),
+        })
+        .catch((error) => {
+          console.warn(`${source.name} patent search failed`, (error as Error).message);
+          return [] as PatentRecord[];
         });
+      if (records.length === 0) {
+        return [];
+      }
+      const summaries = await summarizeRecords(request, records, secrets, definition?.label ?? request.section, template);
+      const patents = records.map((record) => {
+        const impact = scoreImpact(record, records, now);
+        return {
+          id: stableItemId('patent', { url: record.url, title: record.title }),
+          title: record.title,
+          abstract: record.abstract,
+          summary: summaries.get(record.patentNumber),
+          patentNumber: record.patentNumber,
+          assignees: record.assignees,
+          cpcCodes: record.cpcCodes,
+          claims: record.claims,
+          claimCount: record.claimCount,
+          forwardCitations: record.forwardCitations,
+          familySize: record.familySize,
+          assigneePatentCount: record.assigneePatentCount,
+          priorityDate: record.priorityDate,
+          filingDate: record.filingDate,
+          grantDate: record.grantDate,
+          inventors: record.inventors,
+          impactScore: impact.score,
+          impact,
+          relations: record.relations,
+          sourceUrl: record.url,
+        };
       });
-    }
-  }
+      return patents.sort((a, b) => b.impactScore - a.impactScore);
+    },
+  );
 
   if (items.length === 0) {
-    return Array.from({ length: 3 }).map((_, index) => ({
-      id: uuid(),
-      title: `${request.section.toUpperCase()} patent highlight ${index + 1}`,
-      abstract: `Placeholder patent highlight for ${request.section} (${request.timePeriod}). Configure API keys to replace this data.`,
-      impactScore: 55,
-    }));
+    const cached = await docClient.send(
+      new GetCommand({ TableName: tableName, Key: { sectionPeriod: `${request.section}#${request.timePeriod}` } }),
+    );
+    const cachedPatents = cached.Item?.patentsArray as PatentSummary[] | undefined;
+    if (cachedPatents?.some((patent) => patent.sourceUrl)) {
+      return { promptVersion: cached.Item?.patentPromptVersion ?? promptVersion, patents: cachedPatents, fromCache: true };
+    }
+    return {
+      promptVersion,
+      placeholder: true,
+      patents: Array.from({ length: 3 }).map((_, index) => ({
+        id: stableItemId('patent', { title: `${request.section} patent placeholder ${index + 1} ${request.timePeriod}` }),
+        title: `${request.section.toUpperCase()} patent highlight ${index + 1}`,
+        abstract: `Placeholder patent highlight for ${request.section} (${request.timePeriod}). Configure the PatentsView API key to replace this data.`,
+        impactScore: 55,
+      })),
+    };
   }
 
-  return items.slice(0, 10);
+  return {
+    promptVersion,
+    patents: items.map((patent) => ({
+      ...patent,
+      entities: extractEntities([patent.title, patent.abstract, ...(patent.assignees ?? [])].join('. ')),
+    })),
+  };
 }
 
-async function upsertCache(request: PatentRequest, patents: PatentSummary[]): Promise<void> {
-  await docClient.send(
-    new UpdateCommand({
-      TableName: tableName,
-      Key: { sectionPeriod: `${request.section}#${request.timePeriod}` },
-      UpdateExpression:
-        'SET patentsArray = :patents, verifiedAt = :verifiedAt, expiresAt = :ttl, patentImpactAverage = :impact',
-      ExpressionAttributeValues: {
-        ':patents': patents,
-        ':verifiedAt': new Date().toISOString(),
-        ':ttl': Math.floor(Date.now() / 1000) + 60 * 60 * 24,
-        ':impact': Math.round(
-          patents.reduce((acc, item) => acc + (item.impactScore ?? 0), 0) /
-            Math.max(1, patents.length),
-        ),
-      },
-      ReturnValues: 'UPDATED_NEW',
-    }),
+export async function upsertCache(
+  request: PatentRequest,
+  { patents, promptVersion, fromCache, placeholder }: PatentGeneration,
+): Promise<void> {
+  if (fromCache) {
+    return;
+  }
+  // A reprocessed run keeps its capture time and never replaces a newer live entry.
+  const verifiedAt = request.asOf ?? new Date().toISOString();
+  const impact = Math.round(
+    patents.reduce((acc, item) => acc + (item.impactScore ?? 0), 0) / Math.max(1, patents.length),
   );
+  const snapshot = snapshotFor(request.section, request.timePeriod, new Date(verifiedAt));
+  await Promise.all([
+    docClient
+      .send(
+        new UpdateCommand({
+          TableName: tableName,
+          Key: { sectionPeriod: `${request.section}#${request.timePeriod}` },
+          UpdateExpression:
+            'SET patentsArray = :patents, verifiedAt = :verifiedAt, patentsVerifiedAt = :verifiedAt, expiresAt = :ttl, ' +
+            'patentImpactAverage = :impact, patentPromptVersion = :promptVersion REMOVE patentsRefreshRequestedAt',
+          ConditionExpression: request.asOf
+            ? 'attribute_not_exists(patentsVerifiedAt) OR patentsVerifiedAt <= :verifiedAt'
+            : undefined,
+          ExpressionAttributeValues: {
+            ':patents': patents,
+            ':verifiedAt': verifiedAt,
+            ':ttl': Math.floor(Date.now() / 1000) + rollingEntryTtlSeconds,
+            ':impact': impact,
+            ':promptVersion': promptVersion,
+          },
+          ReturnValues: 'UPDATED_NEW',
+        }),
+      )
+      .catch((error) => {
+        if (!(request.asOf && error instanceof ConditionalCheckFailedException)) {
+          throw error;
+        }
+        console.info('Live patents entry is newer than the reprocessed run; only its snapshot was rewritten');
+      }),
+    // Snapshots never expire, so placeholders only go to the live entry, where the next refresh replaces them.
+    placeholder
+      ? Promise.resolve()
+      : docClient.send(
+          new UpdateCommand({
+            TableName: tableName,
+            Key: { sectionPeriod: snapshotKey(snapshot) },
+            UpdateExpression:
+              'SET patentsArray = :patents, patentImpactAverage = :impact, patentCount = :count, ' +
+              'patentPromptVersion = :promptVersion, snapshotSeries = :series, snapshotDate = :startsAt, snapshotLabel = :label, #section = :section, timePeriod = :period',
+            ExpressionAttributeNames: { '#section': 'section' },
+            ExpressionAttributeValues: {
+              ':patents': patents,
+              ':impact': impact,
+              ':count': patents.length,
+              ':promptVersion': promptVersion,
+              ':series': snapshotSeries(request.section, request.timePeriod),
+              ':startsAt': snapshot.startsAt,
+              ':label': snapshot.label,
+              ':section': request.section,
+              ':period': request.timePeriod,
+            },
+          }),
+        ),
+  ]);
+  const published = patents.filter((patent) => patent.sourceUrl);
+  await Promise.all([
+    indexEntities(
+      published.map((patent) => ({
+        ...patent,
+        kind: 'patent',
+        summary: patent.summary ?? patent.abstract,
+        publishedAt: patent.grantDate ?? patent.filingDate,
+      })),
+      request.section,
+      request.timePeriod,
+    ),
+    recordItems(published, request.section, request.timePeriod, snapshotKey(snapshot), verifiedAt),
+    recordPatentGraph(
+      published
+        .filter((patent) => patent.patentNumber)
+        .map((patent) => ({
+          node: {
+            patentNumber: patent.patentNumber!,
+            title: patent.title,
+            assignee: patent.assignees?.[0],
+            grantDate: patent.grantDate,
+            itemId: patent.id,
+          },
+          relations: patent.relations,
+        })),
+      verifiedAt,
+    ),
+    relinkCachedContent(`${request.section}#${request.timePeriod}`).catch((error) =>
+      console.warn('Linking patents to news failed', (error as Error).message),
+    ),
+  ]);
 }
 
 async function handleApi(event: APIGatewayProxyEventV2): Promise<APIGatewayProxyResultV2> {
   try {
     const request = normalizeRequest(event);
-    const patents = await generatePatentSummaries(request);
-    await upsertCache(request, patents);
+    const generation = await generatePatentSummaries(request);
+    await upsertCache(request, generation);
     const response: PatentResponse = {
       section: request.section,
       timePeriod: request.timePeriod,
-      patents,
+      patents: generation.patents,
+      promptVersion: generation.promptVersion,
       generatedAt: new Date().toISOString(),
     };
     return {
@@ -197,12 +377,13 @@ export const handler = async (
     return handleApi(event);
   }
   const request = normalizeRequest(event);
-  const patents = await generatePatentSummaries(request);
-  await upsertCache(request, patents);
+  const generation = await generatePatentSummaries(request);
+  await upsertCache(request, generation);
   return {
     section: request.section,
     timePeriod: request.timePeriod,
-    patents,
+    patents: generation.patents,
+    promptVersion: generation.promptVersion,
     generatedAt: new Date().toISOString(),
   };
 };
@@ -1,10 +1,10 @@
 import { APIGatewayProxyEventV2, APIGatewayProxyResultV2 } from 'aws-lambda';
-import axios from 'axios';
 import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
 import { DynamoDBDocumentClient, PutCommand } from '@aws-sdk/lib-dynamodb';
 import { SecretsManagerClient, GetSecretValueCommand } from '@aws-sdk/client-secrets-manager';
 import { UAParser } from 'ua-parser-js';
 import { createHash } from 'crypto';
+import { httpClient, withFixtureSecrets } from './shared/httpClient';
 
 interface GeoPayload {
   lat?: number;
@@ -61,7 +61,7 @@ function parseBody(event: APIGatewayProxyEventV2): GeoPayload {
 }
 
 async function fetchWeather(lat?: number, lng?: number): Promise<{ location: string; weather: string; temperature: string }> {
-  const secrets = await getSecrets();
+  const secrets = withFixtureSecrets(await getSecrets(), ['openWeatherApiKey']);
   const fallback = {
     location: 'Global',
     weather: 'Clear',
@@ -71,7 +71,7 @@ async function fetchWeather(lat?: number, lng?: number): Promise<{ location: str
     return fallback;
   }
   try {
-    const response = await axios.get('https://api.openweathermap.org/data/2.5/weather', {
+    const response = await httpClient.get('https://api.openweathermap.org/data/2.5/weather', {
       params: {
         lat,
         lon: lng,
@@ -0,0 +1,48 @@
+import { APIGatewayProxyEventV2, APIGatewayProxyResultV2 } from 'aws-lambda';
+import { loadItem } from './shared/contentItems';
+
+interface ItemResponse {
+  itemId: string;
+  kind: 'news' | 'patent';
+  section: string;
+  item: Record<string, any>;
+  placements: string[];
+  snapshots: string[];
+  firstSeenAt: string;
+  lastSeenAt: string;
+}
+
+const headers = {
+  'Content-Type': 'application/json',
+  'Access-Control-Allow-Origin': '*',
+  'Cache-Control': 'no-store',
+};
+
+function respond(statusCode: number, body: unknown): APIGatewayProxyResultV2 {
+  return { statusCode, headers, body: JSON.stringify(body) };
+}
+
+export const handler = async (event: APIGatewayProxyEventV2): Promise<APIGatewayProxyResultV2> => {
+  const itemId = decodeURIComponent(event.pathParameters?.itemId ?? '');
+  if (!/^[np][0-9a-f]{16}$/.test(itemId)) {
+    return respond(400, { message: 'A valid itemId is required' });
+  }
+  if (!process.env.CONTENT_ITEMS_TABLE_NAME) {
+    return respond(503, { message: 'Content items are not configured' });
+  }
+
+  try {
+    const stored = await loadItem(itemId);
+    if (!stored) {
+      return respond(404, { message: `Item ${itemId} not found` });
+    }
+    const response: ItemResponse = {
+      ...stored,
+      kind: itemId.startsWith('p') ? 'patent' : 'news',
+    };
+    return respond(200, response);
+  } catch (error) {
+    console.error('Failed to load content item', error);
+    return respond(500, { message: 'Unable to load item' });
+  }
+};
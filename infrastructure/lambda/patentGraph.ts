@@ -0,0 +1,89 @@
+import { APIGatewayProxyEventV2, APIGatewayProxyResultV2 } from 'aws-lambda';
+import { SecretsManagerClient, GetSecretValueCommand } from '@aws-sdk/client-secrets-manager';
+import { PatentGraph, PatentNode, loadPatentGraph, loadPatentNode, recordPatentGraph } from './shared/patentGraph';
+import { resolvePatentSource } from './shared/patentSources';
+
+interface SecretBundle {
+  patentsViewApiKey?: string;
+}
+
+const secretsClient = new SecretsManagerClient({});
+const secretArn = process.env.API_SECRET_ARN ?? '';
+const maxDepth = 2;
+const defaultMaxNodes = 40;
+const maxNodesLimit = 80;
+let cachedSecrets: SecretBundle | null = null;
+
+const headers = {
+  'Content-Type': 'application/json',
+  'Access-Control-Allow-Origin': '*',
+  'Cache-Control': 'no-store',
+};
+
+function respond(statusCode: number, body: unknown): APIGatewayProxyResultV2 {
+  return { statusCode, headers, body: JSON.stringify(body) };
+}
+
+async function loadSecrets(): Promise<SecretBundle> {
+  if (cachedSecrets) {
+    return cachedSecrets;
+  }
+  if (!secretArn) {
+    cachedSecrets = {};
+    return cachedSecrets;
+  }
+  const result = await secretsClient.send(new GetSecretValueCommand({ SecretId: secretArn }));
+  cachedSecrets = result.SecretString ? (JSON.parse(result.SecretString) as SecretBundle) : {};
+  return cachedSecrets;
+}
+
+// Neighbours seen only as citations have no stored relations yet; the first request for one fetches them.
+async function expandOnDemand(node: PatentNode & { expanded: boolean }): Promise<void> {
+  if (node.expanded) {
+    return;
+  }
+  const source = resolvePatentSource((await loadSecrets()).patentsViewApiKey);
+  if (!source) {
+    return;
+  }
+  const found = (await source.relations([node.patentNumber])).get(node.patentNumber);
+  if (found) {
+    await recordPatentGraph([{ node: { ...found.node, itemId: node.itemId }, relations: found.relations }]);
+  }
+}
+
+function boundedInt(value: string | undefined, fallback: number, max: number): number {
+  const parsed = Number.parseInt(value ?? '', 10);
+  return Number.isNaN(parsed) ? fallback : Math.max(1, Math.min(max, parsed));
+}
+
+export const handler = async (event: APIGatewayProxyEventV2): Promise<APIGatewayProxyResultV2> => {
+  const patentNumber = decodeURIComponent(event.pathParameters?.patentNumber ?? '').toUpperCase();
+  if (!/^[A-Z]{0,2}\d{4,8}$/.test(patentNumber)) {
+    return respond(400, { message: 'A valid patent number is required' });
+  }
+  if (!process.env.PATENT_GRAPH_TABLE_NAME) {
+    return respond(503, { message: 'The patent graph is not configured' });
+  }
+
+  const depth = boundedInt(event.queryStringParameters?.depth, 1, maxDepth);
+  const maxNodes = boundedInt(event.queryStringParameters?.limit, defaultMaxNodes, maxNodesLimit);
+  try {
+    // Only patents the pipeline has already stored are expanded, so arbitrary numbers never reach the patent source.
+    const node = await loadPatentNode(patentNumber);
+    if (!node) {
+      return respond(404, { message: `Patent ${patentNumber} is not in the graph` });
+    }
+    await expandOnDemand(node).catch((error) =>
+      console.warn(`Patent graph expansion failed for ${patentNumber}`, (error as Error).message),
+    );
+    const graph: PatentGraph = await loadPatentGraph(patentNumber, depth, maxNodes);
+    if (graph.nodes.length === 1 && !graph.nodes[0].expanded) {
+      return respond(404, { message: `No citation data for patent ${patentNumber}` });
+    }
+    return respond(200, graph);
+  } catch (error) {
+    console.error('Failed to load patent graph', error);
+    return respond(500, { message: 'Unable to load patent graph' });
+  }
+};
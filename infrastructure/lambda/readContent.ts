@@ -0,0 +1,273 @@
+import { APIGatewayProxyEventV2, APIGatewayProxyResultV2 } from 'aws-lambda';
+import { ConditionalCheckFailedException, DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { InvokeCommand, LambdaClient } from '@aws-sdk/client-lambda';
+import { SentimentLabel, withHypeScore } from './shared/hypeScoring';
+import { listEnabledSections } from './shared/sectionRegistry';
+
+type ContentKind = 'news' | 'patents';
+type PatentDateField = 'grant' | 'filing';
+
+interface Freshness {
+  state: 'fresh' | 'stale' | 'missing';
+  verifiedAt?: string;
+  ageSeconds?: number;
+  staleAfterSeconds: number;
+  refreshing: boolean;
+}
+
+interface NewsReadResponse {
+  section: string;
+  timePeriod: string;
+  items: unknown[];
+  hiddenByFilters: number;
+  verificationSummary: string;
+  promptVersion: string;
+  generatedAt: string;
+  freshness: Freshness;
+}
+
+interface PatentReadResponse {
+  section: string;
+  timePeriod: string;
+  patents: unknown[];
+  hiddenByFilters: number;
+  dateField: PatentDateField;
+  dateRange: { earliest?: string; latest?: string };
+  promptVersion: string;
+  generatedAt: string;
+  freshness: Freshness;
+}
+
+const docClient = DynamoDBDocumentClient.from(new DynamoDBClient({}));
+const lambdaClient = new LambdaClient({});
+
+const tableName = process.env.CONTENT_CACHE_TABLE_NAME ?? '';
+const regenerateFunctionName = process.env.REGENERATE_FUNCTION_NAME ?? '';
+const refreshCooldownMs = Number(process.env.CONTENT_REFRESH_COOLDOWN_MS ?? 15 * 60 * 1000);
+
+const contentPeriods = ['daily', 'weekly', 'monthly', 'yearly'];
+
+const defaultStaleAfterMinutes: Record<string, number> = {
+  daily: 6 * 60,
+  weekly: 24 * 60,
+  monthly: 3 * 24 * 60,
+  yearly: 7 * 24 * 60,
+};
+
+function parseJsonEnv<T>(name: string, fallback: T): T {
+  const raw = process.env[name];
+  if (!raw) {
+    return fallback;
+  }
+  try {
+    return JSON.parse(raw) as T;
+  } catch (error) {
+    console.warn(`Ignoring malformed ${name}`, error);
+    return fallback;
+  }
+}
+
+const staleAfterMinutes: Record<string, number> = {
+  ...defaultStaleAfterMinutes,
+  ...parseJsonEnv<Record<string, number>>('CONTENT_STALE_AFTER_MINUTES', {}),
+};
+
+const headers = {
+  'Content-Type': 'application/json',
+  'Access-Control-Allow-Origin': '*',
+  'Cache-Control': 'no-store',
+};
+
+function respond(statusCode: number, body: unknown): APIGatewayProxyResultV2 {
+  return { statusCode, headers, body: JSON.stringify(body) };
+}
+
+// The marker doubles as a lock: concurrent readers of a stale entry trigger one regeneration per cooldown.
+async function claimRefresh(kind: ContentKind, sectionPeriod: string): Promise<boolean> {
+  const now = Date.now();
+  try {
+    await docClient.send(
+      new UpdateCommand({
+        TableName: tableName,
+        Key: { sectionPeriod },
+        UpdateExpression: 'SET #requested = :now, expiresAt = if_not_exists(expiresAt, :ttl)',
+        ConditionExpression: 'attribute_not_exists(#requested) OR #requested < :cutoff',
+        ExpressionAttributeNames: { '#requested': `${kind}RefreshRequestedAt` },
+        ExpressionAttributeValues: {
+          ':now': new Date(now).toISOString(),
+          ':cutoff': new Date(now - refreshCooldownMs).toISOString(),
+          ':ttl': Math.floor(now / 1000) + 60 * 60 * 24,
+        },
+      }),
+    );
+    return true;
+  } catch (error) {
+    if (error instanceof ConditionalCheckFailedException) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+async function requestRegeneration(kind: ContentKind, section: string, timePeriod: string): Promise<boolean> {
+  if (!regenerateFunctionName) {
+    return false;
+  }
+  try {
+    if (!(await claimRefresh(kind, `${section}#${timePeriod}`))) {
+      return true;
+    }
+    await lambdaClient.send(
+      new InvokeCommand({
+        FunctionName: regenerateFunctionName,
+        InvocationType: 'Event',
+        Payload: Buffer.from(JSON.stringify({ section, timePeriod, mode: 'refresh' })),
+      }),
+    );
+    return true;
+  } catch (error) {
+    console.warn(`Unable to request ${kind} regeneration for ${section}#${timePeriod}`, (error as Error).message);
+    return false;
+  }
+}
+
+// Entries cached before hype scoring existed are scored on read so the filters apply to them too.
+function filterNews(items: any[], query: Record<string, string | undefined>): any[] {
+  const maxHypeRisk = Number.parseInt(query.maxHypeRisk ?? '', 10);
+  const sentiments = query.sentiment?.split(',').filter(Boolean) as SentimentLabel[] | undefined;
+  return items
+    .map((item) => (typeof item.hypeRisk === 'number' || !item.title ? item : withHypeScore(item)))
+    .filter((item) => Number.isNaN(maxHypeRisk) || (item.hypeRisk ?? 0) <= maxHypeRisk)
+    .filter((item) => !sentiments?.length || sentiments.includes(item.hype?.sentimentLabel ?? 'neutral'));
+}
+
+function patentDate(patent: any, field: PatentDateField): string | undefined {
+  return field === 'filing' ? patent.filingDate ?? patent.priorityDate : patent.grantDate;
+}
+
+function parseDay(value?: string): string | undefined {
+  return value && /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value)) ? value : undefined;
+}
+
+// Dates are ISO days, so plain string comparison orders them; undated patents only survive an open range.
+function filterPatents(patents: any[], field: PatentDateField, query: Record<string, string | undefined>): any[] {
+  const from = parseDay(query.from);
+  const to = parseDay(query.to);
+  if (!from && !to) {
+    return patents;
+  }
+  return patents.filter((patent) => {
+    const date = patentDate(patent, field);
+    return date !== undefined && (!from || date >= from) && (!to || date <= to);
+  });
+}
+
+function requestedKey(kind: ContentKind, event: APIGatewayProxyEventV2): { section: string; timePeriod: string } {
+  return {
+    section: event.queryStringParameters?.section ?? 'ai',
+    timePeriod: event.queryStringParameters?.timePeriod ?? (kind === 'news' ? 'daily' : 'monthly'),
+  };
+}
+
+// A miss triggers a paid regeneration, so only keys the refresh workflow itself would produce are read.
+async function rejectUnknownKey(section: string, timePeriod: string): Promise<APIGatewayProxyResultV2 | null> {
+  if (!contentPeriods.includes(timePeriod)) {
+    return respond(400, { message: `timePeriod must be one of ${contentPeriods.join(', ')}` });
+  }
+  if (!(await listEnabledSections()).some((definition) => definition.id === section)) {
+    return respond(404, { message: `Unknown section ${section}` });
+  }
+  return null;
+}
+
+async function readContent(
+  kind: ContentKind,
+  section: string,
+  timePeriod: string,
+): Promise<{ item?: Record<string, any>; freshness: Freshness }> {
+  const staleAfterSeconds = (staleAfterMinutes[timePeriod] ?? defaultStaleAfterMinutes.daily) * 60;
+
+  const result = await docClient.send(
+    new GetCommand({ TableName: tableName, Key: { sectionPeriod: `${section}#${timePeriod}` } }),
+  );
+  const item = result.Item;
+  const content = item?.[kind === 'news' ? 'newsArray' : 'patentsArray'];
+  const verifiedAt: string | undefined = item?.[`${kind}VerifiedAt`] ?? item?.verifiedAt;
+
+  if (!Array.isArray(content) || !verifiedAt) {
+    const refreshing = await requestRegeneration(kind, section, timePeriod);
+    return { freshness: { state: 'missing', staleAfterSeconds, refreshing } };
+  }
+
+  const ageSeconds = Math.max(0, Math.round((Date.now() - new Date(verifiedAt).getTime()) / 1000));
+  const stale = ageSeconds > staleAfterSeconds;
+  const refreshing = stale ? await requestRegeneration(kind, section, timePeriod) : false;
+  return {
+    item,
+    freshness: { state: stale ? 'stale' : 'fresh', verifiedAt, ageSeconds, staleAfterSeconds, refreshing },
+  };
+}
+
+export const newsHandler = async (event: APIGatewayProxyEventV2): Promise<APIGatewayProxyResultV2> => {
+  try {
+    const { section, timePeriod } = requestedKey('news', event);
+    const rejected = await rejectUnknownKey(section, timePeriod);
+    if (rejected) {
+      return rejected;
+    }
+    const { item, freshness } = await readContent('news', section, timePeriod);
+    const cachedItems: any[] = item?.newsArray ?? [];
+    const items = filterNews(cachedItems, event.queryStringParameters ?? {});
+    const response: NewsReadResponse = {
+      section,
+      timePeriod,
+      items,
+      hiddenByFilters: cachedItems.length - items.length,
+      verificationSummary:
+        item?.newsVerificationSummary ??
+        (item ? `Average verification ${item.verificationScore ?? 0}%` : 'Content is being generated.'),
+      promptVersion: item?.newsPromptVersion ?? 'unknown',
+      generatedAt: freshness.verifiedAt ?? new Date().toISOString(),
+      freshness,
+    };
+    return respond(item ? 200 : 202, response);
+  } catch (error) {
+    console.error('Failed to read cached news', error);
+    return respond(500, { message: 'Unable to load news content' });
+  }
+};
+
+export const patentsHandler = async (event: APIGatewayProxyEventV2): Promise<APIGatewayProxyResultV2> => {
+  try {
+    const { section, timePeriod } = requestedKey('patents', event);
+    const rejected = await rejectUnknownKey(section, timePeriod);
+    if (rejected) {
+      return rejected;
+    }
+    const { item, freshness } = await readContent('patents', section, timePeriod);
+    const query = event.queryStringParameters ?? {};
+    const dateField: PatentDateField = query.dateField === 'filing' ? 'filing' : 'grant';
+    const cachedPatents: any[] = item?.patentsArray ?? [];
+    const patents = filterPatents(cachedPatents, dateField, query);
+    const dates = cachedPatents
+      .map((patent) => patentDate(patent, dateField))
+      .filter((date): date is string => Boolean(date))
+      .sort();
+    const response: PatentReadResponse = {
+      section,
+      timePeriod,
+      patents,
+      hiddenByFilters: cachedPatents.length - patents.length,
+      dateField,
+      dateRange: { earliest: dates[0], latest: dates[dates.length - 1] },
+      promptVersion: item?.patentPromptVersion ?? 'unknown',
+      generatedAt: freshness.verifiedAt ?? new Date().toISOString(),
+      freshness,
+    };
+    return respond(item ? 200 : 202, response);
+  } catch (error) {
+    console.error('Failed to read cached patents', error);
+    return respond(500, { message: 'Unable to load patent insights' });
+  }
+};
@@ -1,6 +1,7 @@
 import { APIGatewayProxyEventV2, APIGatewayProxyResultV2 } from 'aws-lambda';
 import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
 import { DynamoDBDocumentClient, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import { SectionDefinition, listEnabledSections } from './shared/sectionRegistry';
 
 interface RecommendationRequest {
   sessionId?: string;
@@ -10,6 +11,7 @@ interface RecommendationRequest {
 
 interface RecommendationItem {
   section: string;
+  label: string;
   reason: string;
   score: number;
 }
@@ -57,36 +59,36 @@ async function fetchAccessHistory(sessionId?: string): Promise<Array<Record<stri
   return result.Items ?? [];
 }
 
-function inferScores(history: Array<Record<string, any>>): RecommendationItem[] {
-  const baseSections = ['ai', 'ml', 'iot', 'quantum'];
-  const interest: Record<string, number> = Object.fromEntries(baseSections.map((section) => [section, 0]));
+function inferScores(history: Array<Record<string, any>>, sections: SectionDefinition[]): RecommendationItem[] {
+  const interest: Record<string, number> = Object.fromEntries(sections.map((section) => [section.id, 0]));
 
   history.forEach((item) => {
-    const path: string = item.path ?? '';
-    baseSections.forEach((section) => {
-      if (path.toLowerCase().includes(section)) {
-        interest[section] += 2;
+    const path: string = (item.path ?? '').toLowerCase();
+    sections.forEach((section) => {
+      if (path.includes(section.id)) {
+        interest[section.id] += 2;
       }
     });
-    if (typeof item.geo === 'string' && item.geo.toLowerCase().includes('research')) {
+    if (typeof item.geo === 'string' && item.geo.toLowerCase().includes('research') && 'quantum' in interest) {
       interest.quantum += 1.5;
     }
   });
 
-  const scored = baseSections
+  const scored = sections
     .map((section) => ({
       section,
-      score: interest[section] || 0.5,
+      score: interest[section.id] || 0.5,
     }))
     .sort((a, b) => b.score - a.score);
 
   return scored.map((entry) => ({
-    section: entry.section,
+    section: entry.section.id,
+    label: entry.section.label,
     score: Math.round(entry.score * 10) / 10,
     reason:
       entry.score > 1
-        ? `You recently explored ${entry.section.toUpperCase()} stories, so we surfaced more insights.`
-        : `Discover curated ${entry.section.toUpperCase()} highlights tailored for emerging trends.`,
+        ? `You recently explored ${entry.section.label} stories, so we surfaced more insights.`
+        : `Discover curated ${entry.section.label} highlights tailored for emerging trends.`,
   }));
 }
 
@@ -95,7 +97,7 @@ export const handler = async (
 ): Promise<APIGatewayProxyResultV2> => {
   const request = parseRequest(event);
   const history = await fetchAccessHistory(request.sessionId);
-  const recommendations = inferScores(history).slice(0, request.limit ?? 3);
+  const recommendations = inferScores(history, await listEnabledSections()).slice(0, request.limit ?? 3);
 
   const response: RecommendationResponse = {
     recommendations,
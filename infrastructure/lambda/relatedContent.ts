@@ -2,6 +2,8 @@ import { APIGatewayProxyEventV2, APIGatewayProxyResultV2 } from 'aws-lambda';
 import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
 import { DynamoDBDocumentClient, GetCommand } from '@aws-sdk/lib-dynamodb';
 import { v4 as uuid } from 'uuid';
+import { Citation } from './shared/citations';
+import { loadItem } from './shared/contentItems';
 
 const tableName = process.env.CONTENT_CACHE_TABLE_NAME ?? '';
 const docClient = DynamoDBDocumentClient.from(new DynamoDBClient({}));
@@ -19,9 +21,16 @@ interface RelatedItem {
   summary: string;
   sourceUrl?: string;
   verificationScore: number;
+  citations?: Citation[];
   related?: RelatedItem[];
 }
 
+const headers = {
+  'Content-Type': 'application/json',
+  'Access-Control-Allow-Origin': '*',
+  'Cache-Control': 'no-store',
+};
+
 interface RelatedContentResponse {
   section: string;
   period: string;
@@ -29,6 +38,10 @@ interface RelatedContentResponse {
   generatedAt: string;
 }
 
+function respond(statusCode: number, body: unknown): APIGatewayProxyResultV2 {
+  return { statusCode, headers, body: JSON.stringify(body) };
+}
+
 function parseRequest(event: APIGatewayProxyEventV2): RelatedContentRequest {
   const section = event.pathParameters?.section ?? 'ai';
   const period = event.pathParameters?.period ?? 'daily';
@@ -39,21 +52,6 @@ function parseRequest(event: APIGatewayProxyEventV2): RelatedContentRequest {
   return { section, period, itemId, depth };
 }
 
-function buildPlaceholder(section: string, period: string, itemId: string): RelatedItem {
-  return {
-    id: itemId,
-    title: `Deep dive for ${section.toUpperCase()} (${period})`,
-    summary: 'Configure aggregation providers to unlock hierarchical related content.',
-    verificationScore: 60,
-    related: Array.from({ length: 2 }).map((_, index) => ({
-      id: uuid(),
-      title: `${section.toUpperCase()} contextual insight ${index + 1}`,
-      summary: 'Placeholder context pending real AI enrichment.',
-      verificationScore: 55,
-    })),
-  };
-}
-
 async function fetchCached(section: string, period: string): Promise<any> {
   if (!tableName) {
     return null;
@@ -82,6 +80,7 @@ function expandRelated(item: any, depth = 1): RelatedItem {
     verificationScore: Number.isFinite(item.verificationScore)
       ? Math.round(item.verificationScore)
       : 60,
+    citations: Array.isArray(item.citations) ? item.citations : undefined,
     related: depth > 1 ? relatedItems : undefined,
   };
 }
@@ -90,31 +89,26 @@ export const handler = async (
   event: APIGatewayProxyEventV2,
 ): Promise<APIGatewayProxyResultV2> => {
   const request = parseRequest(event);
-  const cached = await fetchCached(request.section, request.period);
-  const candidates: any[] = Array.isArray(cached?.newsArray) ? cached?.newsArray : [];
-  const fallback = buildPlaceholder(request.section, request.period, request.itemId);
-
-  const target =
-    candidates.find((item) => item.id === request.itemId) ??
-    candidates.find((item) => item.title?.toLowerCase().includes(request.itemId.toLowerCase())) ??
-    fallback;
+  try {
+    const cached = await fetchCached(request.section, request.period);
+    const candidates: any[] = Array.isArray(cached?.newsArray) ? cached?.newsArray : [];
 
-  const item = expandRelated(target, Math.min(request.depth ?? 3, 5));
-
-  const response: RelatedContentResponse = {
-    section: request.section,
-    period: request.period,
-    item,
-    generatedAt: new Date().toISOString(),
-  };
+    // Item IDs are stable across refreshes, so a story that rolled out of the current entry is still found in the items table.
+    const target =
+      candidates.find((item) => item.id === request.itemId) ?? (await loadItem(request.itemId))?.item;
+    if (!target) {
+      return respond(404, { message: `No item ${request.itemId}` });
+    }
 
-  return {
-    statusCode: 200,
-    headers: {
-      'Content-Type': 'application/json',
-      'Access-Control-Allow-Origin': '*',
-      'Cache-Control': 'no-store',
-    },
-    body: JSON.stringify(response),
-  };
+    const response: RelatedContentResponse = {
+      section: request.section,
+      period: request.period,
+      item: expandRelated(target, Math.min(request.depth ?? 3, 5)),
+      generatedAt: new Date().toISOString(),
+    };
+    return respond(200, response);
+  } catch (error) {
+    console.error('Failed to load related content', error);
+    return respond(500, { message: 'Unable to load related content' });
+  }
 };
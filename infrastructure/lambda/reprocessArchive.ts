@@ -0,0 +1,64 @@
+import { handler as fetchNewsHandler } from './fetchNews';
+import { handler as fetchPatentsHandler } from './fetchPatents';
+import { clearReplayFixtures, loadReplayFixtures } from './shared/httpClient';
+import { ArchivePipeline, findArchivedRun, loadArchivedExchanges } from './shared/rawArchive';
+
+interface ReprocessRequest {
+  pipeline?: ArchivePipeline;
+  section?: string;
+  timePeriod?: string;
+  date?: string;
+  runId?: string;
+}
+
+interface ReprocessResult {
+  pipeline: ArchivePipeline;
+  section: string;
+  timePeriod: string;
+  status: 'reprocessed' | 'not-found';
+  runId?: string;
+  promptVersion?: string;
+  replayedExchanges: number;
+  itemCount: number;
+}
+
+export const handler = async (event: ReprocessRequest): Promise<ReprocessResult> => {
+  const pipeline = event.pipeline === 'patents' ? 'patents' : 'news';
+  const section = event.section ?? 'ai';
+  const timePeriod = event.timePeriod ?? 'daily';
+
+  const manifest = await findArchivedRun({ pipeline, section, timePeriod }, event.date, event.runId);
+  if (!manifest) {
+    console.warn('No archived run found to reprocess', { pipeline, section, timePeriod, date: event.date });
+    return { pipeline, section, timePeriod, status: 'not-found', replayedExchanges: 0, itemCount: 0 };
+  }
+
+  const exchanges = await loadArchivedExchanges(manifest);
+  loadReplayFixtures(exchanges);
+  try {
+    const request = { section, timePeriod, mode: 'reprocess', asOf: manifest.capturedAt };
+    const result = pipeline === 'patents' ? await fetchPatentsHandler(request) : await fetchNewsHandler(request);
+    const payload = result as { patents?: unknown[]; items?: unknown[] };
+    const itemCount = (payload.patents ?? payload.items ?? []).length;
+    console.info('Rebuilt content cache from archived run', {
+      pipeline,
+      section,
+      timePeriod,
+      runId: manifest.runId,
+      replayedExchanges: exchanges.length,
+      itemCount,
+    });
+    return {
+      pipeline,
+      section,
+      timePeriod,
+      status: 'reprocessed',
+      runId: manifest.runId,
+      promptVersion: manifest.promptVersion,
+      replayedExchanges: exchanges.length,
+      itemCount,
+    };
+  } finally {
+    clearReplayFixtures();
+  }
+};
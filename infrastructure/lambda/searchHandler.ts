@@ -1,7 +1,20 @@
 import { APIGatewayProxyEventV2, APIGatewayProxyResultV2 } from 'aws-lambda';
-import axios, { AxiosError } from 'axios';
 import { SecretsManagerClient, GetSecretValueCommand } from '@aws-sdk/client-secrets-manager';
 import { v4 as uuid } from 'uuid';
+import { runCascade } from './shared/aiProviders';
+import { withFixtureSecrets } from './shared/httpClient';
+import { loadPromptTemplate, promptVersionLabel, renderPrompt } from './shared/promptTemplates';
+import {
+  IndexMatch,
+  IndexedKind,
+  SearchIndex,
+  buildIndex,
+  loadCachedDocuments,
+  loadSearchIndex,
+  queryIndex,
+} from './shared/searchIndex';
+import { listEnabledSections } from './shared/sectionRegistry';
+import { StructuredItem } from './shared/structuredOutput';
 
 interface SearchRequest {
   query: string;
@@ -9,6 +22,8 @@ interface SearchRequest {
   limit?: number;
 }
 
+type ResultOrigin = 'index' | 'ai';
+
 interface SearchResultItem {
   id: string;
   headline: string;
@@ -16,6 +31,10 @@ interface SearchResultItem {
   source?: string;
   url?: string;
   verificationScore: number;
+  origin: ResultOrigin;
+  kind?: IndexedKind;
+  score?: number;
+  matchedTerms?: string[];
 }
 
 interface SearchResponse {
@@ -23,7 +42,18 @@ interface SearchResponse {
   section?: string;
   results: SearchResultItem[];
   generatedAt: string;
+  index: { builtAt: string; documents: number; source: 's3' | 'cache' } | null;
+  aiConsulted: boolean;
+  // Set when the providers were needed but failed; the results then come from the index alone.
+  aiError?: string;
   provider?: string;
+  promptVersion?: string;
+}
+
+interface ResolvedIndex {
+  index: SearchIndex;
+  source: 's3' | 'cache';
+  loadedAt: number;
 }
 
 interface SecretBundle {
@@ -34,8 +64,26 @@ interface SecretBundle {
 
 const secretsClient = new SecretsManagerClient({});
 const apiSecretArn = process.env.API_SECRET_ARN ?? '';
+const indexCacheTtlMs = 5 * 60 * 1000;
+const defaultLimit = 10;
+const maxLimit = 50;
+// A local match is strong when it contains this share of the query's terms; with fewer strong matches than
+// minStrongMatches (or the requested limit, if smaller) the AI providers are asked as well.
+const minCoverage = 0.6;
+const minStrongMatches = 3;
 
 let cachedSecrets: SecretBundle | null = null;
+let cachedIndex: ResolvedIndex | null = null;
+
+const headers = {
+  'Content-Type': 'application/json',
+  'Access-Control-Allow-Origin': '*',
+  'Cache-Control': 'no-store',
+};
+
+function respond(statusCode: number, body: unknown): APIGatewayProxyResultV2 {
+  return { statusCode, headers, body: JSON.stringify(body) };
+}
 
 async function loadSecrets(): Promise<SecretBundle> {
   if (cachedSecrets) {
@@ -50,153 +98,147 @@ async function loadSecrets(): Promise<SecretBundle> {
   return cachedSecrets;
 }
 
+function clampLimit(value: unknown): number {
+  const parsed = Number.parseInt(String(value ?? ''), 10);
+  return Number.isNaN(parsed) ? defaultLimit : Math.max(1, Math.min(maxLimit, parsed));
+}
+
 function parseRequest(event: APIGatewayProxyEventV2): SearchRequest {
   if (!event.body) {
-    return { query: 'latest ai breakthroughs', limit: 10 };
+    return { query: 'latest ai breakthroughs', limit: defaultLimit };
   }
   try {
     const body = JSON.parse(event.body);
     return {
-      query: body.query ?? 'latest ai breakthroughs',
-      section: body.section,
-      limit: body.limit ?? 10,
+      query: typeof body.query === 'string' && body.query.trim() ? body.query : 'latest ai breakthroughs',
+      section: typeof body.section === 'string' ? body.section : undefined,
+      limit: clampLimit(body.limit),
     };
   } catch (error) {
     console.warn('Unable to parse search payload', error);
-    return { query: 'technology news', limit: 10 };
+    return { query: 'technology news', limit: defaultLimit };
   }
 }
 
-async function callPerplexity(query: string, apiKey?: string) {
-  if (!apiKey) {
-    return null;
-  }
+function hostnameOf(url?: string): string {
   try {
-    const response = await axios.post(
-      'https://api.perplexity.ai/search',
-      { query, max_results: 10 },
-      { headers: { Authorization: `Bearer ${apiKey}` } },
-    );
-    return { provider: 'perplexity', confidence: response.data?.confidence ?? 0.7, items: response.data?.results ?? [] };
+    return url ? new URL(url).hostname.replace(/^www\./, '') : 'aggregated';
   } catch (error) {
-    const message = (error as AxiosError).message ?? 'perplexity search error';
-    console.error('Perplexity search failure', message);
-    return null;
+    return 'aggregated';
   }
 }
 
-async function callGemini(query: string, apiKey?: string) {
-  if (!apiKey) {
-    return null;
-  }
-  try {
-    const response = await axios.post(
-      `https://generativelanguage.googleapis.com/v1beta/models/gemini-pro:generateContent?key=${apiKey}`,
-      {
-        contents: [
-          {
-            parts: [{ text: query }],
-          },
-        ],
-      },
-    );
-    return { provider: 'gemini', confidence: 0.6, items: response.data?.candidates ?? [] };
-  } catch (error) {
-    const message = (error as AxiosError).message ?? 'gemini search error';
-    console.error('Gemini search failure', message);
-    return null;
-  }
+function formatResults(raw: StructuredItem[], confidence: number, limit: number): SearchResultItem[] {
+  return raw.slice(0, limit).map((item) => ({
+    id: uuid(),
+    headline: item.title,
+    summary: item.summary,
+    source: hostnameOf(item.url),
+    url: item.url,
+    verificationScore: Math.round((confidence || 0.5) * 100),
+    origin: 'ai',
+  }));
 }
 
-async function callChatGpt(query: string, apiKey?: string) {
-  if (!apiKey) {
-    return null;
-  }
-  try {
-    const response = await axios.post(
-      'https://api.openai.com/v1/chat/completions',
-      {
-        model: 'gpt-4o-mini',
-        messages: [
-          { role: 'system', content: 'Provide concise, factual answers to technology news search queries.' },
-          { role: 'user', content: query },
-        ],
-      },
-      { headers: { Authorization: `Bearer ${apiKey}` } },
-    );
-    return { provider: 'chatgpt', confidence: 0.55, items: response.data?.choices ?? [] };
-  } catch (error) {
-    const message = (error as AxiosError).message ?? 'chatgpt search error';
-    console.error('ChatGPT search failure', message);
-    return null;
+function fromIndex(match: IndexMatch): SearchResultItem {
+  const { document } = match;
+  return {
+    id: document.id,
+    headline: document.title,
+    summary: document.summary,
+    source: document.publisher,
+    url: document.url,
+    verificationScore: document.verificationScore ?? 50,
+    origin: 'index',
+    kind: document.kind,
+    score: match.score,
+    matchedTerms: match.matchedTerms,
+  };
+}
+
+// The refresh workflow stores the index in S3; until the first one exists, the cached rows are indexed on the fly.
+async function resolveIndex(): Promise<ResolvedIndex> {
+  if (cachedIndex && Date.now() - cachedIndex.loadedAt < indexCacheTtlMs) {
+    return cachedIndex;
   }
+  const stored = await loadSearchIndex();
+  cachedIndex = stored
+    ? { index: stored, source: 's3', loadedAt: Date.now() }
+    : {
+        index: buildIndex(await loadCachedDocuments((await listEnabledSections()).map((section) => section.id))),
+        source: 'cache',
+        loadedAt: Date.now(),
+      };
+  return cachedIndex;
 }
 
-function formatResults(raw: any[], confidence: number, limit: number): SearchResultItem[] {
-  return raw.slice(0, limit).map((item: any) => ({
-    id: item.id ?? uuid(),
-    headline: item.title ?? item.summary ?? item.text ?? 'Technology insight',
-    summary:
-      item.summary ??
-      item.content ??
-      item.text ??
-      'AI generated placeholder summary pending integration with upstream providers.',
-    source: item.source?.name ?? item.source ?? 'aggregated',
-    url: item.source?.url ?? item.url,
-    verificationScore: Math.round((confidence || 0.5) * 100),
-  }));
+async function askProviders(request: SearchRequest, limit: number) {
+  const secrets = withFixtureSecrets(await loadSecrets(), ['perplexityApiKey', 'geminiApiKey', 'chatGptApiKey']);
+  const template = await loadPromptTemplate('search-answer', request.section);
+  const enrichedQuery = renderPrompt(template, {
+    query: request.query,
+    section: request.section ?? '',
+    focus: request.section ? `focused on ${request.section}` : '',
+  });
+  const selected = await runCascade(enrichedQuery, secrets, {
+    systemPrompt: template.systemPrompt,
+    section: request.section,
+  });
+  return {
+    results: selected ? formatResults(selected.items, selected.confidence, limit) : [],
+    provider: selected?.provider,
+    promptVersion: promptVersionLabel([template]),
+  };
 }
 
 export const handler = async (
   event: APIGatewayProxyEventV2,
 ): Promise<APIGatewayProxyResultV2> => {
   const request = parseRequest(event);
-  const secrets = await loadSecrets();
-
-  const enrichedQuery = `${request.query} ${request.section ? `focused on ${request.section}` : ''}`.trim();
-
-  const providers = [
-    await callPerplexity(enrichedQuery, secrets.perplexityApiKey),
-    await callGemini(enrichedQuery, secrets.geminiApiKey),
-    await callChatGpt(enrichedQuery, secrets.chatGptApiKey),
-  ].filter((result) => result !== null) as Array<{ provider: string; confidence: number; items: any[] }>;
-
-  const selected = providers.find((provider) => provider.items.length > 0) ?? providers[0] ?? null;
-
-  const results = selected
-    ? formatResults(selected.items, selected.confidence, request.limit ?? 10)
-    : formatResults([], 0.5, request.limit ?? 10);
-
-  if (results.length === 0) {
-    results.push(
-      ...formatResults(
-        [
-          {
-            title: 'Stay tuned for curated technology insights',
-            summary: 'Configure API keys to enable live semantic search results for TechNewsHub.',
-          },
-        ],
-        0.5,
-        1,
-      ),
-    );
-  }
+  const limit = request.limit ?? defaultLimit;
 
-  const response: SearchResponse = {
-    query: request.query,
-    section: request.section,
-    results,
-    generatedAt: new Date().toISOString(),
-    provider: selected?.provider,
-  };
-
-  return {
-    statusCode: 200,
-    headers: {
-      'Content-Type': 'application/json',
-      'Access-Control-Allow-Origin': '*',
-      'Cache-Control': 'no-store',
-    },
-    body: JSON.stringify(response),
-  };
+  try {
+    const resolved = await resolveIndex().catch((error) => {
+      console.warn('Search index unavailable', (error as Error).message);
+      return null;
+    });
+    const local = resolved ? queryIndex(resolved.index, request.query, { section: request.section, limit }) : [];
+    const strong = local.filter((match) => match.coverage >= minCoverage).map(fromIndex);
+    const weak = local.filter((match) => match.coverage < minCoverage).map(fromIndex);
+
+    // Strong local matches come first, then AI answers, then the weaker local matches.
+    let aiError: string | undefined;
+    const ai =
+      strong.length < Math.min(limit, minStrongMatches)
+        ? await askProviders(request, limit).catch((error) => {
+            console.warn('AI search providers failed', (error as Error).message);
+            aiError = 'AI providers are unavailable; results come from the search index only';
+            return null;
+          })
+        : null;
+    const seenUrls = new Set(local.map((match) => match.document.url).filter(Boolean));
+    const results = [
+      ...strong,
+      ...(ai?.results ?? []).filter((item) => !item.url || !seenUrls.has(item.url)),
+      ...weak,
+    ].slice(0, limit);
+
+    const response: SearchResponse = {
+      query: request.query,
+      section: request.section,
+      results,
+      generatedAt: new Date().toISOString(),
+      index: resolved
+        ? { builtAt: resolved.index.builtAt, documents: resolved.index.documents.length, source: resolved.source }
+        : null,
+      aiConsulted: Boolean(ai),
+      aiError,
+      provider: ai?.provider,
+      promptVersion: ai?.promptVersion,
+    };
+    return respond(200, response);
+  } catch (error) {
+    console.error('Search failed', error);
+    return respond(500, { message: 'Unable to run search' });
+  }
 };
@@ -0,0 +1,138 @@
+import { APIGatewayProxyEventV2, APIGatewayProxyResultV2 } from 'aws-lambda';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { SectionDefinition, clearSectionCache, findSection, loadSections } from './shared/sectionRegistry';
+
+interface PublicSection {
+  id: string;
+  label: string;
+  description: string;
+  keywords: string[];
+  displayOrder: number;
+}
+
+interface SectionListResponse {
+  sections: PublicSection[];
+  generatedAt: string;
+}
+
+const docClient = DynamoDBDocumentClient.from(new DynamoDBClient({}));
+const sectionsTableName = process.env.SECTIONS_TABLE_NAME ?? '';
+const sectionIdPattern = /^[a-z0-9][a-z0-9-]{1,39}$/;
+
+const headers = {
+  'Content-Type': 'application/json',
+  'Access-Control-Allow-Origin': '*',
+  'Cache-Control': 'no-store',
+};
+
+function respond(statusCode: number, body: unknown): APIGatewayProxyResultV2 {
+  return { statusCode, headers, body: JSON.stringify(body) };
+}
+
+function toPublic(section: SectionDefinition): PublicSection {
+  return {
+    id: section.id,
+    label: section.label,
+    description: section.description,
+    keywords: section.keywords,
+    displayOrder: section.displayOrder,
+  };
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((entry) => typeof entry === 'string');
+}
+
+function validateUpdate(body: Record<string, any>): string | null {
+  if (body.label !== undefined && (typeof body.label !== 'string' || !body.label.trim())) {
+    return 'label must be a non-empty string';
+  }
+  if (body.description !== undefined && typeof body.description !== 'string') {
+    return 'description must be a string';
+  }
+  if (body.keywords !== undefined && !isStringArray(body.keywords)) {
+    return 'keywords must be an array of strings';
+  }
+  if (body.patentCpcCodes !== undefined && !isStringArray(body.patentCpcCodes)) {
+    return 'patentCpcCodes must be an array of strings';
+  }
+  if (
+    body.feeds !== undefined &&
+    !(
+      Array.isArray(body.feeds) &&
+      body.feeds.every((feed: any) => /^https?:\/\//.test(typeof feed === 'string' ? feed : feed?.url ?? ''))
+    )
+  ) {
+    return 'feeds must be http(s) URLs or { url, publisher } objects';
+  }
+  if (body.enabled !== undefined && typeof body.enabled !== 'boolean') {
+    return 'enabled must be a boolean';
+  }
+  if (body.displayOrder !== undefined && !Number.isFinite(body.displayOrder)) {
+    return 'displayOrder must be a number';
+  }
+  return null;
+}
+
+async function listSections(event: APIGatewayProxyEventV2): Promise<APIGatewayProxyResultV2> {
+  const sections = await loadSections();
+  const includeDisabled = event.queryStringParameters?.includeDisabled === 'true';
+  const response: SectionListResponse = {
+    sections: sections.filter((section) => includeDisabled || section.enabled).map(toPublic),
+    generatedAt: new Date().toISOString(),
+  };
+  return respond(200, response);
+}
+
+async function putSection(sectionId: string, event: APIGatewayProxyEventV2): Promise<APIGatewayProxyResultV2> {
+  if (!sectionsTableName) {
+    return respond(503, { message: 'Section registry table is not configured' });
+  }
+  if (!sectionIdPattern.test(sectionId)) {
+    return respond(400, { message: 'sectionId must be 2-40 lowercase letters, digits or hyphens' });
+  }
+  let body: Record<string, any>;
+  try {
+    body = event.body ? JSON.parse(event.body) : {};
+  } catch (error) {
+    return respond(400, { message: 'Body must be valid JSON' });
+  }
+  const problem = validateUpdate(body);
+  if (problem) {
+    return respond(400, { message: problem });
+  }
+  if (!(await findSection(sectionId)) && !body.label) {
+    return respond(400, { message: 'New sections need a label' });
+  }
+
+  // Only the fields in the body are written, so `{ "enabled": false }` leaves the rest of the row as it was.
+  const fields = ['label', 'description', 'keywords', 'feeds', 'patentCpcCodes', 'enabled', 'displayOrder'].filter(
+    (field) => body[field] !== undefined,
+  );
+  const assignments = [...fields, 'updatedAt'];
+  await docClient.send(
+    new UpdateCommand({
+      TableName: sectionsTableName,
+      Key: { sectionId },
+      UpdateExpression: `SET ${assignments.map((field) => `#${field} = :${field}`).join(', ')}`,
+      ExpressionAttributeNames: Object.fromEntries(assignments.map((field) => [`#${field}`, field])),
+      ExpressionAttributeValues: {
+        ...Object.fromEntries(fields.map((field) => [`:${field}`, body[field]])),
+        ':updatedAt': new Date().toISOString(),
+      },
+    }),
+  );
+  clearSectionCache();
+  return respond(200, await findSection(sectionId));
+}
+
+export const handler = async (event: APIGatewayProxyEventV2): Promise<APIGatewayProxyResultV2> => {
+  const sectionId = event.pathParameters?.sectionId;
+  try {
+    return sectionId ? await putSection(decodeURIComponent(sectionId), event) : await listSections(event);
+  } catch (error) {
+    console.error('Failed to handle section registry request', error);
+    return respond(500, { message: 'Unable to load sections' });
+  }
+};
@@ -0,0 +1,335 @@
+import { AxiosError } from 'axios';
+import { TokenUsage, estimateTokens, isOverBudget, recordUsage } from './aiUsage';
+import { fixtureMode, httpClient } from './httpClient';
+import { recordMetric } from './metrics';
+import {
+  ParsedItems,
+  StructuredItem,
+  parseStructuredText,
+  structuredItemsInstruction,
+  structuredItemsSchema,
+  validateItems,
+} from './structuredOutput';
+
+export interface ProviderResult {
+  provider: string;
+  confidence: number;
+  items: StructuredItem[];
+}
+
+export interface ProviderInvocation {
+  prompt: string;
+  systemPrompt: string;
+  apiKey: string;
+  model: string;
+  timeoutMs: number;
+}
+
+export interface ProviderOutput {
+  parsed: ParsedItems;
+  confidence: number;
+  usage?: Omit<TokenUsage, 'estimated'>;
+  responseText?: string;
+}
+
+export interface AiProvider {
+  name: string;
+  secretField: string;
+  defaultModel: string;
+  invoke(invocation: ProviderInvocation): Promise<ProviderOutput>;
+}
+
+export interface CallOptions {
+  systemPrompt?: string;
+  section?: string;
+}
+
+export interface CascadeOptions extends CallOptions {
+  order?: string[];
+  exclude?: string[];
+}
+
+interface CircuitState {
+  failures: number;
+  openedAt?: number;
+}
+
+const defaultSystemPrompt = 'You are a technology news summarizer.';
+const defaultTimeoutMs = Number(process.env.AI_PROVIDER_TIMEOUT_MS ?? 15000);
+const maxRetries = Number(process.env.AI_PROVIDER_MAX_RETRIES ?? 2);
+const retryBaseDelayMs = Number(process.env.AI_PROVIDER_RETRY_BASE_MS ?? 400);
+const circuitFailureThreshold = Number(process.env.AI_CIRCUIT_FAILURE_THRESHOLD ?? 3);
+const circuitCooldownMs = Number(process.env.AI_CIRCUIT_COOLDOWN_MS ?? 60000);
+const callerName = process.env.AWS_LAMBDA_FUNCTION_NAME ?? 'local';
+
+const registry = new Map<string, AiProvider>();
+const circuits = new Map<string, CircuitState>();
+
+function parseJsonEnv<T>(name: string, fallback: T): T {
+  const raw = process.env[name];
+  if (!raw) {
+    return fallback;
+  }
+  try {
+    return JSON.parse(raw) as T;
+  } catch (error) {
+    console.warn(`Ignoring malformed ${name}`, error);
+    return fallback;
+  }
+}
+
+const modelOverrides = parseJsonEnv<Record<string, string>>('AI_PROVIDER_MODELS', {});
+const timeoutOverrides = parseJsonEnv<Record<string, number>>('AI_PROVIDER_TIMEOUTS', {});
+
+function structuredPrompt(query: string): string {
+  return `${query}\n\n${structuredItemsInstruction}`;
+}
+
+export function registerProvider(provider: AiProvider): void {
+  registry.set(provider.name, provider);
+}
+
+export function providerOrder(): string[] {
+  const configured = (process.env.AI_PROVIDER_ORDER ?? '')
+    .split(',')
+    .map((name) => name.trim())
+    .filter((name) => registry.has(name));
+  return configured.length > 0 ? configured : Array.from(registry.keys());
+}
+
+function reportParse(provider: string, parsed: ParsedItems): void {
+  const failures = parsed.discarded + (parsed.malformed ? 1 : 0);
+  if (failures > 0) {
+    console.warn(`${provider} returned malformed structured output`, {
+      discarded: parsed.discarded,
+      malformed: parsed.malformed,
+    });
+  }
+  recordMetric('AiParseFailures', failures, { Provider: provider });
+}
+
+function reportCall(provider: string, outcome: string, latencyMs: number, attempts: number): void {
+  console.info('AI provider call', { provider, outcome, latencyMs, attempts, caller: callerName });
+  recordMetric('AiProviderCalls', 1, { Provider: provider, Outcome: outcome });
+  recordMetric('AiProviderLatency', latencyMs, { Provider: provider }, 'Milliseconds');
+}
+
+function isCircuitOpen(provider: string): boolean {
+  const state = circuits.get(provider);
+  if (!state?.openedAt) {
+    return false;
+  }
+  if (Date.now() - state.openedAt >= circuitCooldownMs) {
+    circuits.set(provider, { failures: circuitFailureThreshold - 1 });
+    return false;
+  }
+  return true;
+}
+
+function recordOutcome(provider: string, success: boolean): void {
+  if (success) {
+    circuits.set(provider, { failures: 0 });
+    return;
+  }
+  const failures = (circuits.get(provider)?.failures ?? 0) + 1;
+  circuits.set(provider, {
+    failures,
+    openedAt: failures >= circuitFailureThreshold ? Date.now() : undefined,
+  });
+  if (failures === circuitFailureThreshold) {
+    console.warn(`Circuit opened for ${provider} after ${failures} consecutive failures`);
+  }
+}
+
+function isRetryable(error: unknown): boolean {
+  const axiosError = error as AxiosError;
+  const status = axiosError.response?.status;
+  if (status !== undefined) {
+    return status === 429 || status >= 500;
+  }
+  return axiosError.code === 'ECONNABORTED' || axiosError.code === 'ETIMEDOUT' || axiosError.code === 'ECONNRESET';
+}
+
+function retryDelay(error: unknown, attempt: number): number {
+  const retryAfter = Number((error as AxiosError).response?.headers?.['retry-after']);
+  if (Number.isFinite(retryAfter) && retryAfter > 0) {
+    return Math.min(retryAfter * 1000, 5000);
+  }
+  return retryBaseDelayMs * 2 ** attempt + Math.floor(Math.random() * retryBaseDelayMs);
+}
+
+function resolveUsage(output: ProviderOutput, prompt: string, systemPrompt: string): TokenUsage {
+  if (output.usage) {
+    return { ...output.usage, estimated: false };
+  }
+  return {
+    inputTokens: estimateTokens(`${systemPrompt}\n${prompt}`),
+    outputTokens: estimateTokens(
+      output.responseText ?? output.parsed.items.map((item) => `${item.title} ${item.summary}`).join('\n'),
+    ),
+    estimated: true,
+  };
+}
+
+export async function callProvider(
+  name: string,
+  prompt: string,
+  secrets: object,
+  options: CallOptions = {},
+): Promise<ProviderResult | null> {
+  const systemPrompt = options.systemPrompt ?? defaultSystemPrompt;
+  const provider = registry.get(name);
+  const apiKey = provider ? (secrets as Record<string, unknown>)[provider.secretField] : undefined;
+  if (!provider || typeof apiKey !== 'string' || apiKey.length === 0) {
+    return null;
+  }
+  if (isCircuitOpen(name)) {
+    reportCall(name, 'circuit-open', 0, 0);
+    return null;
+  }
+  // A replayed call spends nothing, so it neither counts against the budgets nor gets skipped by them.
+  const replaying = fixtureMode() === 'replay';
+  if (!replaying && (await isOverBudget(name))) {
+    reportCall(name, 'budget-exceeded', 0, 0);
+    return null;
+  }
+
+  const startedAt = Date.now();
+  for (let attempt = 0; ; attempt += 1) {
+    try {
+      const output = await provider.invoke({
+        prompt,
+        systemPrompt,
+        apiKey,
+        model: modelOverrides[name] ?? provider.defaultModel,
+        timeoutMs: timeoutOverrides[name] ?? defaultTimeoutMs,
+      });
+      const latencyMs = Date.now() - startedAt;
+      reportParse(name, output.parsed);
+      recordOutcome(name, true);
+      reportCall(name, 'success', latencyMs, attempt + 1);
+      if (!replaying) {
+        await recordUsage({
+          provider: name,
+          caller: callerName,
+          section: options.section,
+          usage: resolveUsage(output, prompt, systemPrompt),
+          latencyMs,
+        });
+      }
+      return { provider: name, confidence: output.confidence, items: output.parsed.items };
+    } catch (error) {
+      if (attempt < maxRetries && isRetryable(error)) {
+        await new Promise((resolve) => setTimeout(resolve, retryDelay(error, attempt)));
+        continue;
+      }
+      recordOutcome(name, false);
+      reportCall(name, 'error', Date.now() - startedAt, attempt + 1);
+      console.warn(`${name} failure`, (error as AxiosError).message ?? `${name} call failed`);
+      throw error;
+    }
+  }
+}
+
+export async function runCascade(
+  prompt: string,
+  secrets: object,
+  options: CascadeOptions = {},
+): Promise<ProviderResult | null> {
+  const order = (options.order ?? providerOrder()).filter((name) => !options.exclude?.includes(name));
+  let firstEmpty: ProviderResult | null = null;
+  for (const name of order) {
+    try {
+      const result = await callProvider(name, prompt, secrets, options);
+      if (result && result.items.length > 0) {
+        return result;
+      }
+      firstEmpty = firstEmpty ?? result;
+    } catch (error) {
+      console.info(`Falling back from ${name} to the next provider`);
+    }
+  }
+  return firstEmpty;
+}
+
+registerProvider({
+  name: 'perplexity',
+  secretField: 'perplexityApiKey',
+  defaultModel: 'search',
+  async invoke({ prompt, apiKey, timeoutMs }) {
+    const response = await httpClient.post(
+      'https://api.perplexity.ai/search',
+      { query: prompt, max_results: 10 },
+      { headers: { Authorization: `Bearer ${apiKey}` }, timeout: timeoutMs },
+    );
+    return {
+      parsed: validateItems(response.data?.results ?? []),
+      confidence: response.data?.confidence ?? 0.75,
+      responseText: JSON.stringify(response.data?.results ?? []),
+    };
+  },
+});
+
+registerProvider({
+  name: 'gemini',
+  secretField: 'geminiApiKey',
+  defaultModel: 'gemini-pro',
+  async invoke({ prompt, systemPrompt, apiKey, model, timeoutMs }) {
+    const response = await httpClient.post(
+      `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`,
+      {
+        systemInstruction: { parts: [{ text: systemPrompt }] },
+        contents: [
+          {
+            parts: [{ text: structuredPrompt(prompt) }],
+          },
+        ],
+        generationConfig: {
+          responseMimeType: 'application/json',
+          responseSchema: structuredItemsSchema,
+        },
+      },
+      { timeout: timeoutMs },
+    );
+    const text = (response.data?.candidates?.[0]?.content?.parts ?? [])
+      .map((part: any) => part?.text ?? '')
+      .join('');
+    const usage = response.data?.usageMetadata;
+    return {
+      parsed: parseStructuredText(text),
+      confidence: 0.7,
+      responseText: text,
+      usage: usage
+        ? { inputTokens: usage.promptTokenCount ?? 0, outputTokens: usage.candidatesTokenCount ?? 0 }
+        : undefined,
+    };
+  },
+});
+
+registerProvider({
+  name: 'chatgpt',
+  secretField: 'chatGptApiKey',
+  defaultModel: 'gpt-4o-mini',
+  async invoke({ prompt, systemPrompt, apiKey, model, timeoutMs }) {
+    const response = await httpClient.post(
+      'https://api.openai.com/v1/chat/completions',
+      {
+        model,
+        response_format: { type: 'json_object' },
+        messages: [
+          { role: 'system', content: `${systemPrompt}\n${structuredItemsInstruction}` },
+          { role: 'user', content: prompt },
+        ],
+      },
+      { headers: { Authorization: `Bearer ${apiKey}` }, timeout: timeoutMs },
+    );
+    const content = response.data?.choices?.[0]?.message?.content;
+    const usage = response.data?.usage;
+    return {
+      parsed: parseStructuredText(content),
+      confidence: 0.6,
+      responseText: content,
+      usage: usage ? { inputTokens: usage.prompt_tokens ?? 0, outputTokens: usage.completion_tokens ?? 0 } : undefined,
+    };
+  },
+});
@@ -0,0 +1,196 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand, PutCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { randomUUID } from 'crypto';
+import { recordMetric } from './metrics';
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  estimated: boolean;
+}
+
+export interface UsageEntry {
+  provider: string;
+  caller: string;
+  section?: string;
+  usage: TokenUsage;
+  latencyMs: number;
+}
+
+export interface ProviderPricing {
+  inputPerMillion?: number;
+  outputPerMillion?: number;
+  perRequest?: number;
+}
+
+export interface ProviderBudget {
+  dailyUsd?: number;
+  monthlyUsd?: number;
+}
+
+interface SpendSnapshot {
+  daily: number;
+  monthly: number;
+  fetchedAt: number;
+}
+
+const docClient = DynamoDBDocumentClient.from(new DynamoDBClient({}));
+const usageTableName = process.env.AI_USAGE_TABLE_NAME ?? '';
+const spendRefreshMs = Number(process.env.AI_BUDGET_REFRESH_MS ?? 30000);
+const callRecordTtlDays = 180;
+
+const defaultPricing: Record<string, ProviderPricing> = {
+  perplexity: { perRequest: 0.005 },
+  gemini: { inputPerMillion: 0.5, outputPerMillion: 1.5 },
+  chatgpt: { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+};
+
+function parseJsonEnv<T>(name: string, fallback: T): T {
+  const raw = process.env[name];
+  if (!raw) {
+    return fallback;
+  }
+  try {
+    return JSON.parse(raw) as T;
+  } catch (error) {
+    console.warn(`Ignoring malformed ${name}`, error);
+    return fallback;
+  }
+}
+
+const pricing: Record<string, ProviderPricing> = {
+  ...defaultPricing,
+  ...parseJsonEnv<Record<string, ProviderPricing>>('AI_PROVIDER_PRICING', {}),
+};
+const budgets = parseJsonEnv<Record<string, ProviderBudget>>('AI_PROVIDER_BUDGETS', {});
+const spendCache = new Map<string, SpendSnapshot>();
+
+export function budgetFor(provider: string): ProviderBudget | undefined {
+  return budgets[provider];
+}
+
+export function estimateTokens(text: string | undefined): number {
+  return text ? Math.ceil(text.length / 4) : 0;
+}
+
+export function estimateCost(provider: string, usage: TokenUsage): number {
+  const price = pricing[provider] ?? {};
+  const cost =
+    (price.perRequest ?? 0) +
+    (usage.inputTokens / 1_000_000) * (price.inputPerMillion ?? 0) +
+    (usage.outputTokens / 1_000_000) * (price.outputPerMillion ?? 0);
+  return Math.round(cost * 1_000_000) / 1_000_000;
+}
+
+export function usageDay(at: Date = new Date()): string {
+  return at.toISOString().slice(0, 10);
+}
+
+export function usageMonth(at: Date = new Date()): string {
+  return at.toISOString().slice(0, 7);
+}
+
+async function readSpend(provider: string): Promise<SpendSnapshot> {
+  const cached = spendCache.get(provider);
+  if (cached && Date.now() - cached.fetchedAt < spendRefreshMs) {
+    return cached;
+  }
+  const [daily, monthly] = await Promise.all(
+    [usageDay(), usageMonth()].map((period) =>
+      docClient.send(
+        new GetCommand({
+          TableName: usageTableName,
+          Key: { usagePeriod: `${provider}#${period}`, recordId: '#TOTAL' },
+          ProjectionExpression: 'costUsd',
+        }),
+      ),
+    ),
+  );
+  const snapshot = {
+    daily: Number(daily.Item?.costUsd ?? 0),
+    monthly: Number(monthly.Item?.costUsd ?? 0),
+    fetchedAt: Date.now(),
+  };
+  spendCache.set(provider, snapshot);
+  return snapshot;
+}
+
+// A failed lookup never blocks a call: budgets protect quotas, they are not a hard dependency.
+export async function isOverBudget(provider: string): Promise<boolean> {
+  const budget = budgets[provider];
+  if (!usageTableName || !budget || (budget.dailyUsd === undefined && budget.monthlyUsd === undefined)) {
+    return false;
+  }
+  try {
+    const spend = await readSpend(provider);
+    return (
+      (budget.dailyUsd !== undefined && spend.daily >= budget.dailyUsd) ||
+      (budget.monthlyUsd !== undefined && spend.monthly >= budget.monthlyUsd)
+    );
+  } catch (error) {
+    console.warn(`Unable to read AI spend for ${provider}`, (error as Error).message);
+    return false;
+  }
+}
+
+function addToCounter(usagePeriod: string, recordId: string, entry: UsageEntry, costUsd: number) {
+  return docClient.send(
+    new UpdateCommand({
+      TableName: usageTableName,
+      Key: { usagePeriod, recordId },
+      UpdateExpression: 'ADD calls :one, inputTokens :in, outputTokens :out, costUsd :cost SET provider = :provider',
+      ExpressionAttributeValues: {
+        ':one': 1,
+        ':in': entry.usage.inputTokens,
+        ':out': entry.usage.outputTokens,
+        ':cost': costUsd,
+        ':provider': entry.provider,
+      },
+    }),
+  );
+}
+
+export async function recordUsage(entry: UsageEntry): Promise<void> {
+  const costUsd = estimateCost(entry.provider, entry.usage);
+  recordMetric('AiTokens', entry.usage.inputTokens + entry.usage.outputTokens, { Provider: entry.provider });
+  recordMetric('AiCostMicroUsd', Math.round(costUsd * 1_000_000), { Provider: entry.provider });
+
+  const cached = spendCache.get(entry.provider);
+  if (cached) {
+    spendCache.set(entry.provider, { ...cached, daily: cached.daily + costUsd, monthly: cached.monthly + costUsd });
+  }
+  if (!usageTableName) {
+    return;
+  }
+
+  const now = new Date();
+  const dailyKey = `${entry.provider}#${usageDay(now)}`;
+  try {
+    await Promise.all([
+      docClient.send(
+        new PutCommand({
+          TableName: usageTableName,
+          Item: {
+            usagePeriod: dailyKey,
+            recordId: `${now.toISOString()}#${randomUUID().slice(0, 8)}`,
+            provider: entry.provider,
+            caller: entry.caller,
+            section: entry.section ?? 'none',
+            inputTokens: entry.usage.inputTokens,
+            outputTokens: entry.usage.outputTokens,
+            estimatedTokens: entry.usage.estimated,
+            costUsd,
+            latencyMs: entry.latencyMs,
+            ttl: Math.floor(now.getTime() / 1000) + callRecordTtlDays * 24 * 60 * 60,
+          },
+        }),
+      ),
+      addToCounter(dailyKey, '#TOTAL', entry, costUsd),
+      addToCounter(dailyKey, `#CALLER#${entry.caller}`, entry, costUsd),
+      addToCounter(dailyKey, `#SECTION#${entry.section ?? 'none'}`, entry, costUsd),
+      addToCounter(`${entry.provider}#${usageMonth(now)}`, '#TOTAL', entry, costUsd),
+    ]);
+  } catch (error) {
+    console.warn(`Unable to record AI usage for ${entry.provider}`, (error as Error).message);
+  }
+}
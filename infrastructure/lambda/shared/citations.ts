@@ -0,0 +1,68 @@
+import { canonicalUrl } from './clustering';
+import { hostnameOf } from './verification';
+
+export interface Citation {
+  publisher?: string;
+  url: string;
+  title?: string;
+  retrievedAt: string;
+  quote?: string;
+}
+
+const maxQuoteLength = 280;
+const maxCitationsPerItem = 8;
+
+function toQuote(text?: string): string | undefined {
+  const trimmed = text?.replace(/\s+/g, ' ').trim();
+  if (!trimmed) {
+    return undefined;
+  }
+  if (trimmed.length <= maxQuoteLength) {
+    return trimmed;
+  }
+  const cut = trimmed.slice(0, maxQuoteLength);
+  return `${cut.slice(0, cut.lastIndexOf(' ') > 0 ? cut.lastIndexOf(' ') : maxQuoteLength)}…`;
+}
+
+export function citationFromArticle(
+  article: { title?: string; url?: string; summary?: string; publisher?: string },
+  retrievedAt: string,
+): Citation | null {
+  if (!article.url) {
+    return null;
+  }
+  return {
+    publisher: article.publisher ?? hostnameOf(article.url),
+    url: article.url,
+    title: article.title,
+    retrievedAt,
+    quote: toQuote(article.summary),
+  };
+}
+
+export function citationFromUrl(url: string, retrievedAt: string): Citation {
+  return { publisher: hostnameOf(url), url, retrievedAt };
+}
+
+export function mergeCitations(citations: Array<Citation | null | undefined>): Citation[] {
+  const merged = new Map<string, Citation>();
+  citations.forEach((citation) => {
+    if (!citation) {
+      return;
+    }
+    const key = canonicalUrl(citation.url) ?? citation.url;
+    const existing = merged.get(key);
+    merged.set(
+      key,
+      existing
+        ? {
+            ...existing,
+            publisher: existing.publisher ?? citation.publisher,
+            title: existing.title ?? citation.title,
+            quote: existing.quote ?? citation.quote,
+          }
+        : citation,
+    );
+  });
+  return Array.from(merged.values()).slice(0, maxCitationsPerItem);
+}
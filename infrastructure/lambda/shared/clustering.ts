@@ -0,0 +1,143 @@
+import { createHash } from 'crypto';
+import { sourceReputation, tokenize } from './verification';
+
+export interface ClusterableStory {
+  title: string;
+  summary: string;
+  url?: string;
+  publisher?: string;
+  publishedAt?: string;
+}
+
+export interface StoryCluster<T extends ClusterableStory> {
+  clusterId: string;
+  representative: T;
+  members: T[];
+}
+
+// A story already published under another period of the same section.
+export interface KnownStory extends ClusterableStory {
+  clusterId?: string;
+}
+
+export interface StoryAlternate {
+  title: string;
+  sourceUrl?: string;
+  publisher?: string;
+  publishedAt?: string;
+}
+
+const similarityThreshold = Number(process.env.CLUSTER_SIMILARITY_THRESHOLD ?? 0.5);
+
+const trackingParams = /^(utm_[a-z]+|fbclid|gclid|mc_cid|mc_eid|ref|cmpid|ocid|taid|smid)$/i;
+
+export function canonicalUrl(url?: string): string | undefined {
+  if (!url) {
+    return undefined;
+  }
+  try {
+    const parsed = new URL(url);
+    const params = Array.from(parsed.searchParams.entries())
+      .filter(([key]) => !trackingParams.test(key))
+      .sort(([a], [b]) => a.localeCompare(b));
+    const query = params.length > 0 ? `?${new URLSearchParams(params).toString()}` : '';
+    const host = parsed.hostname.replace(/^www\./, '').toLowerCase();
+    const pathname = parsed.pathname.replace(/\/(amp|index\.html?)?$/i, '') || '/';
+    return `${host}${pathname}${query}`;
+  } catch (error) {
+    return url.trim().toLowerCase();
+  }
+}
+
+function jaccard(a: string, b: string): number {
+  const left = new Set(tokenize(a));
+  const right = new Set(tokenize(b));
+  if (left.size === 0 || right.size === 0) {
+    return 0;
+  }
+  const intersection = Array.from(left).filter((token) => right.has(token)).length;
+  return intersection / (left.size + right.size - intersection);
+}
+
+export function storySimilarity(a: ClusterableStory, b: ClusterableStory): number {
+  const left = canonicalUrl(a.url);
+  if (left && left === canonicalUrl(b.url)) {
+    return 1;
+  }
+  const titleScore = jaccard(a.title, b.title);
+  if (!a.summary || !b.summary) {
+    return titleScore;
+  }
+  return Math.max(titleScore, 0.7 * titleScore + 0.3 * jaccard(a.summary, b.summary));
+}
+
+function pickRepresentative<T extends ClusterableStory>(members: T[], knownUrls: Set<string>): T {
+  const isKnown = (story: T) => knownUrls.has(canonicalUrl(story.url) ?? '');
+  return [...members].sort((a, b) => {
+    const known = Number(isKnown(b)) - Number(isKnown(a));
+    if (known !== 0) {
+      return known;
+    }
+    const reputation = sourceReputation(b.url) - sourceReputation(a.url);
+    if (reputation !== 0) {
+      return reputation;
+    }
+    return (a.publishedAt ?? '9999').localeCompare(b.publishedAt ?? '9999');
+  })[0];
+}
+
+function matchKnownStory(members: ClusterableStory[], known: KnownStory[]): KnownStory | undefined {
+  let best: { story: KnownStory; score: number } | null = null;
+  for (const story of known) {
+    const score = Math.max(...members.map((member) => storySimilarity(story, member)));
+    if (score >= similarityThreshold && (!best || score > best.score)) {
+      best = { story, score };
+    }
+  }
+  return best?.story;
+}
+
+// Stories from the section's other periods anchor the clusters: a cluster that matches one keeps
+// its representative and cluster ID, so the story has one identity in every period it is listed in.
+export function clusterStories<T extends ClusterableStory>(
+  stories: T[],
+  known: KnownStory[] = [],
+): Array<StoryCluster<T>> {
+  const groups: T[][] = [];
+  stories.forEach((story) => {
+    let best: { group: T[]; score: number } | null = null;
+    for (const group of groups) {
+      const score = Math.max(...group.map((member) => storySimilarity(story, member)));
+      if (score >= similarityThreshold && (!best || score > best.score)) {
+        best = { group, score };
+      }
+    }
+    if (best) {
+      best.group.push(story);
+    } else {
+      groups.push([story]);
+    }
+  });
+
+  return groups.map((members) => {
+    const match = matchKnownStory(members, known);
+    const representative = pickRepresentative(members, new Set(match ? [canonicalUrl(match.url) ?? ''] : []));
+    const anchor = canonicalUrl(representative.url) ?? tokenize(representative.title).sort().join(' ');
+    return {
+      clusterId: match?.clusterId ?? createHash('sha256').update(anchor).digest('hex').slice(0, 16),
+      representative,
+      members,
+    };
+  });
+}
+
+export function toAlternates<T extends ClusterableStory>(cluster: StoryCluster<T>): StoryAlternate[] {
+  return cluster.members
+    .filter((member) => member !== cluster.representative)
+    .map((member) => ({
+      title: member.title,
+      ...(member.url ? { sourceUrl: member.url } : {}),
+      ...(member.publisher ? { publisher: member.publisher } : {}),
+      ...(member.publishedAt ? { publishedAt: member.publishedAt } : {}),
+    }));
+}
@@ -0,0 +1,114 @@
+import { ConditionalCheckFailedException, DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { createHash } from 'crypto';
+import { canonicalUrl } from './clustering';
+
+export type ContentKind = 'news' | 'patent';
+
+export interface StoredItem {
+  itemId: string;
+  item: Record<string, any>;
+  section: string;
+  placements: string[];
+  snapshots: string[];
+  firstSeenAt: string;
+  lastSeenAt: string;
+}
+
+const docClient = DynamoDBDocumentClient.from(new DynamoDBClient({}), {
+  marshallOptions: { removeUndefinedValues: true },
+});
+const contentItemsTableName = process.env.CONTENT_ITEMS_TABLE_NAME ?? '';
+
+// Same story, same ID: derived from the canonical URL (tracking params stripped) or, failing that, the normalised title.
+export function stableItemId(kind: ContentKind, source: { url?: string; title: string }): string {
+  const identity = canonicalUrl(source.url) ?? source.title.toLowerCase().replace(/\s+/g, ' ').trim();
+  const digest = createHash('sha256').update(identity).digest('hex').slice(0, 16);
+  return kind === 'patent' ? `p${digest}` : `n${digest}`;
+}
+
+export async function recordItems(
+  items: Array<{ id: string } & Record<string, any>>,
+  section: string,
+  timePeriod: string,
+  snapshot: string,
+  seenAt: string,
+): Promise<void> {
+  if (!contentItemsTableName || items.length === 0) {
+    return;
+  }
+  const results = await Promise.allSettled(
+    items.map((item) =>
+      docClient.send(
+        new UpdateCommand({
+          TableName: contentItemsTableName,
+          Key: { itemId: item.id },
+          UpdateExpression:
+            'SET #item = :item, #section = :section, lastSeenAt = :seenAt, firstSeenAt = if_not_exists(firstSeenAt, :seenAt) ' +
+            'ADD placements :placement, snapshots :snapshot',
+          ExpressionAttributeNames: { '#item': 'item', '#section': 'section' },
+          ExpressionAttributeValues: {
+            ':item': item,
+            ':section': section,
+            ':seenAt': seenAt,
+            ':placement': new Set([`${section}#${timePeriod}`]),
+            ':snapshot': new Set([snapshot]),
+          },
+        }),
+      ),
+    ),
+  );
+  const failures = results.filter((result) => result.status === 'rejected').length;
+  if (failures > 0) {
+    console.warn(`Content items: ${failures}/${items.length} writes failed for ${section}#${timePeriod}`);
+  }
+}
+
+export async function loadItem(itemId: string): Promise<StoredItem | null> {
+  if (!contentItemsTableName) {
+    return null;
+  }
+  const result = await docClient.send(new GetCommand({ TableName: contentItemsTableName, Key: { itemId } }));
+  if (!result.Item) {
+    return null;
+  }
+  return {
+    itemId,
+    item: result.Item.item,
+    section: result.Item.section,
+    placements: Array.from((result.Item.placements as Set<string> | undefined) ?? []).sort(),
+    snapshots: Array.from((result.Item.snapshots as Set<string> | undefined) ?? []).sort().reverse(),
+    firstSeenAt: result.Item.firstSeenAt,
+    lastSeenAt: result.Item.lastSeenAt,
+  };
+}
+
+// Only refreshes a field on items already recorded; the condition stops a stray update from creating a bare row.
+export async function updateItemField(
+  updates: Array<{ itemId: string; value: unknown }>,
+  field: string,
+): Promise<void> {
+  if (!contentItemsTableName || updates.length === 0) {
+    return;
+  }
+  const results = await Promise.allSettled(
+    updates.map(({ itemId, value }) =>
+      docClient.send(
+        new UpdateCommand({
+          TableName: contentItemsTableName,
+          Key: { itemId },
+          UpdateExpression: 'SET #item.#field = :value',
+          ConditionExpression: 'attribute_exists(itemId)',
+          ExpressionAttributeNames: { '#item': 'item', '#field': field },
+          ExpressionAttributeValues: { ':value': value },
+        }),
+      ),
+    ),
+  );
+  const failures = results.filter(
+    (result) => result.status === 'rejected' && !(result.reason instanceof ConditionalCheckFailedException),
+  ).length;
+  if (failures > 0) {
+    console.warn(`Content items: ${failures}/${updates.length} ${field} updates failed`);
+  }
+}
@@ -0,0 +1,196 @@
+import { ConditionalCheckFailedException, DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { updateItemField } from './contentItems';
+import { EntityTag, extractEntities } from './entityTags';
+import { tokenize } from './verification';
+
+export interface ContentLink {
+  id: string;
+  title: string;
+  url?: string;
+  score: number;
+  reasons: string[];
+}
+
+interface LinkableNews {
+  id: string;
+  title: string;
+  summary?: string;
+  sourceUrl?: string;
+  entities?: EntityTag[];
+  relatedPatents?: ContentLink[];
+}
+
+interface LinkablePatent {
+  id: string;
+  title: string;
+  abstract?: string;
+  summary?: string;
+  assignees?: string[];
+  sourceUrl?: string;
+  entities?: EntityTag[];
+  inTheNews?: ContentLink[];
+}
+
+const docClient = DynamoDBDocumentClient.from(new DynamoDBClient({}), {
+  marshallOptions: { removeUndefinedValues: true },
+});
+const tableName = process.env.CONTENT_CACHE_TABLE_NAME ?? '';
+const minScore = 3;
+const maxLinksPerItem = 3;
+const weights = {
+  assignee: 3,
+  entity: 2,
+  term: 0.5,
+  maxTerms: 2,
+};
+
+// Words every patent title uses; matching on them would link everything to everything.
+const genericTerms = new Set([
+  'system', 'method', 'apparatu', 'device', 'using', 'based', 'thereof', 'process', 'control', 'network', 'data',
+  'model', 'technique', 'module', 'structure', 'generation', 'management',
+]);
+
+const corporateSuffixes = /\b(inc|incorporated|corp|corporation|llc|ltd|limited|co|company|gmbh|ag|plc|holdings|sa|nv)\b\.?/g;
+
+export function assigneeName(assignee: string): string {
+  return assignee
+    .toLowerCase()
+    .replace(corporateSuffixes, '')
+    .replace(/[^a-z0-9&\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function terms(text: string): Set<string> {
+  return new Set(tokenize(text).filter((token) => token.length >= 5 && !genericTerms.has(token)));
+}
+
+function matchPair(news: LinkableNews, patent: LinkablePatent): { score: number; reasons: string[] } {
+  const newsText = `${news.title}. ${news.summary ?? ''}`;
+  const reasons: string[] = [];
+  let score = 0;
+
+  // Assignee names rarely appear verbatim in news ("International Business Machines" vs "IBM"), so the
+  // gazetteer's company tags and the name's initials are tried as well as the cleaned-up name.
+  const newsEntityIds = new Set((news.entities ?? extractEntities(newsText)).map((entity) => entity.id));
+  const lowerText = ` ${newsText.toLowerCase()} `;
+  const assignee = (patent.assignees ?? []).find((name) => {
+    const cleaned = assigneeName(name);
+    const companyTags = extractEntities(name).filter((entity) => entity.type === 'company');
+    const words = cleaned.split(' ');
+    const acronym = words.length >= 3 ? words.map((word) => word[0]).join('') : '';
+    const named = cleaned.length > 2 && lowerText.includes(` ${cleaned}`);
+    const abbreviated = acronym.length >= 3 && new RegExp(`\\b${acronym}\\b`).test(lowerText);
+    return named || abbreviated || companyTags.some((tag) => newsEntityIds.has(tag.id));
+  });
+  if (assignee) {
+    score += weights.assignee;
+    reasons.push(`Assignee ${assignee}`);
+  }
+
+  const patentEntities = patent.entities ?? extractEntities(`${patent.title}. ${patent.abstract ?? ''}`);
+  patentEntities
+    .filter((entity) => newsEntityIds.has(entity.id) && !(assignee && entity.type === 'company'))
+    .forEach((entity) => {
+      score += weights.entity;
+      reasons.push(entity.name);
+    });
+
+  const newsTerms = terms(newsText);
+  const patentTerms = terms(`${patent.title} ${patent.summary ?? patent.abstract ?? ''}`);
+  const shared = Array.from(patentTerms).filter((term) => newsTerms.has(term));
+  if (shared.length > 0) {
+    score += Math.min(weights.maxTerms, shared.length * weights.term);
+    reasons.push(`Terms: ${shared.slice(0, 4).join(', ')}`);
+  }
+  return { score, reasons };
+}
+
+interface ScoredMatch {
+  item: LinkableNews | LinkablePatent;
+  score: number;
+  reasons: string[];
+}
+
+function topLinks(matches: ScoredMatch[]): ContentLink[] {
+  return matches
+    .sort((a, b) => b.score - a.score)
+    .slice(0, maxLinksPerItem)
+    .map(({ item, score, reasons }) => ({ id: item.id, title: item.title, url: item.sourceUrl, score, reasons }));
+}
+
+export function linkContent<N extends LinkableNews, P extends LinkablePatent>(
+  news: N[],
+  patents: P[],
+): { news: N[]; patents: P[] } {
+  const matches = news.flatMap((story) =>
+    patents
+      .map((patent) => ({ story, patent, ...matchPair(story, patent) }))
+      .filter((match) => match.score >= minScore),
+  );
+  return {
+    news: news.map((story) => ({
+      ...story,
+      relatedPatents: topLinks(
+        matches.filter((match) => match.story.id === story.id).map((match) => ({ ...match, item: match.patent })),
+      ),
+    })),
+    patents: patents.map((patent) => ({
+      ...patent,
+      inTheNews: topLinks(
+        matches.filter((match) => match.patent.id === patent.id).map((match) => ({ ...match, item: match.story })),
+      ),
+    })),
+  };
+}
+
+// News and patents are refreshed by different Lambdas, so whichever finishes last relinks the shared row. The write
+// only lands if neither array changed since the read; a losing writer leaves the linking to the refresh that beat it.
+export async function relinkCachedContent(sectionPeriod: string): Promise<void> {
+  if (!tableName) {
+    return;
+  }
+  const result = await docClient.send(new GetCommand({ TableName: tableName, Key: { sectionPeriod } }));
+  const row = result.Item;
+  if (!row || !Array.isArray(row.newsArray) || !Array.isArray(row.patentsArray)) {
+    return;
+  }
+  if (!row.newsVerifiedAt || !row.patentsVerifiedAt) {
+    return;
+  }
+  const linked = linkContent(row.newsArray as LinkableNews[], row.patentsArray as LinkablePatent[]);
+  try {
+    await docClient.send(
+      new UpdateCommand({
+        TableName: tableName,
+        Key: { sectionPeriod },
+        UpdateExpression: 'SET newsArray = :news, patentsArray = :patents, linkedAt = :linkedAt',
+        ConditionExpression: 'newsVerifiedAt = :newsVerifiedAt AND patentsVerifiedAt = :patentsVerifiedAt',
+        ExpressionAttributeValues: {
+          ':news': linked.news,
+          ':patents': linked.patents,
+          ':linkedAt': new Date().toISOString(),
+          ':newsVerifiedAt': row.newsVerifiedAt,
+          ':patentsVerifiedAt': row.patentsVerifiedAt,
+        },
+      }),
+    );
+  } catch (error) {
+    if (error instanceof ConditionalCheckFailedException) {
+      console.info(`Skipped relinking ${sectionPeriod}; it changed while linking`);
+      return;
+    }
+    throw error;
+  }
+  await Promise.all([
+    updateItemField(
+      linked.news.map((story) => ({ itemId: story.id, value: story.relatedPatents })),
+      'relatedPatents',
+    ),
+    updateItemField(
+      linked.patents.map((patent) => ({ itemId: patent.id, value: patent.inTheNews })),
+      'inTheNews',
+    ),
+  ]);
+}
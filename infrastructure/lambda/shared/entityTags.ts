@@ -0,0 +1,178 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+
+export type EntityType = 'company' | 'technology' | 'person';
+
+export interface EntityTag {
+  id: string;
+  name: string;
+  type: EntityType;
+}
+
+export interface IndexableContent {
+  kind: 'news' | 'patent';
+  id: string;
+  title: string;
+  summary: string;
+  sourceUrl?: string;
+  publishedAt?: string;
+  entities?: EntityTag[];
+}
+
+interface GazetteerEntry {
+  name: string;
+  type: EntityType;
+  aliases: string[];
+}
+
+const docClient = DynamoDBDocumentClient.from(new DynamoDBClient({}), {
+  marshallOptions: { removeUndefinedValues: true },
+});
+const entityIndexTableName = process.env.ENTITY_INDEX_TABLE_NAME ?? '';
+const maxEntitiesPerItem = 8;
+
+const gazetteer: GazetteerEntry[] = [
+  { name: 'NVIDIA', type: 'company', aliases: ['nvidia'] },
+  { name: 'OpenAI', type: 'company', aliases: ['openai'] },
+  { name: 'Anthropic', type: 'company', aliases: ['anthropic'] },
+  { name: 'Google', type: 'company', aliases: ['google', 'alphabet', 'google deepmind', 'deepmind'] },
+  { name: 'Microsoft', type: 'company', aliases: ['microsoft'] },
+  { name: 'Meta', type: 'company', aliases: ['meta platforms', 'meta ai', 'facebook'] },
+  { name: 'Apple', type: 'company', aliases: ['apple'] },
+  { name: 'Amazon', type: 'company', aliases: ['amazon', 'aws', 'amazon web services'] },
+  { name: 'IBM', type: 'company', aliases: ['ibm'] },
+  { name: 'Intel', type: 'company', aliases: ['intel'] },
+  { name: 'AMD', type: 'company', aliases: ['amd'] },
+  { name: 'Qualcomm', type: 'company', aliases: ['qualcomm'] },
+  { name: 'Samsung', type: 'company', aliases: ['samsung'] },
+  { name: 'TSMC', type: 'company', aliases: ['tsmc', 'taiwan semiconductor'] },
+  { name: 'Arm', type: 'company', aliases: ['arm holdings'] },
+  { name: 'Tesla', type: 'company', aliases: ['tesla'] },
+  { name: 'Mistral AI', type: 'company', aliases: ['mistral ai', 'mistral'] },
+  { name: 'Hugging Face', type: 'company', aliases: ['hugging face'] },
+  { name: 'Cisco', type: 'company', aliases: ['cisco'] },
+  { name: 'Siemens', type: 'company', aliases: ['siemens'] },
+  { name: 'Bosch', type: 'company', aliases: ['bosch'] },
+  { name: 'Rigetti', type: 'company', aliases: ['rigetti'] },
+  { name: 'IonQ', type: 'company', aliases: ['ionq'] },
+  { name: 'Quantinuum', type: 'company', aliases: ['quantinuum'] },
+  { name: 'D-Wave', type: 'company', aliases: ['d-wave'] },
+  { name: 'PsiQuantum', type: 'company', aliases: ['psiquantum'] },
+  { name: 'Large language models', type: 'technology', aliases: ['large language model', 'large language models', 'llm', 'llms'] },
+  { name: 'Generative AI', type: 'technology', aliases: ['generative ai', 'genai'] },
+  { name: 'AI agents', type: 'technology', aliases: ['ai agent', 'ai agents', 'agentic ai'] },
+  { name: 'Transformers', type: 'technology', aliases: ['transformer model', 'transformer models', 'transformer architecture'] },
+  { name: 'Diffusion models', type: 'technology', aliases: ['diffusion model', 'diffusion models'] },
+  { name: 'Reinforcement learning', type: 'technology', aliases: ['reinforcement learning', 'rlhf'] },
+  { name: 'Computer vision', type: 'technology', aliases: ['computer vision'] },
+  { name: 'Federated learning', type: 'technology', aliases: ['federated learning'] },
+  { name: 'Neural networks', type: 'technology', aliases: ['neural network', 'neural networks', 'deep learning'] },
+  { name: 'GPUs', type: 'technology', aliases: ['gpu', 'gpus'] },
+  { name: 'AI accelerators', type: 'technology', aliases: ['ai accelerator', 'ai accelerators', 'ai chip', 'ai chips', 'tpu', 'tpus', 'npu'] },
+  { name: 'Edge computing', type: 'technology', aliases: ['edge computing', 'edge ai'] },
+  { name: 'Digital twins', type: 'technology', aliases: ['digital twin', 'digital twins'] },
+  { name: '5G', type: 'technology', aliases: ['5g'] },
+  { name: 'Matter', type: 'technology', aliases: ['matter protocol', 'matter standard'] },
+  { name: 'Smart home', type: 'technology', aliases: ['smart home', 'smart homes'] },
+  { name: 'Industrial IoT', type: 'technology', aliases: ['industrial iot', 'iiot'] },
+  { name: 'Qubits', type: 'technology', aliases: ['qubit', 'qubits'] },
+  { name: 'Error-correcting qubits', type: 'technology', aliases: ['error-correcting qubits', 'quantum error correction', 'logical qubits', 'logical qubit'] },
+  { name: 'Post-quantum cryptography', type: 'technology', aliases: ['post-quantum cryptography', 'post-quantum', 'pqc'] },
+  { name: 'Quantum advantage', type: 'technology', aliases: ['quantum advantage', 'quantum supremacy'] },
+  { name: 'Superconducting qubits', type: 'technology', aliases: ['superconducting qubit', 'superconducting qubits'] },
+  { name: 'Trapped ions', type: 'technology', aliases: ['trapped ion', 'trapped ions', 'trapped-ion'] },
+];
+
+const personRoles = 'CEO|CTO|founder|co-founder|chief scientist|researcher|professor|president|chairman|director';
+const personPatterns = [
+  new RegExp(`\\b(?:${personRoles})\\s+((?:[A-Z][a-z'’-]+\\s){1,2}[A-Z][a-z'’-]+)`, 'g'),
+  new RegExp(`\\b((?:[A-Z][a-z'’-]+\\s){1,2}[A-Z][a-z'’-]+),\\s+(?:the\\s+)?(?:[A-Za-z]+\\s+)?(?:${personRoles})\\b`, 'g'),
+];
+
+const aliasPatterns = gazetteer.map((entry) => ({
+  entry,
+  pattern: new RegExp(
+    `(^|[^a-z0-9])(${entry.aliases.map((alias) => alias.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|')})(?=$|[^a-z0-9])`,
+    'i',
+  ),
+}));
+
+export function tagId(name: string): string {
+  return name
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+export function extractEntities(text: string): EntityTag[] {
+  const found = new Map<string, EntityTag>();
+  aliasPatterns.forEach(({ entry, pattern }) => {
+    const match = text.match(pattern);
+    // Short aliases (AMD, AWS, 5G, IonQ) only count when capitalised, so lower-case words in prose do not tag.
+    if (match && (match[2].length > 4 || match[2] !== match[2].toLowerCase())) {
+      found.set(tagId(entry.name), { id: tagId(entry.name), name: entry.name, type: entry.type });
+    }
+  });
+  personPatterns.forEach((pattern) => {
+    Array.from(text.matchAll(pattern)).forEach((match) => {
+      const name = match[1].trim();
+      if (!found.has(tagId(name)) && !gazetteer.some((entry) => entry.name === name)) {
+        found.set(tagId(name), { id: tagId(name), name, type: 'person' });
+      }
+    });
+  });
+  return Array.from(found.values()).slice(0, maxEntitiesPerItem);
+}
+
+export function withEntities<T extends { title: string; summary: string }>(item: T): T & { entities: EntityTag[] } {
+  return { ...item, entities: extractEntities(`${item.title}. ${item.summary}`) };
+}
+
+// Item IDs are stable, so a story refreshed across periods keeps one row per tag that lists every section/period it appeared in.
+export async function indexEntities(items: IndexableContent[], section: string, timePeriod: string): Promise<void> {
+  if (!entityIndexTableName) {
+    return;
+  }
+  const indexedAt = new Date().toISOString();
+  const writes = items.flatMap((item) =>
+    (item.entities ?? []).flatMap((entity) => [
+      new UpdateCommand({
+        TableName: entityIndexTableName,
+        Key: { tagId: entity.id, refKey: `${item.kind}#${item.id}` },
+        UpdateExpression:
+          'SET #kind = :kind, itemId = :itemId, #title = :title, #summary = :summary, sourceUrl = :url, ' +
+          'publishedAt = :publishedAt, lastSection = :section, indexedAt = :indexedAt ADD placements :placement',
+        ExpressionAttributeNames: { '#kind': 'kind', '#title': 'title', '#summary': 'summary' },
+        ExpressionAttributeValues: {
+          ':kind': item.kind,
+          ':itemId': item.id,
+          ':title': item.title,
+          ':summary': item.summary,
+          ':url': item.sourceUrl ?? null,
+          ':publishedAt': item.publishedAt ?? indexedAt,
+          ':section': section,
+          ':indexedAt': indexedAt,
+          ':placement': new Set([`${section}#${timePeriod}`]),
+        },
+      }),
+      new UpdateCommand({
+        TableName: entityIndexTableName,
+        Key: { tagId: entity.id, refKey: '#META' },
+        UpdateExpression: 'SET #name = :name, entityType = :type, lastSeenAt = :indexedAt ADD sections :sections',
+        ExpressionAttributeNames: { '#name': 'name' },
+        ExpressionAttributeValues: {
+          ':name': entity.name,
+          ':type': entity.type,
+          ':indexedAt': indexedAt,
+          ':sections': new Set([section]),
+        },
+      }),
+    ]),
+  );
+  const results = await Promise.allSettled(writes.map((command) => docClient.send(command)));
+  const failures = results.filter((result) => result.status === 'rejected').length;
+  if (failures > 0) {
+    console.warn(`Entity index: ${failures}/${writes.length} writes failed for ${section}#${timePeriod}`);
+  }
+}
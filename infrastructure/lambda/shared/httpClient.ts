@@ -0,0 +1,247 @@
+import axios, { AxiosAdapter, AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import * as path from 'path';
+
+type FixtureMode = 'live' | 'record' | 'replay';
+
+export interface HttpExchange {
+  request: { method: string; url: string; body?: string };
+  response: { status: number; statusText: string; headers: Record<string, string>; data: unknown };
+  recordedAt: string;
+}
+
+export type ExchangeObserver = (exchange: HttpExchange) => void;
+
+const sensitiveParams = /^(key|apikey|api_key|appid|access_token|client_secret|code|token)$/i;
+const sensitiveHeaders = ['authorization', 'x-api-key', 'cookie', 'set-cookie'];
+
+// Dates and timestamps in a request move with the clock (NewsAPI's `from`, PatentsView's grant-date bound),
+// so they are masked before hashing: a fixture recorded yesterday still matches today's request.
+const volatileDates = /\d{4}-\d{2}-\d{2}(?:T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?/g;
+
+const observers: ExchangeObserver[] = [];
+let inMemoryFixtures: HttpExchange[] | null = null;
+const consumedFixtures = new Set<HttpExchange>();
+const missingFixtures: string[] = [];
+
+export function fixtureMode(): FixtureMode {
+  if (inMemoryFixtures) {
+    return 'replay';
+  }
+  const mode = (process.env.HTTP_FIXTURE_MODE ?? 'live').toLowerCase();
+  return mode === 'record' || mode === 'replay' ? mode : 'live';
+}
+
+function fixtureDir(): string {
+  return process.env.HTTP_FIXTURE_DIR ?? path.join(process.cwd(), 'fixtures', 'http');
+}
+
+export function withFixtureSecrets<T extends object>(secrets: T, fields: Array<keyof T>): T {
+  if (fixtureMode() !== 'replay') {
+    return secrets;
+  }
+  const filled = { ...secrets } as Record<keyof T, unknown>;
+  fields.forEach((field) => {
+    if (!filled[field]) {
+      filled[field] = 'fixture-replay';
+    }
+  });
+  return filled as T;
+}
+
+export function observeExchanges(observer: ExchangeObserver): void {
+  observers.push(observer);
+}
+
+export function loadReplayFixtures(exchanges: HttpExchange[]): void {
+  inMemoryFixtures = exchanges;
+  consumedFixtures.clear();
+}
+
+export function clearReplayFixtures(): void {
+  inMemoryFixtures = null;
+  consumedFixtures.clear();
+}
+
+// Requests that found no fixture during replay, as `METHOD url -> expected file`.
+export function unmatchedFixtures(): string[] {
+  return [...missingFixtures];
+}
+
+function redactUrl(config: InternalAxiosRequestConfig): URL {
+  const url = new URL(axios.getUri(config));
+  Array.from(url.searchParams.keys())
+    .filter((key) => sensitiveParams.test(key))
+    .forEach((key) => url.searchParams.set(key, 'REDACTED'));
+  url.searchParams.sort();
+  return url;
+}
+
+function redactBody(data: unknown): string | undefined {
+  if (data === undefined || data === null) {
+    return undefined;
+  }
+  const raw = typeof data === 'string' ? data : data instanceof URLSearchParams ? data.toString() : JSON.stringify(data);
+  if (data instanceof URLSearchParams || /^[\w.-]+=[^&]*(&[\w.-]+=[^&]*)*$/.test(raw)) {
+    const params = new URLSearchParams(raw);
+    Array.from(params.keys())
+      .filter((key) => sensitiveParams.test(key))
+      .forEach((key) => params.set(key, 'REDACTED'));
+    return params.toString();
+  }
+  return raw;
+}
+
+function fixturePrefix(method: string, url: URL): string {
+  const route = `${url.hostname}${url.pathname}`.replace(/[^a-zA-Z0-9.-]+/g, '_').replace(/_+$/, '');
+  return `${method}_${route}_`;
+}
+
+function fixtureName(config: InternalAxiosRequestConfig): { prefix: string; file: string; url: URL; body?: string } {
+  const method = (config.method ?? 'get').toUpperCase();
+  const url = redactUrl(config);
+  const body = redactBody(config.data);
+  const prefix = fixturePrefix(method, url);
+  return { prefix, file: `${prefix}${requestHash(method, url.toString(), body)}.json`, url, body };
+}
+
+function maskVolatile(value: string): string {
+  return value.replace(volatileDates, '<date>');
+}
+
+function requestHash(method: string, url: string, body?: string): string {
+  const parsed = new URL(url);
+  const params = Array.from(parsed.searchParams.entries()).map(([key, value]) => `${key}=${maskVolatile(value)}`);
+  const key = `${method} ${parsed.origin}${parsed.pathname}?${params.join('&')}\n${maskVolatile(body ?? '')}`;
+  return createHash('sha256').update(key).digest('hex').slice(0, 16);
+}
+
+// Archived runs can hit the same route several times (retries, cross-checks), so unmatched
+// requests take the next unused exchange for their route in the order it was captured.
+function takeInMemoryFixture(prefix: string, file: string): HttpExchange | null {
+  const candidates = (inMemoryFixtures ?? []).filter(
+    (exchange) => fixturePrefix(exchange.request.method, new URL(exchange.request.url)) === prefix,
+  );
+  const match =
+    candidates.find(
+      (exchange) =>
+        !consumedFixtures.has(exchange) &&
+        `${prefix}${requestHash(exchange.request.method, exchange.request.url, exchange.request.body)}.json` === file,
+    ) ??
+    candidates.find((exchange) => !consumedFixtures.has(exchange)) ??
+    candidates[0];
+  if (match) {
+    consumedFixtures.add(match);
+  }
+  return match ?? null;
+}
+
+function loadFixture(prefix: string, file: string): HttpExchange | null {
+  if (inMemoryFixtures) {
+    return takeInMemoryFixture(prefix, file);
+  }
+  // A fixture directory is replayed exactly: answering with another request's recording would hand
+  // every AI prompt the same canned answer.
+  const exact = path.join(fixtureDir(), file);
+  return existsSync(exact) ? (JSON.parse(readFileSync(exact, 'utf-8')) as HttpExchange) : null;
+}
+
+function toResponse(config: InternalAxiosRequestConfig, fixture: HttpExchange): AxiosResponse {
+  const response: AxiosResponse = {
+    data: fixture.response.data,
+    status: fixture.response.status,
+    statusText: fixture.response.statusText,
+    headers: fixture.response.headers,
+    config,
+    request: {},
+  };
+  const validate = config.validateStatus ?? ((status: number) => status >= 200 && status < 300);
+  if (!validate(response.status)) {
+    throw new AxiosError(
+      `Replayed fixture returned status ${response.status}`,
+      AxiosError.ERR_BAD_RESPONSE,
+      config,
+      {},
+      response,
+    );
+  }
+  return response;
+}
+
+const replayAdapter: AxiosAdapter = async (config) => {
+  const { prefix, file, url } = fixtureName(config);
+  const fixture = loadFixture(prefix, file);
+  if (!fixture) {
+    const request = `${config.method?.toUpperCase()} ${url}`;
+    missingFixtures.push(`${request} -> ${file}`);
+    console.error(`No HTTP fixture recorded for ${request} (expected ${file})`);
+    throw new AxiosError(`No HTTP fixture recorded for ${request}`, 'EFIXTURE_MISSING', config);
+  }
+  return toResponse(config, fixture);
+};
+
+function toExchange(config: InternalAxiosRequestConfig, response: AxiosResponse): HttpExchange {
+  const { url, body } = fixtureName(config);
+  const headers = Object.fromEntries(
+    Object.entries(response.headers ?? {})
+      .filter(([name]) => !sensitiveHeaders.includes(name.toLowerCase()))
+      .map(([name, value]) => [name, String(value)]),
+  );
+  return {
+    request: { method: (config.method ?? 'get').toUpperCase(), url: url.toString(), body },
+    response: { status: response.status, statusText: response.statusText, headers, data: response.data },
+    recordedAt: new Date().toISOString(),
+  };
+}
+
+function persistFixture(config: InternalAxiosRequestConfig, exchange: HttpExchange): void {
+  mkdirSync(fixtureDir(), { recursive: true });
+  writeFileSync(path.join(fixtureDir(), fixtureName(config).file), `${JSON.stringify(exchange, null, 2)}\n`);
+}
+
+function notifyObservers(exchange: HttpExchange): void {
+  observers.forEach((observer) => {
+    try {
+      observer(exchange);
+    } catch (error) {
+      console.warn('HTTP exchange observer failed', (error as Error).message);
+    }
+  });
+}
+
+// Replayed traffic is neither recorded nor observed: it is not a new upstream response.
+function liveAdapter(adapter: AxiosAdapter): AxiosAdapter {
+  return async (config) => {
+    const capture = (response: AxiosResponse) => {
+      if (fixtureMode() !== 'record' && observers.length === 0) {
+        return;
+      }
+      const exchange = toExchange(config, response);
+      if (fixtureMode() === 'record') {
+        persistFixture(config, exchange);
+      }
+      notifyObservers(exchange);
+    };
+    try {
+      const response = await adapter(config);
+      capture(response);
+      return response;
+    } catch (error) {
+      const response = (error as AxiosError).response;
+      if (response) {
+        capture(response);
+      }
+      throw error;
+    }
+  };
+}
+
+function createHttpClient() {
+  const client = axios.create();
+  const live = liveAdapter(axios.getAdapter(axios.defaults.adapter));
+  client.defaults.adapter = (config) => (fixtureMode() === 'replay' ? replayAdapter(config) : live(config));
+  return client;
+}
+
+export const httpClient = createHttpClient();
@@ -0,0 +1,152 @@
+import { hostnameOf } from './verification';
+
+export type SourceType = 'peer-reviewed' | 'preprint' | 'news' | 'press-release' | 'blog' | 'unknown';
+export type HypeLevel = 'low' | 'medium' | 'high';
+export type SentimentLabel = 'positive' | 'neutral' | 'negative';
+
+export interface HypeBreakdown {
+  level: HypeLevel;
+  sentimentLabel: SentimentLabel;
+  sourceType: SourceType;
+  language: number;
+  sourceRisk: number;
+  citationSupport: number;
+  cues: string[];
+}
+
+export interface ScorableItem {
+  title: string;
+  summary: string;
+  sourceUrl?: string;
+  citations?: Array<{ url: string }>;
+}
+
+const weights = {
+  language: 0.45,
+  source: 0.3,
+  unsupported: 0.25,
+};
+
+const sourceRisk: Record<SourceType, number> = {
+  'peer-reviewed': 0.05,
+  preprint: 0.3,
+  news: 0.4,
+  blog: 0.65,
+  unknown: 0.6,
+  'press-release': 0.95,
+};
+
+const sourceHosts: Array<{ type: SourceType; hosts: string[] }> = [
+  {
+    type: 'peer-reviewed',
+    hosts: ['nature.com', 'science.org', 'cell.com', 'pnas.org', 'ieee.org', 'acm.org', 'springer.com', 'sciencedirect.com', 'aps.org', 'thelancet.com'],
+  },
+  { type: 'preprint', hosts: ['arxiv.org', 'biorxiv.org', 'medrxiv.org', 'openreview.net', 'ssrn.com'] },
+  { type: 'press-release', hosts: ['prnewswire.com', 'businesswire.com', 'globenewswire.com', 'accesswire.com', 'einpresswire.com'] },
+  { type: 'blog', hosts: ['medium.com', 'substack.com', 'blogspot.com', 'wordpress.com', 'dev.to', 'hashnode.dev'] },
+  {
+    type: 'news',
+    hosts: ['technologyreview.com', 'reuters.com', 'apnews.com', 'bloomberg.com', 'ft.com', 'wired.com', 'arstechnica.com', 'theverge.com', 'techcrunch.com', 'venturebeat.com', 'thequantuminsider.com', 'iotforall.com', 'zdnet.com', 'theregister.com'],
+  },
+];
+
+const hypeCues = [
+  'revolutionary', 'revolutionize', 'game-changing', 'game changer', 'groundbreaking', 'unprecedented', "world's first",
+  'paradigm shift', 'disruptive', 'disrupt', 'breakthrough', 'miracle', 'superhuman', 'magic', 'mind-blowing',
+  'changes everything', 'next-generation', 'cutting-edge', 'best-in-class', 'industry-leading', 'unmatched',
+  'skyrocket', 'explode', 'limitless', 'the future of',
+];
+
+const hedgeCues = [
+  'peer-reviewed', 'preprint', 'preliminary', 'early results', 'suggests', 'according to', 'researchers found',
+  'study', 'published in', 'replicated', 'benchmark', 'however', 'limitations', 'not yet', 'may ', 'could ',
+];
+
+const positiveWords = new Set([
+  'improve', 'improves', 'improved', 'advance', 'advances', 'gain', 'gains', 'success', 'successful', 'efficient',
+  'faster', 'accurate', 'record', 'boost', 'boosts', 'win', 'wins', 'launch', 'launches', 'growth', 'breakthrough',
+  'promising', 'robust', 'secure', 'better', 'strong', 'outperforms', 'milestone',
+]);
+
+const negativeWords = new Set([
+  'risk', 'risks', 'fail', 'fails', 'failure', 'flaw', 'flaws', 'vulnerability', 'breach', 'lawsuit', 'ban', 'bans',
+  'delay', 'delays', 'decline', 'declines', 'loss', 'losses', 'layoffs', 'concern', 'concerns', 'warning', 'warns',
+  'bias', 'error', 'errors', 'outage', 'recall', 'probe', 'fine', 'fined', 'setback', 'weaker',
+]);
+
+function classifySource(url?: string): SourceType {
+  const hostname = hostnameOf(url);
+  if (!hostname) {
+    return 'unknown';
+  }
+  const match = sourceHosts.find(({ hosts }) => hosts.some((host) => hostname === host || hostname.endsWith(`.${host}`)));
+  if (match) {
+    return match.type;
+  }
+  const path = url?.toLowerCase() ?? '';
+  if (/\/(press|press-releases?|newsroom)\//.test(path)) {
+    return 'press-release';
+  }
+  return /\/blog\//.test(path) ? 'blog' : 'unknown';
+}
+
+function findCues(text: string, cues: string[]): string[] {
+  return cues.filter((cue) => text.includes(cue));
+}
+
+function scoreSentiment(text: string): number {
+  const words = text.split(/[^a-z-]+/).filter(Boolean);
+  const positive = words.filter((word) => positiveWords.has(word)).length;
+  const negative = words.filter((word) => negativeWords.has(word)).length;
+  if (positive + negative === 0) {
+    return 0;
+  }
+  return Math.round(((positive - negative) / (positive + negative + 2)) * 100) / 100;
+}
+
+function labelSentiment(score: number): SentimentLabel {
+  if (score >= 0.2) {
+    return 'positive';
+  }
+  return score <= -0.2 ? 'negative' : 'neutral';
+}
+
+// Backed claims lower the risk: distinct corroborating hosts count, and a paper among the citations counts double.
+function citationSupport(citations: Array<{ url: string }> = []): number {
+  const hosts = new Set(citations.map((citation) => hostnameOf(citation.url)).filter(Boolean));
+  const scholarly = citations.some((citation) => ['peer-reviewed', 'preprint'].includes(classifySource(citation.url)));
+  return Math.min(1, hosts.size / 3 + (scholarly ? 0.34 : 0));
+}
+
+export function scoreHype(item: ScorableItem): { sentiment: number; hypeRisk: number; hype: HypeBreakdown } {
+  const text = `${item.title}. ${item.summary}`.toLowerCase();
+  const hype = findCues(text, hypeCues);
+  const hedges = findCues(text, hedgeCues);
+  const exclaims = (`${item.title} ${item.summary}`.match(/!/g) ?? []).length;
+  const language = Math.max(0, Math.min(1, hype.length * 0.2 + exclaims * 0.15 - hedges.length * 0.1));
+
+  const sourceType = classifySource(item.sourceUrl);
+  const support = citationSupport(item.citations);
+  const hypeRisk = Math.round(
+    100 * (weights.language * language + weights.source * sourceRisk[sourceType] + weights.unsupported * (1 - support)),
+  );
+  const sentiment = scoreSentiment(text);
+
+  return {
+    sentiment,
+    hypeRisk,
+    hype: {
+      level: hypeRisk >= 65 ? 'high' : hypeRisk >= 35 ? 'medium' : 'low',
+      sentimentLabel: labelSentiment(sentiment),
+      sourceType,
+      language: Math.round(language * 100) / 100,
+      sourceRisk: sourceRisk[sourceType],
+      citationSupport: Math.round(support * 100) / 100,
+      cues: [...hype, ...(exclaims > 0 ? ['exclamation'] : [])],
+    },
+  };
+}
+
+export function withHypeScore<T extends ScorableItem>(item: T): T & ReturnType<typeof scoreHype> {
+  return { ...item, ...scoreHype(item) };
+}
@@ -0,0 +1,28 @@
+const namespace = process.env.METRICS_NAMESPACE ?? 'TechNewsHub';
+
+type MetricUnit = 'Count' | 'Milliseconds' | 'None';
+
+export function recordMetric(
+  name: string,
+  value: number,
+  dimensions: Record<string, string> = {},
+  unit: MetricUnit = 'Count',
+): void {
+  const dimensionNames = Object.keys(dimensions);
+  console.log(
+    JSON.stringify({
+      _aws: {
+        Timestamp: Date.now(),
+        CloudWatchMetrics: [
+          {
+            Namespace: namespace,
+            Dimensions: dimensionNames.length > 0 ? [dimensionNames] : [[]],
+            Metrics: [{ Name: name, Unit: unit }],
+          },
+        ],
+      },
+      ...dimensions,
+      [name]: value,
+    }),
+  );
+}
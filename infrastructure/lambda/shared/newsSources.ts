@@ -0,0 +1,210 @@
+import { fixtureMode, httpClient } from './httpClient';
+import { SectionDefinition, findSection } from './sectionRegistry';
+
+export interface FeedDefinition {
+  url: string;
+  publisher?: string;
+}
+
+export interface SourceArticle {
+  title: string;
+  summary: string;
+  url: string;
+  publishedAt?: string;
+  publisher?: string;
+  origin: 'newsapi' | 'rss';
+}
+
+const periodWindowDays: Record<string, number> = {
+  daily: 1,
+  weekly: 7,
+  monthly: 30,
+  yearly: 365,
+};
+
+const sourceTimeoutMs = Number(process.env.NEWS_SOURCE_TIMEOUT_MS ?? 8000);
+
+function loadFeedOverrides(): Record<string, FeedDefinition[]> {
+  const raw = process.env.NEWS_FEED_CONFIG;
+  if (!raw) {
+    return {};
+  }
+  try {
+    const parsed = JSON.parse(raw) as Record<string, Array<string | FeedDefinition>>;
+    return Object.fromEntries(
+      Object.entries(parsed).map(([section, feeds]) => [
+        section,
+        feeds.map((feed) => (typeof feed === 'string' ? { url: feed } : feed)),
+      ]),
+    );
+  } catch (error) {
+    console.warn('Ignoring malformed NEWS_FEED_CONFIG', error);
+    return {};
+  }
+}
+
+export function resolveSectionFeeds(section: string, definition?: SectionDefinition): FeedDefinition[] {
+  const overrides = loadFeedOverrides();
+  return overrides[section] ?? definition?.feeds ?? [];
+}
+
+export function periodStart(timePeriod: string, now = new Date()): Date {
+  const days = periodWindowDays[timePeriod] ?? 1;
+  return new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCharCode(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code: string) => String.fromCharCode(Number.parseInt(code, 16)))
+    .replace(/&amp;/g, '&');
+}
+
+function cleanText(value: string | undefined): string {
+  if (!value) {
+    return '';
+  }
+  const unwrapped = value.replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1');
+  return decodeEntities(decodeEntities(unwrapped).replace(/<[^>]+>/g, ' '))
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function readTag(block: string, tag: string): string | undefined {
+  const match = block.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'i'));
+  return match?.[1];
+}
+
+function readAtomLink(block: string): string | undefined {
+  const links = Array.from(block.matchAll(/<link\b([^>]*)\/?>/gi)).map((match) => match[1]);
+  const preferred =
+    links.find((attributes) => /rel=["']alternate["']/i.test(attributes)) ??
+    links.find((attributes) => !/rel=/i.test(attributes)) ??
+    links[0];
+  return preferred?.match(/href=["']([^"']+)["']/i)?.[1];
+}
+
+function normalizeDate(value: string | undefined): string | undefined {
+  const cleaned = cleanText(value);
+  if (!cleaned) {
+    return undefined;
+  }
+  const parsed = new Date(cleaned);
+  return Number.isNaN(parsed.getTime()) ? undefined : parsed.toISOString();
+}
+
+export function parseFeed(xml: string, feed: FeedDefinition = { url: '' }): SourceArticle[] {
+  const channelTitle = cleanText(readTag(xml.replace(/<(item|entry)\b[\s\S]*$/i, ''), 'title'));
+  const publisher = feed.publisher ?? (channelTitle || undefined);
+  const isAtom = /<feed\b[^>]*>/i.test(xml) && !/<rss\b/i.test(xml);
+  const blocks = Array.from(xml.matchAll(isAtom ? /<entry\b[\s\S]*?<\/entry>/gi : /<item\b[\s\S]*?<\/item>/gi)).map(
+    (match) => match[0],
+  );
+
+  return blocks
+    .map((block): SourceArticle | null => {
+      const title = cleanText(readTag(block, 'title'));
+      const url = isAtom ? readAtomLink(block) : cleanText(readTag(block, 'link')) || cleanText(readTag(block, 'guid'));
+      if (!title || !url) {
+        return null;
+      }
+      const summary = cleanText(
+        isAtom
+          ? readTag(block, 'summary') ?? readTag(block, 'content')
+          : readTag(block, 'description') ?? readTag(block, 'content:encoded'),
+      );
+      return {
+        title,
+        summary,
+        url: decodeEntities(url),
+        publishedAt: normalizeDate(
+          isAtom
+            ? readTag(block, 'published') ?? readTag(block, 'updated')
+            : readTag(block, 'pubDate') ?? readTag(block, 'dc:date'),
+        ),
+        publisher,
+        origin: 'rss',
+      };
+    })
+    .filter((article): article is SourceArticle => article !== null);
+}
+
+async function fetchFeed(feed: FeedDefinition): Promise<SourceArticle[]> {
+  const response = await httpClient.get<string>(feed.url, {
+    responseType: 'text',
+    timeout: sourceTimeoutMs,
+    headers: { Accept: 'application/rss+xml, application/atom+xml, application/xml, text/xml' },
+  });
+  return parseFeed(String(response.data ?? ''), feed);
+}
+
+async function fetchNewsApi(
+  section: string,
+  timePeriod: string,
+  apiKey: string,
+  keywords: string[],
+): Promise<SourceArticle[]> {
+  const response = await httpClient.get('https://newsapi.org/v2/everything', {
+    params: {
+      q: keywords.length > 0 ? keywords.join(' OR ') : `${section} technology`,
+      from: periodStart(timePeriod).toISOString(),
+      sortBy: 'publishedAt',
+      language: 'en',
+      pageSize: 30,
+    },
+    headers: { 'X-Api-Key': apiKey },
+    timeout: sourceTimeoutMs,
+  });
+  return (response.data?.articles ?? [])
+    .filter((article: any) => article?.title && article?.url && article.title !== '[Removed]')
+    .map((article: any) => ({
+      title: cleanText(article.title),
+      summary: cleanText(article.description ?? article.content),
+      url: article.url,
+      publishedAt: normalizeDate(article.publishedAt),
+      publisher: article.source?.name,
+      origin: 'newsapi' as const,
+    }));
+}
+
+export async function collectSourceArticles(
+  section: string,
+  timePeriod: string,
+  newsApiKey?: string,
+): Promise<SourceArticle[]> {
+  const definition = await findSection(section);
+  const feeds = resolveSectionFeeds(section, definition);
+  const tasks: Array<Promise<SourceArticle[]>> = feeds.map((feed) => fetchFeed(feed));
+  if (newsApiKey) {
+    tasks.push(fetchNewsApi(section, timePeriod, newsApiKey, definition?.keywords ?? []));
+  }
+
+  const settled = await Promise.allSettled(tasks);
+  settled.forEach((result, index) => {
+    if (result.status === 'rejected') {
+      const label = feeds[index]?.url ?? 'newsapi';
+      console.warn('News source fetch failed', label, (result.reason as Error)?.message);
+    }
+  });
+
+  // Replayed fixtures are frozen in time, so the recency window would otherwise empty them out. Recording
+  // skips it too, so a replay ranks exactly the candidates that were recorded and its AI prompts match.
+  const since = fixtureMode() === 'live' ? periodStart(timePeriod).getTime() : 0;
+  const seen = new Set<string>();
+  return settled
+    .flatMap((result) => (result.status === 'fulfilled' ? result.value : []))
+    .filter((article) => !article.publishedAt || new Date(article.publishedAt).getTime() >= since)
+    .filter((article) => {
+      const key = article.url.replace(/[?#].*$/, '').replace(/\/$/, '').toLowerCase();
+      if (seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    })
+    .sort((a, b) => (b.publishedAt ?? '').localeCompare(a.publishedAt ?? ''));
+}
@@ -0,0 +1,185 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { BatchGetCommand, DynamoDBDocumentClient, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { PatentLink, PatentRelations } from './patentSources';
+
+export type GraphEdgeType = 'cites' | 'family';
+
+export interface PatentNode extends PatentLink {
+  itemId?: string;
+}
+
+export interface GraphNode extends PatentNode {
+  id: string;
+  depth: number;
+  expanded: boolean;
+}
+
+export interface GraphEdge {
+  source: string;
+  target: string;
+  type: GraphEdgeType;
+}
+
+export interface PatentGraph {
+  root: string;
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  truncated: boolean;
+}
+
+interface GraphRow extends PatentNode {
+  cites?: string[];
+  citedBy?: string[];
+  family?: string[];
+  relationsAt?: string;
+}
+
+const docClient = DynamoDBDocumentClient.from(new DynamoDBClient({}));
+const patentGraphTableName = process.env.PATENT_GRAPH_TABLE_NAME ?? '';
+const nodeFields: Array<keyof PatentNode> = ['title', 'assignee', 'grantDate', 'itemId'];
+
+function numbers(links: PatentLink[]): string[] {
+  return links.map((link) => link.patentNumber);
+}
+
+// Only the fields we know are written, so a neighbour stub never blanks out what a full record stored earlier.
+function updateFor(node: PatentNode, relations?: PatentRelations, relationsAt?: string): UpdateCommand {
+  const values: Record<string, unknown> = {};
+  nodeFields.forEach((field) => {
+    if (node[field]) {
+      values[field] = node[field];
+    }
+  });
+  if (relations) {
+    Object.assign(values, {
+      cites: numbers(relations.cites),
+      citedBy: numbers(relations.citedBy),
+      family: numbers(relations.family),
+      relationsAt,
+    });
+  }
+  const fields = Object.keys(values);
+  return new UpdateCommand({
+    TableName: patentGraphTableName,
+    Key: { patentNumber: node.patentNumber },
+    UpdateExpression: `SET ${fields.map((field) => `#${field} = :${field}`).join(', ')}`,
+    ExpressionAttributeNames: Object.fromEntries(fields.map((field) => [`#${field}`, field])),
+    ExpressionAttributeValues: Object.fromEntries(fields.map((field) => [`:${field}`, values[field]])),
+  });
+}
+
+export async function recordPatentGraph(
+  entries: Array<{ node: PatentNode; relations?: PatentRelations }>,
+  relationsAt: string = new Date().toISOString(),
+): Promise<void> {
+  const withRelations = entries.filter(
+    (entry): entry is { node: PatentNode; relations: PatentRelations } => Boolean(entry.relations),
+  );
+  if (!patentGraphTableName || withRelations.length === 0) {
+    return;
+  }
+  const full = new Set(withRelations.map((entry) => entry.node.patentNumber));
+  const neighbours = new Map<string, PatentLink>();
+  withRelations.forEach(({ relations }) =>
+    [...relations.cites, ...relations.citedBy]
+      .filter((link) => !full.has(link.patentNumber) && (link.title || link.assignee || link.grantDate))
+      .forEach((link) => neighbours.set(link.patentNumber, { ...neighbours.get(link.patentNumber), ...link })),
+  );
+  const updates = [
+    ...withRelations.map(({ node, relations }) => updateFor(node, relations, relationsAt)),
+    ...Array.from(neighbours.values()).map((link) => updateFor(link)),
+  ];
+  const results = await Promise.allSettled(updates.map((update) => docClient.send(update)));
+  const failures = results.filter((result) => result.status === 'rejected').length;
+  if (failures > 0) {
+    console.warn(`Patent graph: ${failures}/${updates.length} writes failed`);
+  }
+}
+
+async function loadRows(patentNumbers: string[]): Promise<GraphRow[]> {
+  if (patentNumbers.length === 0) {
+    return [];
+  }
+  const result = await docClient.send(
+    new BatchGetCommand({
+      RequestItems: {
+        [patentGraphTableName]: { Keys: patentNumbers.slice(0, 100).map((patentNumber) => ({ patentNumber })) },
+      },
+    }),
+  );
+  return (result.Responses?.[patentGraphTableName] ?? []) as GraphRow[];
+}
+
+export async function loadPatentNode(patentNumber: string): Promise<(PatentNode & { expanded: boolean }) | null> {
+  if (!patentGraphTableName) {
+    return null;
+  }
+  const [row] = await loadRows([patentNumber]);
+  return row ? { ...row, expanded: Boolean(row.relationsAt) } : null;
+}
+
+function neighboursOf(row: GraphRow): string[] {
+  return [...(row.cites ?? []), ...(row.citedBy ?? []), ...(row.family ?? [])];
+}
+
+// Breadth-first from the root, one batch read per level, stopping at maxNodes so hubs cannot blow up the response.
+export async function loadPatentGraph(root: string, depth: number, maxNodes: number): Promise<PatentGraph> {
+  const rows = new Map<string, GraphRow>();
+  const depths = new Map<string, number>([[root, 0]]);
+  let frontier = [root];
+  let truncated = false;
+
+  for (let level = 0; level <= depth && frontier.length > 0; level += 1) {
+    (await loadRows(frontier)).forEach((row) => rows.set(row.patentNumber, row));
+    if (level === depth) {
+      break;
+    }
+    const next: string[] = [];
+    frontier.forEach((patentNumber) => {
+      const row = rows.get(patentNumber);
+      (row ? neighboursOf(row) : []).forEach((neighbour) => {
+        if (depths.has(neighbour)) {
+          return;
+        }
+        if (depths.size >= maxNodes) {
+          truncated = true;
+          return;
+        }
+        depths.set(neighbour, level + 1);
+        next.push(neighbour);
+      });
+    });
+    frontier = next;
+  }
+
+  const edges = new Map<string, GraphEdge>();
+  const addEdge = (source: string, target: string, type: GraphEdgeType) => {
+    if (depths.has(source) && depths.has(target)) {
+      edges.set(`${source}>${target}`, { source, target, type });
+    }
+  };
+  rows.forEach((row) => {
+    (row.cites ?? []).forEach((target) => addEdge(row.patentNumber, target, 'cites'));
+    (row.citedBy ?? []).forEach((source) => addEdge(source, row.patentNumber, 'cites'));
+    (row.family ?? []).forEach((target) => addEdge(row.patentNumber, target, 'family'));
+  });
+
+  return {
+    root,
+    nodes: Array.from(depths, ([patentNumber, nodeDepth]) => {
+      const row = rows.get(patentNumber);
+      return {
+        id: patentNumber,
+        patentNumber,
+        title: row?.title,
+        assignee: row?.assignee,
+        grantDate: row?.grantDate,
+        itemId: row?.itemId,
+        depth: nodeDepth,
+        expanded: Boolean(row?.relationsAt),
+      };
+    }),
+    edges: Array.from(edges.values()),
+    truncated,
+  };
+}
@@ -0,0 +1,131 @@
+import { PatentRecord } from './patentSources';
+
+export type ImpactFactor = 'forwardCitations' | 'familySize' | 'claims' | 'assigneeTrackRecord' | 'cpcNovelty';
+
+export interface ImpactComponent {
+  factor: ImpactFactor;
+  label: string;
+  value: number | null;
+  score: number;
+  weight: number;
+  points: number;
+  detail: string;
+}
+
+export interface ImpactBreakdown {
+  score: number;
+  model: string;
+  components: ImpactComponent[];
+}
+
+const model = 'impact-v1';
+const yearMs = 365.25 * 24 * 60 * 60 * 1000;
+
+const weights: Record<ImpactFactor, number> = {
+  forwardCitations: 0.3,
+  familySize: 0.15,
+  claims: 0.15,
+  assigneeTrackRecord: 0.2,
+  cpcNovelty: 0.2,
+};
+
+const labels: Record<ImpactFactor, string> = {
+  forwardCitations: 'Forward citations',
+  familySize: 'Family size',
+  claims: 'Claims',
+  assigneeTrackRecord: 'Assignee track record',
+  cpcNovelty: 'CPC novelty',
+};
+
+function clamp(value: number): number {
+  return Math.max(0, Math.min(1, value));
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Young patents have had little time to be cited, so citations are scored per year since grant (20 a year scores full).
+function forwardCitationScore(record: PatentRecord, now: Date): { score: number; detail: string } {
+  if (record.forwardCitations === undefined) {
+    return { score: 0, detail: 'Citation count unavailable' };
+  }
+  const grantedAt = record.grantDate ? new Date(record.grantDate).getTime() : now.getTime();
+  const years = Math.max(0.5, (now.getTime() - grantedAt) / yearMs);
+  const perYear = record.forwardCitations / years;
+  return {
+    score: clamp(Math.log10(1 + perYear) / Math.log10(21)),
+    detail: `Cited by ${record.forwardCitations} US patents (${round(perYear)} a year since grant)`,
+  };
+}
+
+function familySizeScore(record: PatentRecord): { score: number; detail: string } {
+  const size = record.familySize ?? 1;
+  return {
+    score: clamp(Math.log2(size) / Math.log2(16)),
+    detail: size > 1 ? `${size} related filings, including foreign priority claims` : 'No related filings found',
+  };
+}
+
+function claimsScore(record: PatentRecord): { score: number; detail: string } {
+  if (record.claimCount === undefined) {
+    return { score: 0, detail: 'Claim count unavailable' };
+  }
+  return { score: clamp(record.claimCount / 30), detail: `${record.claimCount} claims (30 or more scores full)` };
+}
+
+function assigneeScore(record: PatentRecord): { score: number; detail: string } {
+  if (record.assigneePatentCount === undefined) {
+    return { score: 0, detail: record.assignees.length > 0 ? 'Assignee portfolio unknown' : 'No assignee on record' };
+  }
+  return {
+    score: clamp(Math.log10(1 + record.assigneePatentCount) / 4),
+    detail: `${record.assignees[0] ?? 'Assignee'} holds ${record.assigneePatentCount} US patents`,
+  };
+}
+
+function subclassPairs(record: PatentRecord): string[] {
+  const subclasses = Array.from(new Set(record.cpcCodes.map((code) => code.slice(0, 4)))).sort();
+  return subclasses.flatMap((first, index) => subclasses.slice(index + 1).map((second) => `${first}+${second}`));
+}
+
+// A pairing of CPC subclasses that no other patent in the batch shares marks a cross-domain invention.
+function cpcNoveltyScore(record: PatentRecord, pool: PatentRecord[]): { score: number; detail: string } {
+  const pairs = subclassPairs(record);
+  if (pairs.length === 0) {
+    return { score: 0.1, detail: 'Classified in a single CPC subclass' };
+  }
+  const others = pool.filter((other) => other.patentNumber !== record.patentNumber).map(subclassPairs);
+  const rarest = pairs
+    .map((pair) => ({ pair, shared: others.filter((otherPairs) => otherPairs.includes(pair)).length }))
+    .sort((a, b) => a.shared - b.shared)[0];
+  const share = others.length > 0 ? rarest.shared / others.length : 0;
+  return {
+    score: clamp(1 - share),
+    detail: `${rarest.pair.replace('+', ' + ')} shared by ${rarest.shared} of ${others.length} other patents`,
+  };
+}
+
+export function scoreImpact(record: PatentRecord, pool: PatentRecord[], now: Date = new Date()): ImpactBreakdown {
+  const factors: Array<[ImpactFactor, number | null, { score: number; detail: string }]> = [
+    ['forwardCitations', record.forwardCitations ?? null, forwardCitationScore(record, now)],
+    ['familySize', record.familySize ?? null, familySizeScore(record)],
+    ['claims', record.claimCount ?? null, claimsScore(record)],
+    ['assigneeTrackRecord', record.assigneePatentCount ?? null, assigneeScore(record)],
+    ['cpcNovelty', subclassPairs(record).length, cpcNoveltyScore(record, pool)],
+  ];
+  const components = factors.map(([factor, value, { score, detail }]) => ({
+    factor,
+    label: labels[factor],
+    value,
+    score: round(score),
+    weight: weights[factor],
+    points: round(score * weights[factor] * 100),
+    detail,
+  }));
+  return {
+    score: Math.round(components.reduce((acc, component) => acc + component.points, 0)),
+    model,
+    components,
+  };
+}
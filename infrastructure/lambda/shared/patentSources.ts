@@ -0,0 +1,360 @@
+import { httpClient } from './httpClient';
+
+export interface PatentLink {
+  patentNumber: string;
+  title?: string;
+  assignee?: string;
+  grantDate?: string;
+}
+
+export interface PatentRelations {
+  cites: PatentLink[];
+  citedBy: PatentLink[];
+  family: PatentLink[];
+}
+
+export interface PatentRecord {
+  patentNumber: string;
+  title: string;
+  abstract: string;
+  assignees: string[];
+  inventors: string[];
+  cpcCodes: string[];
+  claims: string[];
+  claimCount?: number;
+  forwardCitations?: number;
+  familySize?: number;
+  assigneePatentCount?: number;
+  priorityDate?: string;
+  filingDate?: string;
+  grantDate?: string;
+  relations?: PatentRelations;
+  url: string;
+}
+
+export interface PatentQuery {
+  cpcCodes: string[];
+  keywords: string[];
+  from: Date;
+  limit?: number;
+}
+
+export interface PatentSource {
+  name: string;
+  search(query: PatentQuery): Promise<PatentRecord[]>;
+  relations(patentNumbers: string[]): Promise<Map<string, { node: PatentLink; relations: PatentRelations }>>;
+}
+
+const defaultBaseUrl = 'https://search.patentsview.org/api/v1';
+const patentTimeoutMs = Number(process.env.PATENT_SOURCE_TIMEOUT_MS ?? 10000);
+const maxClaimsPerPatent = 3;
+const maxLinksPerDirection = 10;
+const dayMs = 24 * 60 * 60 * 1000;
+
+// Patents are granted weekly and the bulk data lags behind, so windows are wider than the news ones.
+const lookbackDays: Record<string, number> = {
+  daily: 14,
+  weekly: 30,
+  monthly: 90,
+  yearly: 365,
+};
+
+const patentFields = [
+  'patent_id',
+  'patent_title',
+  'patent_abstract',
+  'patent_date',
+  'patent_num_claims',
+  'patent_num_times_cited_by_us_patents',
+  'patent_earliest_application_date',
+  'application.filing_date',
+  'assignees.assignee_id',
+  'assignees.assignee_organization',
+  'assignees.assignee_individual_name_first',
+  'assignees.assignee_individual_name_last',
+  'inventors.inventor_name_first',
+  'inventors.inventor_name_last',
+  'cpc_current.cpc_group_id',
+  'us_related_documents.related_doc_number',
+  'foreign_priority.foreign_doc_number',
+];
+
+export function patentWindowStart(timePeriod: string, now = new Date()): Date {
+  return new Date(now.getTime() - (lookbackDays[timePeriod] ?? lookbackDays.monthly) * dayMs);
+}
+
+function isoDate(value?: string): string | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? undefined : parsed.toISOString().slice(0, 10);
+}
+
+function fullName(first?: string, last?: string): string | undefined {
+  const name = [first, last].filter(Boolean).join(' ').trim();
+  return name || undefined;
+}
+
+function unique(values: Array<string | undefined>): string[] {
+  return Array.from(new Set(values.filter((value): value is string => Boolean(value))));
+}
+
+// Section keywords are written as search phrases, e.g. '"machine learning"'; the quotes are not part of the text.
+function unquote(keyword: string): string {
+  return keyword.trim().replace(/^"(.*)"$/, '$1').trim();
+}
+
+function buildQuery(query: PatentQuery): Record<string, unknown> {
+  const topics: Record<string, unknown>[] = [
+    ...query.cpcCodes.map((code) => ({ _begins: { 'cpc_current.cpc_group_id': code } })),
+    ...(query.keywords.length > 0 ? [{ _text_any: { patent_title: query.keywords.map(unquote).join(' ') } }] : []),
+  ];
+  return {
+    _and: [{ _gte: { patent_date: isoDate(query.from.toISOString()) } }, ...(topics.length > 0 ? [{ _or: topics }] : [])],
+  };
+}
+
+// Matching CPC classes outrank keyword hits, which outrank recency, so the section's core inventions lead.
+function relevance(record: PatentRecord, query: PatentQuery): number {
+  const cpcHits = query.cpcCodes.filter((code) => record.cpcCodes.some((cpc) => cpc.startsWith(code))).length;
+  const text = `${record.title} ${record.abstract}`.toLowerCase();
+  const keywordHits = query.keywords.filter((keyword) => text.includes(unquote(keyword).toLowerCase())).length;
+  return cpcHits * 3 + keywordHits;
+}
+
+export function createPatentsViewSource(apiKey?: string, baseUrl = defaultBaseUrl): PatentSource {
+  const headers = apiKey ? { 'X-Api-Key': apiKey } : undefined;
+  const root = baseUrl.replace(/\/$/, '');
+
+  const fetchClaims = async (patentNumbers: string[]): Promise<Map<string, string[]>> => {
+    const claims = new Map<string, string[]>();
+    try {
+      const response = await httpClient.get(`${root}/g_claim/`, {
+        params: {
+          q: JSON.stringify({ patent_id: patentNumbers }),
+          f: JSON.stringify(['patent_id', 'claim_sequence', 'claim_text', 'claim_dependent']),
+          s: JSON.stringify([{ patent_id: 'asc' }, { claim_sequence: 'asc' }]),
+          o: JSON.stringify({ size: 1000 }),
+        },
+        headers,
+        timeout: patentTimeoutMs,
+      });
+      // Only independent claims define the invention; dependent ones narrow them and would crowd the summary.
+      (response.data?.g_claims ?? []).filter((claim: any) => !claim.claim_dependent).forEach((claim: any) => {
+        const existing = claims.get(claim.patent_id) ?? [];
+        if (existing.length < maxClaimsPerPatent && typeof claim.claim_text === 'string') {
+          claims.set(claim.patent_id, [...existing, claim.claim_text.replace(/\s+/g, ' ').trim()]);
+        }
+      });
+    } catch (error) {
+      console.warn('PatentsView claims lookup failed', (error as Error).message);
+    }
+    return claims;
+  };
+
+  const fetchAssigneeCounts = async (assigneeIds: string[]): Promise<Map<string, number>> => {
+    const counts = new Map<string, number>();
+    if (assigneeIds.length === 0) {
+      return counts;
+    }
+    try {
+      const response = await httpClient.get(`${root}/assignee/`, {
+        params: {
+          q: JSON.stringify({ assignee_id: assigneeIds }),
+          f: JSON.stringify(['assignee_id', 'assignee_num_patents']),
+          o: JSON.stringify({ size: assigneeIds.length }),
+        },
+        headers,
+        timeout: patentTimeoutMs,
+      });
+      (response.data?.assignees ?? []).forEach((assignee: any) => {
+        if (Number.isFinite(assignee.assignee_num_patents)) {
+          counts.set(assignee.assignee_id, assignee.assignee_num_patents);
+        }
+      });
+    } catch (error) {
+      console.warn('PatentsView assignee lookup failed', (error as Error).message);
+    }
+    return counts;
+  };
+
+  const fetchCitations = async (field: 'patent_id' | 'citation_patent_id', patentNumbers: string[]): Promise<any[]> => {
+    const response = await httpClient.get(`${root}/patent/us_patent_citation/`, {
+      params: {
+        q: JSON.stringify({ [field]: patentNumbers }),
+        f: JSON.stringify(['patent_id', 'citation_patent_id', 'citation_sequence']),
+        s: JSON.stringify([{ patent_id: 'asc' }, { citation_sequence: 'asc' }]),
+        o: JSON.stringify({ size: 1000 }),
+      },
+      headers,
+      timeout: patentTimeoutMs,
+    });
+    return response.data?.us_patent_citations ?? [];
+  };
+
+  const fetchLinks = async (patentNumbers: string[]): Promise<Map<string, PatentLink & { family: string[] }>> => {
+    const links = new Map<string, PatentLink & { family: string[] }>();
+    if (patentNumbers.length === 0) {
+      return links;
+    }
+    const response = await httpClient.get(`${root}/patent/`, {
+      params: {
+        q: JSON.stringify({ patent_id: patentNumbers }),
+        f: JSON.stringify([
+          'patent_id',
+          'patent_title',
+          'patent_date',
+          'assignees.assignee_organization',
+          'assignees.assignee_individual_name_first',
+          'assignees.assignee_individual_name_last',
+          'us_related_documents.related_doc_number',
+        ]),
+        o: JSON.stringify({ size: patentNumbers.length }),
+      },
+      headers,
+      timeout: patentTimeoutMs,
+    });
+    (response.data?.patents ?? []).forEach((patent: any) => {
+      const assignee = patent.assignees?.[0];
+      links.set(String(patent.patent_id), {
+        patentNumber: String(patent.patent_id),
+        title: patent.patent_title ? String(patent.patent_title).trim() : undefined,
+        assignee:
+          assignee?.assignee_organization ??
+          fullName(assignee?.assignee_individual_name_first, assignee?.assignee_individual_name_last),
+        grantDate: isoDate(patent.patent_date),
+        family: unique((patent.us_related_documents ?? []).map((doc: any) => doc.related_doc_number)),
+      });
+    });
+    return links;
+  };
+
+  // Backward citations are what a patent builds on, forward ones are who builds on it; both are capped per direction.
+  const fetchRelations = async (
+    patentNumbers: string[],
+  ): Promise<Map<string, { node: PatentLink; relations: PatentRelations }>> => {
+    const relations = new Map<string, { node: PatentLink; relations: PatentRelations }>();
+    if (patentNumbers.length === 0) {
+      return relations;
+    }
+    try {
+      const [backward, forward] = await Promise.all([
+        fetchCitations('patent_id', patentNumbers),
+        fetchCitations('citation_patent_id', patentNumbers),
+      ]);
+      const linked = (rows: any[], from: string, to: string, patentNumber: string): string[] =>
+        unique(rows.filter((row) => row[from] === patentNumber).map((row) => row[to])).slice(0, maxLinksPerDirection);
+      const edges = patentNumbers.map((patentNumber) => ({
+        patentNumber,
+        cites: linked(backward, 'patent_id', 'citation_patent_id', patentNumber),
+        citedBy: linked(forward, 'citation_patent_id', 'patent_id', patentNumber),
+      }));
+      const links = await fetchLinks(
+        unique([...patentNumbers, ...edges.flatMap((edge) => [...edge.cites, ...edge.citedBy])]),
+      );
+      const linkFor = (patentNumber: string): PatentLink => {
+        const link = links.get(patentNumber);
+        return { patentNumber, title: link?.title, assignee: link?.assignee, grantDate: link?.grantDate };
+      };
+      edges.forEach((edge) => {
+        relations.set(edge.patentNumber, {
+          node: linkFor(edge.patentNumber),
+          relations: {
+            cites: edge.cites.map(linkFor),
+            citedBy: edge.citedBy.map(linkFor),
+            family: (links.get(edge.patentNumber)?.family ?? [])
+              .slice(0, maxLinksPerDirection)
+              .map((patentNumber) => ({ patentNumber })),
+          },
+        });
+      });
+    } catch (error) {
+      console.warn('PatentsView citation lookup failed', (error as Error).message);
+    }
+    return relations;
+  };
+
+  return {
+    name: 'patentsview',
+    relations: fetchRelations,
+    async search(query) {
+      const limit = query.limit ?? 10;
+      const response = await httpClient.get(`${root}/patent/`, {
+        params: {
+          q: JSON.stringify(buildQuery(query)),
+          f: JSON.stringify(patentFields),
+          s: JSON.stringify([{ patent_date: 'desc' }]),
+          o: JSON.stringify({ size: limit * 3 }),
+        },
+        headers,
+        timeout: patentTimeoutMs,
+      });
+      const rows: any[] = (response.data?.patents ?? []).filter((patent: any) => patent.patent_id && patent.patent_title);
+      const assigneeIds = new Map<string, string | undefined>(
+        rows.map((patent) => [String(patent.patent_id), patent.assignees?.[0]?.assignee_id]),
+      );
+      const records: PatentRecord[] = rows.map((patent: any) => ({
+        patentNumber: String(patent.patent_id),
+        title: String(patent.patent_title).trim(),
+        abstract: String(patent.patent_abstract ?? '').trim(),
+        assignees: unique(
+          (patent.assignees ?? []).map(
+            (assignee: any) =>
+              assignee.assignee_organization ??
+              fullName(assignee.assignee_individual_name_first, assignee.assignee_individual_name_last),
+          ),
+        ),
+        inventors: unique(
+          (patent.inventors ?? []).map((inventor: any) => fullName(inventor.inventor_name_first, inventor.inventor_name_last)),
+        ),
+        cpcCodes: unique((patent.cpc_current ?? []).map((cpc: any) => cpc.cpc_group_id)),
+        claims: [],
+        claimCount: Number.isFinite(patent.patent_num_claims) ? patent.patent_num_claims : undefined,
+        forwardCitations: Number.isFinite(patent.patent_num_times_cited_by_us_patents)
+          ? patent.patent_num_times_cited_by_us_patents
+          : undefined,
+        familySize: 1 + (patent.us_related_documents ?? []).length + (patent.foreign_priority ?? []).length,
+        priorityDate: isoDate(patent.patent_earliest_application_date),
+        filingDate: isoDate(patent.application?.[0]?.filing_date),
+        grantDate: isoDate(patent.patent_date),
+        url: `https://patents.google.com/patent/US${patent.patent_id}`,
+      }));
+
+      const selected = records
+        .map((record, index) => ({ record, score: relevance(record, query), index }))
+        .sort((a, b) => b.score - a.score || a.index - b.index)
+        .slice(0, limit)
+        .map(({ record }) => record);
+      if (selected.length === 0) {
+        return [];
+      }
+      const [claims, assigneeCounts, relations] = await Promise.all([
+        fetchClaims(selected.map((record) => record.patentNumber)),
+        fetchAssigneeCounts(unique(selected.map((record) => assigneeIds.get(record.patentNumber)))),
+        fetchRelations(selected.map((record) => record.patentNumber)),
+      ]);
+      return selected.map((record) => {
+        const assigneeId = assigneeIds.get(record.patentNumber);
+        return {
+          ...record,
+          claims: claims.get(record.patentNumber) ?? [],
+          assigneePatentCount: assigneeId ? assigneeCounts.get(assigneeId) : undefined,
+          relations: relations.get(record.patentNumber)?.relations,
+        };
+      });
+    },
+  };
+}
+
+// PATENTS_API_BASE_URL points the adapter at a local fixture server, which needs no API key.
+export function resolvePatentSource(apiKey?: string): PatentSource | null {
+  if ((process.env.PATENT_SOURCE ?? '').toLowerCase() === 'none') {
+    return null;
+  }
+  const baseUrl = process.env.PATENTS_API_BASE_URL;
+  if (baseUrl) {
+    return createPatentsViewSource(apiKey, baseUrl);
+  }
+  return apiKey ? createPatentsViewSource(apiKey) : null;
+}
@@ -0,0 +1,127 @@
+import { GetObjectCommand, NoSuchKey, S3Client } from '@aws-sdk/client-s3';
+
+export type PromptTemplateId =
+  | 'news-ranking'
+  | 'news-discovery'
+  | 'news-crosscheck'
+  | 'patents-summary'
+  | 'search-answer';
+
+export interface PromptTemplate {
+  id: PromptTemplateId;
+  version: string;
+  template: string;
+  systemPrompt?: string;
+  source: 's3' | 'builtin';
+}
+
+interface CachedTemplate {
+  template: PromptTemplate;
+  loadedAt: number;
+}
+
+const s3Client = new S3Client({});
+const promptsBucketName = process.env.AI_PROMPTS_BUCKET_NAME ?? '';
+const cacheTtlMs = Number(process.env.PROMPT_CACHE_TTL_MS ?? 5 * 60 * 1000);
+const cache = new Map<string, CachedTemplate>();
+
+const builtinTemplates: Record<PromptTemplateId, Omit<PromptTemplate, 'id' | 'source'>> = {
+  'news-ranking': {
+    version: 'builtin-1',
+    template: [
+      'Rank the following {{section}} technology headlines from {{timePeriod}} coverage by significance.',
+      'For the ten most important, return the title, the original url and a neutral two-sentence summary.',
+      'Only use the listed articles.',
+      '{{headlines}}',
+    ].join('\n'),
+  },
+  'news-discovery': {
+    version: 'builtin-1',
+    template: 'Top verified {{section}} technology news for {{timePeriod}}',
+  },
+  'news-crosscheck': {
+    version: 'builtin-1',
+    template: [
+      'Independently check which of the following technology news headlines you can corroborate.',
+      'Repeat the headline and give a supporting source url for each one you can confirm.',
+      '{{headlines}}',
+    ].join('\n'),
+  },
+  'patents-summary': {
+    version: 'builtin-3',
+    template: [
+      'Write an accessible summary of each of the following {{section}} patents for technology news readers.',
+      'In under 200 words per patent, explain what the invention does and why it matters, without legal jargon.',
+      'Return one item per patent with the patent number as the title and its link as the url. Only use the listed patents.',
+      '{{patents}}',
+    ].join('\n'),
+    systemPrompt: 'Generate concise patent summaries for technology news readers.',
+  },
+  'search-answer': {
+    version: 'builtin-1',
+    template: '{{query}} {{focus}}',
+    systemPrompt: 'Provide concise, factual answers to technology news search queries.',
+  },
+};
+
+function builtin(id: PromptTemplateId): PromptTemplate {
+  return { id, source: 'builtin', ...builtinTemplates[id] };
+}
+
+async function readTemplate(id: PromptTemplateId, key: string): Promise<PromptTemplate | null> {
+  try {
+    const result = await s3Client.send(new GetObjectCommand({ Bucket: promptsBucketName, Key: key }));
+    const body = JSON.parse((await result.Body?.transformToString()) ?? '{}');
+    if (typeof body.template !== 'string' || body.template.trim().length === 0) {
+      console.warn(`Prompt template ${key} has no template text, ignoring it`);
+      return null;
+    }
+    return {
+      id,
+      version: String(body.version ?? result.VersionId ?? 'unversioned'),
+      template: body.template,
+      systemPrompt: typeof body.systemPrompt === 'string' ? body.systemPrompt : builtinTemplates[id].systemPrompt,
+      source: 's3',
+    };
+  } catch (error) {
+    if (!(error instanceof NoSuchKey)) {
+      console.warn(`Unable to load prompt template ${key}`, (error as Error).message);
+    }
+    return null;
+  }
+}
+
+// Section-specific templates override the pipeline default; the built-in copy is the last resort.
+export async function loadPromptTemplate(id: PromptTemplateId, section = 'default'): Promise<PromptTemplate> {
+  if (!promptsBucketName) {
+    return builtin(id);
+  }
+  const cacheKey = `${id}/${section}`;
+  const cached = cache.get(cacheKey);
+  if (cached && Date.now() - cached.loadedAt < cacheTtlMs) {
+    return cached.template;
+  }
+  const template =
+    (section !== 'default' ? await readTemplate(id, `templates/${id}/${section}.json`) : null) ??
+    (await readTemplate(id, `templates/${id}/default.json`)) ??
+    builtin(id);
+  cache.set(cacheKey, { template, loadedAt: Date.now() });
+  return template;
+}
+
+export function renderPrompt(template: PromptTemplate, variables: Record<string, string | number | undefined>): string {
+  return template.template
+    .replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name: string) => {
+      const value = variables[name];
+      if (value === undefined) {
+        console.warn(`Prompt template ${template.id}@${template.version} references unknown variable ${name}`);
+        return '';
+      }
+      return String(value);
+    })
+    .trim();
+}
+
+export function promptVersionLabel(templates: PromptTemplate[]): string {
+  return templates.map((template) => `${template.id}@${template.version}`).join(',');
+}
@@ -0,0 +1,193 @@
+import { GetObjectCommand, ListObjectsV2Command, NoSuchKey, PutObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+import { HttpExchange, fixtureMode, observeExchanges } from './httpClient';
+import { recordMetric } from './metrics';
+
+export type ArchivePipeline = 'news' | 'patents';
+
+export interface ArchiveContext {
+  pipeline: ArchivePipeline;
+  section: string;
+  timePeriod: string;
+  promptVersion: string;
+}
+
+export interface ArchivedExchange extends HttpExchange {
+  provider: string;
+  sequence: number;
+}
+
+export interface ArchiveManifest extends ArchiveContext {
+  runId: string;
+  capturedAt: string;
+  keys: string[];
+}
+
+interface ArchiveSession {
+  context: ArchiveContext;
+  exchanges: ArchivedExchange[];
+}
+
+const s3Client = new S3Client({});
+const artifactsBucketName = process.env.NEWS_ARTIFACTS_BUCKET_NAME ?? '';
+const sessions = new AsyncLocalStorage<ArchiveSession>();
+// Runs archived before the latest-run pointer existed are found by listing this many recent day prefixes.
+const latestLookbackDays = 7;
+
+const providerHosts: Record<string, string> = {
+  'api.perplexity.ai': 'perplexity',
+  'generativelanguage.googleapis.com': 'gemini',
+  'api.openai.com': 'chatgpt',
+  'newsapi.org': 'newsapi',
+  'api.twitter.com': 'x',
+  'search.patentsview.org': 'patentsview',
+};
+
+observeExchanges((exchange) => {
+  const session = sessions.getStore();
+  if (!session) {
+    return;
+  }
+  const host = new URL(exchange.request.url).hostname;
+  session.exchanges.push({
+    ...exchange,
+    provider: providerHosts[host] ?? host.replace(/^www\./, ''),
+    sequence: session.exchanges.length + 1,
+  });
+});
+
+function runPrefix(context: Omit<ArchiveContext, 'promptVersion'>): string {
+  return `raw/${context.pipeline}/${context.section}/${context.timePeriod}/`;
+}
+
+function latestKey(context: Omit<ArchiveContext, 'promptVersion'>): string {
+  return `${runPrefix(context)}latest.json`;
+}
+
+function exchangeKey(runDir: string, exchange: ArchivedExchange): string {
+  const label = exchange.provider.replace(/[^a-zA-Z0-9.-]+/g, '-');
+  return `${runDir}${String(exchange.sequence).padStart(3, '0')}-${label}.json`;
+}
+
+async function persistSession(session: ArchiveSession): Promise<void> {
+  const capturedAt = new Date().toISOString();
+  const runId = `${capturedAt.replace(/[-:.]/g, '')}-${randomUUID().slice(0, 8)}`;
+  const runDir = `${runPrefix(session.context)}${capturedAt.slice(0, 10)}/${runId}/`;
+  const metadata = {
+    section: session.context.section,
+    period: session.context.timePeriod,
+    'prompt-version': session.context.promptVersion,
+    'captured-at': capturedAt,
+  };
+
+  const keys = await Promise.all(
+    session.exchanges.map(async (exchange) => {
+      const key = exchangeKey(runDir, exchange);
+      await s3Client.send(
+        new PutObjectCommand({
+          Bucket: artifactsBucketName,
+          Key: key,
+          ContentType: 'application/json',
+          Body: JSON.stringify({ ...session.context, runId, ...exchange }),
+          Metadata: { ...metadata, provider: exchange.provider },
+        }),
+      );
+      return key;
+    }),
+  );
+
+  const manifest: ArchiveManifest = { ...session.context, runId, capturedAt, keys };
+  await Promise.all(
+    [`${runDir}manifest.json`, latestKey(session.context)].map((key) =>
+      s3Client.send(
+        new PutObjectCommand({
+          Bucket: artifactsBucketName,
+          Key: key,
+          ContentType: 'application/json',
+          Body: JSON.stringify(manifest),
+          Metadata: metadata,
+        }),
+      ),
+    ),
+  );
+}
+
+export async function withRawArchive<T>(context: ArchiveContext, work: () => Promise<T>): Promise<T> {
+  if (!artifactsBucketName || fixtureMode() === 'replay') {
+    return work();
+  }
+  const session: ArchiveSession = { context, exchanges: [] };
+  try {
+    return await sessions.run(session, work);
+  } finally {
+    if (session.exchanges.length > 0) {
+      try {
+        await persistSession(session);
+        recordMetric('RawArchiveObjects', session.exchanges.length, { Pipeline: context.pipeline });
+      } catch (error) {
+        console.warn('Failed to archive raw upstream responses', (error as Error).message);
+        recordMetric('RawArchiveFailures', 1, { Pipeline: context.pipeline });
+      }
+    }
+  }
+}
+
+async function readJson<T>(key: string): Promise<T> {
+  const result = await s3Client.send(new GetObjectCommand({ Bucket: artifactsBucketName, Key: key }));
+  return JSON.parse((await result.Body?.transformToString()) ?? '{}') as T;
+}
+
+async function latestManifest(prefix: string, runId?: string): Promise<ArchiveManifest | null> {
+  const manifests: string[] = [];
+  let continuationToken: string | undefined;
+  do {
+    const page = await s3Client.send(
+      new ListObjectsV2Command({ Bucket: artifactsBucketName, Prefix: prefix, ContinuationToken: continuationToken }),
+    );
+    (page.Contents ?? [])
+      .map((object) => object.Key ?? '')
+      .filter((key) => key.endsWith('/manifest.json') && (!runId || key.includes(`/${runId}/`)))
+      .forEach((key) => manifests.push(key));
+    continuationToken = page.IsTruncated ? page.NextContinuationToken : undefined;
+  } while (continuationToken);
+
+  const latest = manifests.sort().pop();
+  return latest ? readJson<ArchiveManifest>(latest) : null;
+}
+
+// Only one day's prefix is ever listed: run IDs start with their capture time, and the most recent run is read
+// from the latest-run pointer, so the cost of a lookup does not grow with the archive.
+export async function findArchivedRun(
+  target: Omit<ArchiveContext, 'promptVersion'>,
+  date?: string,
+  runId?: string,
+): Promise<ArchiveManifest | null> {
+  const runDay = runId?.match(/^(\d{4})(\d{2})(\d{2})T/)?.slice(1).join('-');
+  const day = date ?? runDay;
+  if (day) {
+    return latestManifest(`${runPrefix(target)}${day}/`, runId);
+  }
+  if (!runId) {
+    try {
+      return await readJson<ArchiveManifest>(latestKey(target));
+    } catch (error) {
+      if (!(error instanceof NoSuchKey)) {
+        throw error;
+      }
+    }
+  }
+  for (let offset = 0; offset < latestLookbackDays; offset += 1) {
+    const recentDay = new Date(Date.now() - offset * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    const manifest = await latestManifest(`${runPrefix(target)}${recentDay}/`, runId);
+    if (manifest) {
+      return manifest;
+    }
+  }
+  return null;
+}
+
+export async function loadArchivedExchanges(manifest: ArchiveManifest): Promise<ArchivedExchange[]> {
+  const exchanges = await Promise.all(manifest.keys.map((key) => readJson<ArchivedExchange>(key)));
+  return exchanges.sort((a, b) => a.sequence - b.sequence);
+}
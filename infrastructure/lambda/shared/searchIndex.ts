@@ -0,0 +1,206 @@
+import { GetObjectCommand, NoSuchKey, PutObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { BatchGetCommand, DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+import { tokenize } from './verification';
+
+export type IndexedKind = 'news' | 'patent';
+
+export interface IndexedDocument {
+  id: string;
+  kind: IndexedKind;
+  title: string;
+  summary: string;
+  url?: string;
+  publisher?: string;
+  publishedAt?: string;
+  verificationScore?: number;
+  placements: string[];
+}
+
+export interface SearchIndex {
+  model: string;
+  builtAt: string;
+  averageLength: number;
+  documents: IndexedDocument[];
+  lengths: number[];
+  // term -> [documentIndex, termFrequency] pairs
+  postings: Record<string, Array<[number, number]>>;
+}
+
+export interface IndexMatch {
+  document: IndexedDocument;
+  score: number;
+  matchedTerms: string[];
+  coverage: number;
+}
+
+const s3Client = new S3Client({});
+const docClient = DynamoDBDocumentClient.from(new DynamoDBClient({}));
+const artifactsBucketName = process.env.NEWS_ARTIFACTS_BUCKET_NAME ?? '';
+const contentCacheTableName = process.env.CONTENT_CACHE_TABLE_NAME ?? '';
+const indexKey = 'search-index/bm25.json';
+const indexedPeriods = ['daily', 'weekly', 'monthly', 'yearly'];
+const bm25K1 = 1.2;
+const bm25B = 0.75;
+// Title words are counted this many times, so a query term in the headline outranks one buried in the summary.
+const titleBoost = 2;
+
+function documentsFrom(row: Record<string, any>): IndexedDocument[] {
+  const placement = String(row.sectionPeriod);
+  const news = (Array.isArray(row.newsArray) ? row.newsArray : []).map((item: any) => ({
+    id: item.id,
+    kind: 'news' as const,
+    title: item.title,
+    summary: item.summary ?? '',
+    url: item.sourceUrl,
+    publisher: item.publisher,
+    publishedAt: item.publishedAt,
+    verificationScore: item.verificationScore,
+    placements: [placement],
+  }));
+  const patents = (Array.isArray(row.patentsArray) ? row.patentsArray : []).map((item: any) => ({
+    id: item.id,
+    kind: 'patent' as const,
+    title: item.title,
+    summary: item.summary ?? item.abstract ?? '',
+    url: item.sourceUrl,
+    publisher: (item.assignees ?? [])[0],
+    publishedAt: item.grantDate,
+    placements: [placement],
+  }));
+  return [...news, ...patents].filter((document) => document.id && document.title);
+}
+
+// The same story usually sits in several periods; it is indexed once with every placement it has.
+export function collectDocuments(rows: Array<Record<string, any>>): IndexedDocument[] {
+  const documents = new Map<string, IndexedDocument>();
+  rows.flatMap(documentsFrom).forEach((document) => {
+    const existing = documents.get(document.id);
+    documents.set(
+      document.id,
+      existing
+        ? { ...existing, placements: Array.from(new Set([...existing.placements, ...document.placements])) }
+        : document,
+    );
+  });
+  return Array.from(documents.values());
+}
+
+function documentTokens(document: IndexedDocument): string[] {
+  const title = tokenize(document.title);
+  return [...Array.from({ length: titleBoost }, () => title).flat(), ...tokenize(document.summary)];
+}
+
+export function buildIndex(documents: IndexedDocument[], builtAt: string = new Date().toISOString()): SearchIndex {
+  const postings = new Map<string, Array<[number, number]>>();
+  const lengths = documents.map((document, index) => {
+    const tokens = documentTokens(document);
+    const counts = new Map<string, number>();
+    tokens.forEach((token) => counts.set(token, (counts.get(token) ?? 0) + 1));
+    counts.forEach((count, token) => {
+      const list = postings.get(token) ?? [];
+      list.push([index, count]);
+      postings.set(token, list);
+    });
+    return tokens.length;
+  });
+  return {
+    model: 'bm25-v1',
+    builtAt,
+    averageLength: lengths.length ? lengths.reduce((sum, length) => sum + length, 0) / lengths.length : 0,
+    documents,
+    lengths,
+    postings: Object.fromEntries(postings),
+  };
+}
+
+export function queryIndex(
+  index: SearchIndex,
+  query: string,
+  options: { section?: string; limit: number },
+): IndexMatch[] {
+  const terms = Array.from(new Set(tokenize(query)));
+  if (terms.length === 0 || index.documents.length === 0) {
+    return [];
+  }
+  const total = index.documents.length;
+  const scores = new Map<number, { score: number; matchedTerms: string[] }>();
+  terms.forEach((term) => {
+    // Own properties only: a query for "constructor" must not pick up Object.prototype.constructor.
+    const postings = Object.prototype.hasOwnProperty.call(index.postings, term) ? index.postings[term] : [];
+    const idf = Math.log(1 + (total - postings.length + 0.5) / (postings.length + 0.5));
+    postings.forEach(([documentIndex, frequency]) => {
+      const lengthRatio = index.averageLength ? index.lengths[documentIndex] / index.averageLength : 1;
+      const weight = (idf * frequency * (bm25K1 + 1)) / (frequency + bm25K1 * (1 - bm25B + bm25B * lengthRatio));
+      const entry = scores.get(documentIndex) ?? { score: 0, matchedTerms: [] };
+      entry.score += weight;
+      entry.matchedTerms.push(term);
+      scores.set(documentIndex, entry);
+    });
+  });
+  return Array.from(scores, ([documentIndex, entry]) => ({
+    document: index.documents[documentIndex],
+    score: Math.round(entry.score * 1000) / 1000,
+    matchedTerms: entry.matchedTerms,
+    coverage: entry.matchedTerms.length / terms.length,
+  }))
+    .filter(
+      ({ document }) =>
+        !options.section || document.placements.some((placement) => placement.startsWith(`${options.section}#`)),
+    )
+    .sort((a, b) => b.score - a.score)
+    .slice(0, options.limit);
+}
+
+export async function loadCachedDocuments(sections: string[]): Promise<IndexedDocument[]> {
+  if (!contentCacheTableName || sections.length === 0) {
+    return [];
+  }
+  const keys = sections.flatMap((section) =>
+    indexedPeriods.map((period) => ({ sectionPeriod: `${section}#${period}` })),
+  );
+  const rows: Array<Record<string, any>> = [];
+  for (let start = 0; start < keys.length; start += 100) {
+    const result = await docClient.send(
+      new BatchGetCommand({
+        RequestItems: {
+          [contentCacheTableName]: {
+            Keys: keys.slice(start, start + 100),
+            ProjectionExpression: 'sectionPeriod, newsArray, patentsArray',
+          },
+        },
+      }),
+    );
+    rows.push(...(result.Responses?.[contentCacheTableName] ?? []));
+  }
+  return collectDocuments(rows);
+}
+
+export async function storeSearchIndex(index: SearchIndex): Promise<void> {
+  if (!artifactsBucketName) {
+    return;
+  }
+  await s3Client.send(
+    new PutObjectCommand({
+      Bucket: artifactsBucketName,
+      Key: indexKey,
+      Body: JSON.stringify(index),
+      ContentType: 'application/json',
+    }),
+  );
+}
+
+export async function loadSearchIndex(): Promise<SearchIndex | null> {
+  if (!artifactsBucketName) {
+    return null;
+  }
+  try {
+    const result = await s3Client.send(new GetObjectCommand({ Bucket: artifactsBucketName, Key: indexKey }));
+    return JSON.parse((await result.Body?.transformToString()) ?? 'null') as SearchIndex | null;
+  } catch (error) {
+    if (!(error instanceof NoSuchKey)) {
+      console.warn('Unable to load search index', (error as Error).message);
+    }
+    return null;
+  }
+}
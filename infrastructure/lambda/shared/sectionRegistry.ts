@@ -0,0 +1,145 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, ScanCommand } from '@aws-sdk/lib-dynamodb';
+
+export interface SectionFeed {
+  url: string;
+  publisher?: string;
+}
+
+export interface SectionDefinition {
+  id: string;
+  label: string;
+  description: string;
+  keywords: string[];
+  feeds: SectionFeed[];
+  patentCpcCodes: string[];
+  enabled: boolean;
+  displayOrder: number;
+}
+
+interface CachedRegistry {
+  sections: SectionDefinition[];
+  loadedAt: number;
+}
+
+const docClient = DynamoDBDocumentClient.from(new DynamoDBClient({}));
+const sectionsTableName = process.env.SECTIONS_TABLE_NAME ?? '';
+const registryTtlMs = Number(process.env.SECTION_REGISTRY_TTL_MS ?? 5 * 60 * 1000);
+let cached: CachedRegistry | null = null;
+
+export const defaultSections: SectionDefinition[] = [
+  {
+    id: 'ai',
+    label: 'Artificial Intelligence',
+    description: 'Foundation models, generative AI and the policy debates around them.',
+    keywords: ['"artificial intelligence"', '"generative AI"', 'LLM'],
+    feeds: [
+      { url: 'https://techcrunch.com/category/artificial-intelligence/feed/', publisher: 'TechCrunch' },
+      { url: 'https://www.technologyreview.com/topic/artificial-intelligence/feed', publisher: 'MIT Technology Review' },
+    ],
+    patentCpcCodes: ['G06N', 'G06F40'],
+    enabled: true,
+    displayOrder: 10,
+  },
+  {
+    id: 'ml',
+    label: 'Machine Learning',
+    description: 'Research and tooling for training, evaluating and deploying models.',
+    keywords: ['"machine learning"', '"deep learning"', '"neural network"'],
+    feeds: [
+      { url: 'https://blog.research.google/feeds/posts/default', publisher: 'Google Research' },
+      { url: 'https://export.arxiv.org/rss/cs.LG', publisher: 'arXiv cs.LG' },
+    ],
+    patentCpcCodes: ['G06N3', 'G06N20'],
+    enabled: true,
+    displayOrder: 20,
+  },
+  {
+    id: 'iot',
+    label: 'Internet of Things',
+    description: 'Connected devices, edge computing and smart infrastructure.',
+    keywords: ['"internet of things"', 'IoT', '"edge computing"'],
+    feeds: [
+      { url: 'https://www.iotforall.com/feed', publisher: 'IoT For All' },
+      { url: 'https://www.theverge.com/rss/smart-home/index.xml', publisher: 'The Verge' },
+    ],
+    patentCpcCodes: ['G16Y', 'H04W4', 'H04L67'],
+    enabled: true,
+    displayOrder: 30,
+  },
+  {
+    id: 'quantum',
+    label: 'Quantum Computing',
+    description: 'Qubits, quantum hardware and post-quantum security.',
+    keywords: ['"quantum computing"', 'qubit', '"quantum processor"'],
+    feeds: [
+      { url: 'https://thequantuminsider.com/feed/', publisher: 'The Quantum Insider' },
+      { url: 'https://export.arxiv.org/rss/quant-ph', publisher: 'arXiv quant-ph' },
+    ],
+    patentCpcCodes: ['G06N10', 'B82Y10', 'H04L9/0852'],
+    enabled: true,
+    displayOrder: 40,
+  },
+];
+
+function toDefinition(item: Record<string, any>, fallback?: SectionDefinition): SectionDefinition {
+  return {
+    id: String(item.sectionId),
+    label: item.label ?? fallback?.label ?? String(item.sectionId).toUpperCase(),
+    description: item.description ?? fallback?.description ?? '',
+    keywords: Array.isArray(item.keywords) ? item.keywords : fallback?.keywords ?? [],
+    feeds: Array.isArray(item.feeds)
+      ? item.feeds.map((feed: string | SectionFeed) => (typeof feed === 'string' ? { url: feed } : feed))
+      : fallback?.feeds ?? [],
+    patentCpcCodes: Array.isArray(item.patentCpcCodes) ? item.patentCpcCodes : fallback?.patentCpcCodes ?? [],
+    enabled: item.enabled ?? fallback?.enabled ?? true,
+    displayOrder: Number(item.displayOrder ?? fallback?.displayOrder ?? 1000),
+  };
+}
+
+async function scanSections(): Promise<Array<Record<string, any>>> {
+  const items: Array<Record<string, any>> = [];
+  let startKey: Record<string, any> | undefined;
+  do {
+    const result = await docClient.send(
+      new ScanCommand({ TableName: sectionsTableName, ExclusiveStartKey: startKey }),
+    );
+    items.push(...(result.Items ?? []));
+    startKey = result.LastEvaluatedKey;
+  } while (startKey);
+  return items;
+}
+
+// Table rows override the built-in sections field by field, so a row only needs the attributes it changes.
+export async function loadSections(): Promise<SectionDefinition[]> {
+  if (cached && Date.now() - cached.loadedAt < registryTtlMs) {
+    return cached.sections;
+  }
+  const merged = new Map(defaultSections.map((section) => [section.id, section]));
+  if (sectionsTableName) {
+    try {
+      (await scanSections())
+        .filter((item) => typeof item.sectionId === 'string' && item.sectionId)
+        .forEach((item) => merged.set(item.sectionId, toDefinition(item, merged.get(item.sectionId))));
+    } catch (error) {
+      console.warn('Unable to load section registry, using built-in sections', (error as Error).message);
+    }
+  }
+  const sections = Array.from(merged.values()).sort(
+    (a, b) => a.displayOrder - b.displayOrder || a.id.localeCompare(b.id),
+  );
+  cached = { sections, loadedAt: Date.now() };
+  return sections;
+}
+
+export async function listEnabledSections(): Promise<SectionDefinition[]> {
+  return (await loadSections()).filter((section) => section.enabled);
+}
+
+export async function findSection(id: string): Promise<SectionDefinition | undefined> {
+  return (await loadSections()).find((section) => section.id === id);
+}
+
+export function clearSectionCache(): void {
+  cached = null;
+}
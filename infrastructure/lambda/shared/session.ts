@@ -0,0 +1,45 @@
+import { APIGatewayProxyEventV2 } from 'aws-lambda';
+
+export interface SessionCookie {
+  email?: string;
+  displayName?: string;
+}
+
+export function parseSession(event: APIGatewayProxyEventV2): SessionCookie | null {
+  const cookieHeader = event.headers?.cookie ?? event.headers?.Cookie;
+  if (!cookieHeader) {
+    return null;
+  }
+  const parts = cookieHeader.split(';').map((part) => part.trim());
+  const session = parts.find((part) => part.startsWith('tnh_session='));
+  if (!session) {
+    return null;
+  }
+  try {
+    const value = session.replace('tnh_session=', '');
+    const decoded = Buffer.from(value, 'base64url').toString('utf-8');
+    return JSON.parse(decoded) as SessionCookie;
+  } catch (error) {
+    console.warn('Failed to decode session cookie', error);
+    return null;
+  }
+}
+
+export function resolveEmail(event: APIGatewayProxyEventV2, session: SessionCookie | null): string | undefined {
+  const jwtClaims =
+    (event.requestContext as any)?.authorizer?.jwt?.claims ||
+    (event.requestContext as any)?.authorizer?.claims;
+  return (
+    session?.email ||
+    jwtClaims?.email ||
+    jwtClaims?.['custom:email'] ||
+    jwtClaims?.['cognito:username']
+  );
+}
+
+// Claims API Gateway's Cognito authorizer copied from an ID token whose signature and expiry it verified.
+// Unlike the session cookie, nothing in the request itself can set them.
+export function authorizedEmail(event: APIGatewayProxyEventV2): string | undefined {
+  const claims = (event.requestContext as any)?.authorizer?.claims;
+  return typeof claims?.email === 'string' && claims.email ? claims.email : undefined;
+}
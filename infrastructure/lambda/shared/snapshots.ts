@@ -0,0 +1,66 @@
+export interface SnapshotRef {
+  section: string;
+  timePeriod: string;
+  label: string;
+  startsAt: string;
+}
+
+const dayMs = 24 * 60 * 60 * 1000;
+
+function isoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function isoWeek(date: Date): { year: number; week: number; monday: Date } {
+  const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  const weekday = (day.getUTCDay() + 6) % 7;
+  const monday = new Date(day.getTime() - weekday * dayMs);
+  const thursday = new Date(monday.getTime() + 3 * dayMs);
+  const year = thursday.getUTCFullYear();
+  const firstThursday = new Date(Date.UTC(year, 0, 4));
+  const firstMonday = new Date(firstThursday.getTime() - ((firstThursday.getUTCDay() + 6) % 7) * dayMs);
+  return { year, week: Math.round((monday.getTime() - firstMonday.getTime()) / (7 * dayMs)) + 1, monday };
+}
+
+export function snapshotFor(section: string, timePeriod: string, at: Date = new Date()): SnapshotRef {
+  const year = at.getUTCFullYear();
+  const month = String(at.getUTCMonth() + 1).padStart(2, '0');
+  switch (timePeriod) {
+    case 'weekly': {
+      const { year: weekYear, week, monday } = isoWeek(at);
+      return { section, timePeriod, label: `${weekYear}-W${String(week).padStart(2, '0')}`, startsAt: isoDate(monday) };
+    }
+    case 'monthly':
+      return { section, timePeriod, label: `${year}-${month}`, startsAt: `${year}-${month}-01` };
+    case 'yearly':
+      return { section, timePeriod, label: `${year}`, startsAt: `${year}-01-01` };
+    default:
+      return { section, timePeriod, label: isoDate(at), startsAt: isoDate(at) };
+  }
+}
+
+// Accepts either a snapshot label for the period (2026-W42, 2026-10, 2026) or any ISO date inside it.
+export function resolveSnapshot(section: string, timePeriod: string, value: string): SnapshotRef | null {
+  const weekMatch = value.match(/^(\d{4})-W(\d{2})$/);
+  if (weekMatch && timePeriod === 'weekly') {
+    const jan4 = new Date(Date.UTC(Number(weekMatch[1]), 0, 4));
+    const firstMonday = new Date(jan4.getTime() - ((jan4.getUTCDay() + 6) % 7) * dayMs);
+    const ref = snapshotFor(section, timePeriod, new Date(firstMonday.getTime() + (Number(weekMatch[2]) - 1) * 7 * dayMs));
+    return ref.label === value ? ref : null;
+  }
+  const normalized =
+    /^\d{4}$/.test(value) ? `${value}-01-01` : /^\d{4}-\d{2}$/.test(value) ? `${value}-01` : value;
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(normalized)) {
+    return null;
+  }
+  const date = new Date(`${normalized}T00:00:00Z`);
+  return Number.isNaN(date.getTime()) ? null : snapshotFor(section, timePeriod, date);
+}
+
+export function snapshotSeries(section: string, timePeriod: string): string {
+  return `${section}#${timePeriod}`;
+}
+
+export function snapshotKey(ref: SnapshotRef): string {
+  return `${snapshotSeries(ref.section, ref.timePeriod)}#${ref.label}`;
+}
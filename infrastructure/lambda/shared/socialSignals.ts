@@ -0,0 +1,143 @@
+import { createHash } from 'crypto';
+import { httpClient } from './httpClient';
+
+export type EngagementTrend = 'rising' | 'steady' | 'falling';
+
+export interface SocialQuery {
+  title: string;
+  url?: string;
+}
+
+export interface SocialPost {
+  createdAt: string;
+  likes: number;
+  reposts: number;
+  replies: number;
+  quotes: number;
+}
+
+export interface SocialClient {
+  name: string;
+  lookup(query: SocialQuery): Promise<SocialPost[]>;
+}
+
+export interface EngagementSignal {
+  score: number;
+  mentions: number;
+  interactions: number;
+  trend: EngagementTrend;
+  velocity: number;
+  source: string;
+  checkedAt: string;
+}
+
+const dayMs = 24 * 60 * 60 * 1000;
+const lookbackDays = 7;
+const socialTimeoutMs = Number(process.env.SOCIAL_TIMEOUT_MS ?? 5000);
+
+function searchTerms(query: SocialQuery): string {
+  const terms: string[] = [];
+  if (query.url) {
+    const url = new URL(query.url);
+    terms.push(`url:"${url.hostname.replace(/^www\./, '')}${url.pathname.replace(/\/$/, '')}"`);
+  }
+  const title = query.title.replace(/["“”]/g, '').split(/\s+/).slice(0, 12).join(' ');
+  if (title) {
+    terms.push(`"${title}"`);
+  }
+  return `(${terms.join(' OR ')}) -is:retweet`;
+}
+
+export function createXClient(bearerToken: string): SocialClient {
+  return {
+    name: 'x',
+    async lookup(query) {
+      const response = await httpClient.get('https://api.twitter.com/2/tweets/search/recent', {
+        params: {
+          query: searchTerms(query),
+          max_results: 100,
+          'tweet.fields': 'created_at,public_metrics',
+        },
+        headers: { Authorization: `Bearer ${bearerToken}` },
+        timeout: socialTimeoutMs,
+      });
+      return (response.data?.data ?? []).map((tweet: any) => ({
+        createdAt: tweet.created_at,
+        likes: tweet.public_metrics?.like_count ?? 0,
+        reposts: tweet.public_metrics?.retweet_count ?? 0,
+        replies: tweet.public_metrics?.reply_count ?? 0,
+        quotes: tweet.public_metrics?.quote_count ?? 0,
+      }));
+    },
+  };
+}
+
+// Deterministic per item, so local runs and demos show stable, plausible numbers without an X account.
+export function createStubClient(now: Date = new Date()): SocialClient {
+  return {
+    name: 'stub',
+    async lookup(query) {
+      const seed = createHash('sha256').update(query.url ?? query.title).digest();
+      return Array.from({ length: seed[0] % 40 }).map((_, index) => ({
+        createdAt: new Date(now.getTime() - ((seed[index % seed.length] * 37 + index * 11) % (lookbackDays * 24)) * 3600000).toISOString(),
+        likes: seed[(index + 1) % seed.length] % 50,
+        reposts: seed[(index + 2) % seed.length] % 12,
+        replies: seed[(index + 3) % seed.length] % 8,
+        quotes: seed[(index + 4) % seed.length] % 4,
+      }));
+    },
+  };
+}
+
+export function resolveSocialClient(bearerToken?: string): SocialClient | null {
+  const configured = (process.env.SOCIAL_CLIENT ?? '').toLowerCase();
+  if (configured === 'none') {
+    return null;
+  }
+  if (configured === 'stub') {
+    return createStubClient();
+  }
+  return bearerToken ? createXClient(bearerToken) : null;
+}
+
+export function scoreEngagement(posts: SocialPost[], source: string, now: Date = new Date()): EngagementSignal {
+  const interactions = posts.reduce(
+    (acc, post) => acc + post.likes + post.reposts * 2 + post.replies * 1.5 + post.quotes * 2,
+    0,
+  );
+  const weighted = posts.length * 5 + interactions;
+  const recent = posts.filter((post) => now.getTime() - new Date(post.createdAt).getTime() <= dayMs).length;
+  const earlierDailyAverage = (posts.length - recent) / (lookbackDays - 1);
+  const velocity = earlierDailyAverage > 0 ? recent / earlierDailyAverage : recent > 0 ? recent : 1;
+  return {
+    score: Math.min(100, Math.round(20 * Math.log10(1 + weighted))),
+    mentions: posts.length,
+    interactions: Math.round(interactions),
+    trend: velocity >= 1.5 ? 'rising' : velocity <= 0.67 ? 'falling' : 'steady',
+    velocity: Math.round(velocity * 100) / 100,
+    source,
+    checkedAt: now.toISOString(),
+  };
+}
+
+export async function measureEngagement(
+  client: SocialClient,
+  queries: SocialQuery[],
+  concurrency = 3,
+): Promise<Array<EngagementSignal | null>> {
+  const results: Array<EngagementSignal | null> = new Array(queries.length).fill(null);
+  let next = 0;
+  const worker = async () => {
+    while (next < queries.length) {
+      const index = next;
+      next += 1;
+      try {
+        results[index] = scoreEngagement(await client.lookup(queries[index]), client.name);
+      } catch (error) {
+        console.warn(`${client.name} engagement lookup failed`, (error as Error).message);
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, queries.length) }).map(worker));
+  return results;
+}
@@ -0,0 +1,140 @@
+export interface StructuredItem {
+  title: string;
+  summary: string;
+  url?: string;
+  publishedAt?: string;
+  citations: string[];
+}
+
+export interface ParsedItems {
+  items: StructuredItem[];
+  discarded: number;
+  malformed: boolean;
+}
+
+export const structuredItemsInstruction = [
+  'Respond only with JSON matching this schema:',
+  '{"items":[{"title":string,"summary":string,"url":string,"publishedAt":"ISO-8601 date","citations":[string]}]}',
+  'Use an empty citations array when you have no sources. Do not wrap the JSON in markdown.',
+].join('\n');
+
+export const structuredItemsSchema = {
+  type: 'object',
+  properties: {
+    items: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          title: { type: 'string' },
+          summary: { type: 'string' },
+          url: { type: 'string' },
+          publishedAt: { type: 'string' },
+          citations: { type: 'array', items: { type: 'string' } },
+        },
+        required: ['title', 'summary'],
+      },
+    },
+  },
+  required: ['items'],
+};
+
+function asText(value: unknown): string | undefined {
+  if (typeof value === 'string') {
+    const trimmed = value.replace(/\s+/g, ' ').trim();
+    return trimmed.length > 0 ? trimmed : undefined;
+  }
+  if (typeof value === 'number') {
+    return String(value);
+  }
+  return undefined;
+}
+
+function asUrl(value: unknown): string | undefined {
+  const text = asText(value);
+  if (!text) {
+    return undefined;
+  }
+  try {
+    const parsed = new URL(text);
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:' ? parsed.toString() : undefined;
+  } catch (error) {
+    return undefined;
+  }
+}
+
+function asIsoDate(value: unknown): string | undefined {
+  const text = asText(value);
+  if (!text) {
+    return undefined;
+  }
+  const parsed = new Date(text);
+  return Number.isNaN(parsed.getTime()) ? undefined : parsed.toISOString();
+}
+
+function asCitations(value: unknown): string[] {
+  const entries = Array.isArray(value) ? value : value === undefined ? [] : [value];
+  return entries
+    .map((entry) => asUrl(typeof entry === 'object' && entry !== null ? (entry as any).url : entry))
+    .filter((entry): entry is string => Boolean(entry));
+}
+
+export function extractJson(text: string): unknown {
+  const unfenced = text.replace(/^\s*```(?:json)?\s*/i, '').replace(/\s*```\s*$/, '');
+  try {
+    return JSON.parse(unfenced);
+  } catch (error) {
+    const start = unfenced.search(/[[{]/);
+    const end = Math.max(unfenced.lastIndexOf('}'), unfenced.lastIndexOf(']'));
+    if (start === -1 || end <= start) {
+      return undefined;
+    }
+    try {
+      return JSON.parse(unfenced.slice(start, end + 1));
+    } catch (innerError) {
+      return undefined;
+    }
+  }
+}
+
+export function repairItem(raw: unknown): StructuredItem | null {
+  if (!raw || typeof raw !== 'object') {
+    return null;
+  }
+  const entry = raw as Record<string, any>;
+  const title = asText(entry.title ?? entry.headline ?? entry.name);
+  const summary = asText(entry.summary ?? entry.snippet ?? entry.description ?? entry.abstract ?? entry.content);
+  if (!title || !summary) {
+    return null;
+  }
+  return {
+    title,
+    summary,
+    url: asUrl(entry.url ?? entry.link ?? entry.source?.url ?? entry.sourceUrl),
+    publishedAt: asIsoDate(entry.publishedAt ?? entry.published_at ?? entry.date ?? entry.filingDate),
+    citations: asCitations(entry.citations ?? entry.sources),
+  };
+}
+
+export function validateItems(payload: unknown): ParsedItems {
+  const list = Array.isArray(payload)
+    ? payload
+    : Array.isArray((payload as any)?.items)
+      ? (payload as any).items
+      : Array.isArray((payload as any)?.results)
+        ? (payload as any).results
+        : null;
+  if (!list) {
+    return { items: [], discarded: 0, malformed: true };
+  }
+  const items = list.map(repairItem).filter((item: StructuredItem | null): item is StructuredItem => item !== null);
+  return { items, discarded: list.length - items.length, malformed: false };
+}
+
+export function parseStructuredText(text: string | undefined): ParsedItems {
+  if (!text) {
+    return { items: [], discarded: 0, malformed: true };
+  }
+  const payload = extractJson(text);
+  return payload === undefined ? { items: [], discarded: 0, malformed: true } : validateItems(payload);
+}
@@ -0,0 +1,154 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand, PutCommand, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import { EntityTag, extractEntities } from './entityTags';
+import { snapshotSeries } from './snapshots';
+
+export interface TrendTopic {
+  id: string;
+  name: string;
+  type: EntityTag['type'];
+  current: number;
+  baseline: number;
+  delta: number;
+  history: number[];
+  isNew: boolean;
+}
+
+export interface TrendReport {
+  section: string;
+  timePeriod: string;
+  snapshots: string[];
+  rising: TrendTopic[];
+  fading: TrendTopic[];
+  generatedAt: string;
+}
+
+const docClient = DynamoDBDocumentClient.from(new DynamoDBClient({}));
+const tableName = process.env.CONTENT_CACHE_TABLE_NAME ?? '';
+const snapshotIndexName = 'snapshot-index';
+const reportTtlSeconds = 7 * 24 * 60 * 60;
+const maxTopics = 10;
+const minDelta = 1;
+
+export const trendPeriods = ['daily', 'weekly', 'monthly'];
+
+const historyLength: Record<string, number> = {
+  daily: 14,
+  weekly: 8,
+  monthly: 6,
+};
+
+function trendKey(section: string, timePeriod: string): string {
+  return `trends#${section}#${timePeriod}`;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+async function loadSeries(section: string, timePeriod: string): Promise<Array<Record<string, any>>> {
+  const listed = await docClient.send(
+    new QueryCommand({
+      TableName: tableName,
+      IndexName: snapshotIndexName,
+      KeyConditionExpression: 'snapshotSeries = :series',
+      ExpressionAttributeValues: { ':series': snapshotSeries(section, timePeriod) },
+      ScanIndexForward: false,
+      Limit: historyLength[timePeriod] ?? historyLength.daily,
+    }),
+  );
+  const snapshots = await Promise.all(
+    (listed.Items ?? []).map((item) =>
+      docClient.send(new GetCommand({ TableName: tableName, Key: { sectionPeriod: item.sectionPeriod } })),
+    ),
+  );
+  return snapshots
+    .map((result) => result.Item)
+    .filter((item): item is Record<string, any> => Boolean(item))
+    .sort((a, b) => String(a.snapshotDate).localeCompare(String(b.snapshotDate)));
+}
+
+// Snapshots written before entity extraction existed get tagged on the fly so the history is not artificially flat.
+function snapshotEntities(snapshot: Record<string, any>): EntityTag[][] {
+  const news: any[] = Array.isArray(snapshot.newsArray) ? snapshot.newsArray : [];
+  const patents: any[] = Array.isArray(snapshot.patentsArray) ? snapshot.patentsArray : [];
+  return [
+    ...news.map((item) => item.entities ?? extractEntities(`${item.title}. ${item.summary ?? ''}`)),
+    ...patents.map((patent) => patent.entities ?? extractEntities(`${patent.title}. ${patent.abstract ?? ''}`)),
+  ];
+}
+
+function rankTopics(series: EntityTag[][][]): { rising: TrendTopic[]; fading: TrendTopic[] } {
+  const topics = new Map<string, EntityTag>();
+  const counts = series.map((items) => {
+    const perSnapshot = new Map<string, number>();
+    items.forEach((entities) =>
+      entities.forEach((entity) => {
+        topics.set(entity.id, entity);
+        perSnapshot.set(entity.id, (perSnapshot.get(entity.id) ?? 0) + 1);
+      }),
+    );
+    return perSnapshot;
+  });
+
+  const scored = Array.from(topics.values()).map((entity): TrendTopic => {
+    const history = counts.map((perSnapshot) => perSnapshot.get(entity.id) ?? 0);
+    const current = history[history.length - 1] ?? 0;
+    const previous = history.slice(0, -1);
+    const baseline = previous.length > 0 ? previous.reduce((acc, value) => acc + value, 0) / previous.length : 0;
+    return {
+      id: entity.id,
+      name: entity.name,
+      type: entity.type,
+      current,
+      baseline: round(baseline),
+      delta: round(current - baseline),
+      history,
+      isNew: previous.length > 0 && previous.every((value) => value === 0),
+    };
+  });
+
+  return {
+    rising: scored
+      .filter((topic) => topic.delta >= minDelta)
+      .sort((a, b) => b.delta - a.delta || b.current - a.current)
+      .slice(0, maxTopics),
+    fading: scored
+      .filter((topic) => topic.delta <= -minDelta)
+      .sort((a, b) => a.delta - b.delta || b.baseline - a.baseline)
+      .slice(0, maxTopics),
+  };
+}
+
+export async function detectTrends(section: string, timePeriod: string): Promise<TrendReport> {
+  const snapshots = await loadSeries(section, timePeriod);
+  const { rising, fading } = rankTopics(snapshots.map(snapshotEntities));
+  return {
+    section,
+    timePeriod,
+    snapshots: snapshots.map((snapshot) => snapshot.snapshotLabel),
+    rising,
+    fading,
+    generatedAt: new Date().toISOString(),
+  };
+}
+
+export async function storeTrends(report: TrendReport): Promise<void> {
+  await docClient.send(
+    new PutCommand({
+      TableName: tableName,
+      Item: {
+        sectionPeriod: trendKey(report.section, report.timePeriod),
+        report,
+        expiresAt: Math.floor(Date.now() / 1000) + reportTtlSeconds,
+      },
+    }),
+  );
+}
+
+export async function loadTrends(section: string, timePeriod: string): Promise<TrendReport | null> {
+  const result = await docClient.send(
+    new GetCommand({ TableName: tableName, Key: { sectionPeriod: trendKey(section, timePeriod) } }),
+  );
+  return (result.Item?.report as TrendReport | undefined) ?? null;
+}
@@ -0,0 +1,168 @@
+export interface ProviderEvidence {
+  provider: string;
+  texts: string[];
+  urls: string[];
+}
+
+export interface VerifiableItem {
+  title: string;
+  summary: string;
+  sourceUrl?: string;
+  sourceText?: string;
+  citationCount?: number;
+}
+
+export interface VerificationBreakdown {
+  score: number;
+  agreement: number;
+  corroboratedBy: string[];
+  consultedProviders: string[];
+  sourceMatch: number | null;
+  citationScore: number;
+  reputationScore: number;
+  weights: Record<'agreement' | 'sourceMatch' | 'citation' | 'reputation', number>;
+}
+
+const weights: VerificationBreakdown['weights'] = {
+  agreement: 0.4,
+  sourceMatch: 0.2,
+  citation: 0.15,
+  reputation: 0.25,
+};
+
+const domainReputation: Record<string, number> = {
+  'arxiv.org': 0.95,
+  'nature.com': 0.95,
+  'science.org': 0.95,
+  'ieee.org': 0.9,
+  'acm.org': 0.9,
+  'technologyreview.com': 0.85,
+  'reuters.com': 0.85,
+  'apnews.com': 0.85,
+  'bloomberg.com': 0.8,
+  'ft.com': 0.8,
+  'wired.com': 0.75,
+  'arstechnica.com': 0.75,
+  'theverge.com': 0.7,
+  'techcrunch.com': 0.7,
+  'venturebeat.com': 0.65,
+  'thequantuminsider.com': 0.65,
+  'iotforall.com': 0.6,
+  'prnewswire.com': 0.3,
+  'businesswire.com': 0.3,
+  'globenewswire.com': 0.3,
+};
+
+const stopWords = new Set([
+  'the', 'a', 'an', 'and', 'or', 'of', 'to', 'in', 'on', 'for', 'with', 'by', 'at', 'from', 'as', 'is', 'are',
+  'its', 'it', 'new', 'how', 'why', 'what', 'this', 'that', 'be', 'has', 'have', 'will', 'after', 'into',
+]);
+
+function stem(token: string): string {
+  if (token.length > 5 && token.endsWith('ing')) {
+    return token.slice(0, -3);
+  }
+  if (token.length > 4 && token.endsWith('ed')) {
+    return token.slice(0, -2);
+  }
+  if (token.length > 4 && token.endsWith('s') && !token.endsWith('ss')) {
+    return token.slice(0, -1);
+  }
+  return token;
+}
+
+export function tokenize(value: string): string[] {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter((token) => token.length > 2 && !stopWords.has(token))
+    .map(stem);
+}
+
+export function overlapRatio(needle: string, haystack: string): number {
+  const needleTokens = Array.from(new Set(tokenize(needle)));
+  if (needleTokens.length === 0) {
+    return 0;
+  }
+  const haystackTokens = new Set(tokenize(haystack));
+  const hits = needleTokens.filter((token) => haystackTokens.has(token)).length;
+  return hits / needleTokens.length;
+}
+
+export function hostnameOf(url?: string): string | undefined {
+  if (!url) {
+    return undefined;
+  }
+  try {
+    return new URL(url).hostname.replace(/^www\./, '').toLowerCase();
+  } catch (error) {
+    return undefined;
+  }
+}
+
+export function sourceReputation(url?: string): number {
+  const host = hostnameOf(url);
+  if (!host) {
+    return 0.3;
+  }
+  const entry = Object.entries(domainReputation).find(
+    ([domain]) => host === domain || host.endsWith(`.${domain}`),
+  );
+  return entry ? entry[1] : 0.5;
+}
+
+function normalizeUrl(url: string): string {
+  return url.replace(/[?#].*$/, '').replace(/\/$/, '').toLowerCase();
+}
+
+function isCorroborated(item: VerifiableItem, evidence: ProviderEvidence): boolean {
+  if (item.sourceUrl && evidence.urls.some((url) => normalizeUrl(url) === normalizeUrl(item.sourceUrl!))) {
+    return true;
+  }
+  return evidence.texts.some((text) => overlapRatio(item.title, text) >= 0.6);
+}
+
+export function scoreItem(item: VerifiableItem, evidence: ProviderEvidence[]): VerificationBreakdown {
+  const consultedProviders = evidence.map((entry) => entry.provider);
+  const corroboratedBy = evidence.filter((entry) => isCorroborated(item, entry)).map((entry) => entry.provider);
+  const agreement = consultedProviders.length > 0 ? corroboratedBy.length / consultedProviders.length : 0.5;
+  const sourceMatch = item.sourceText ? Math.min(1, overlapRatio(item.summary, item.sourceText) * 1.5) : null;
+  const citationScore = Math.min(1, (item.sourceUrl ? 0.6 : 0) + 0.2 * (item.citationCount ?? 0));
+  const reputationScore = sourceReputation(item.sourceUrl);
+
+  const components: Array<[number, number]> = [
+    [agreement, weights.agreement],
+    [citationScore, weights.citation],
+    [reputationScore, weights.reputation],
+  ];
+  if (sourceMatch !== null) {
+    components.push([sourceMatch, weights.sourceMatch]);
+  }
+  const totalWeight = components.reduce((acc, [, weight]) => acc + weight, 0);
+  const score = Math.round((components.reduce((acc, [value, weight]) => acc + value * weight, 0) / totalWeight) * 100);
+
+  return {
+    score,
+    agreement: Math.round(agreement * 100) / 100,
+    corroboratedBy,
+    consultedProviders,
+    sourceMatch: sourceMatch === null ? null : Math.round(sourceMatch * 100) / 100,
+    citationScore: Math.round(citationScore * 100) / 100,
+    reputationScore,
+    weights,
+  };
+}
+
+export function summarizeScores(scores: number[], providers: string[]): string {
+  if (scores.length === 0) {
+    return 'No items were available to verify.';
+  }
+  const sorted = [...scores].sort((a, b) => a - b);
+  const median = sorted[Math.floor(sorted.length / 2)];
+  const high = scores.filter((score) => score >= 75).length;
+  const low = scores.filter((score) => score < 50).length;
+  const medium = scores.length - high - low;
+  const consensus = providers.length > 0 ? `cross-checked with ${providers.join(', ')}` : 'no second provider available';
+  return `Median verification ${median}% across ${scores.length} items (${high} high, ${medium} medium, ${low} low); ${consensus}.`;
+}
@@ -0,0 +1,296 @@
+import { ConditionalCheckFailedException, DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  DeleteCommand,
+  DynamoDBDocumentClient,
+  GetCommand,
+  PutCommand,
+  QueryCommand,
+  ScanCommand,
+  UpdateCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { assigneeName } from './contentLinks';
+
+export interface WatchlistCriteria {
+  name: string;
+  assignees: string[];
+  cpcCodes: string[];
+  keywords: string[];
+}
+
+export interface Watchlist extends WatchlistCriteria {
+  email: string;
+  watchlistId: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WatchablePatent {
+  id: string;
+  title: string;
+  abstract?: string;
+  summary?: string;
+  patentNumber?: string;
+  assignees?: string[];
+  cpcCodes?: string[];
+  grantDate?: string;
+  sourceUrl?: string;
+}
+
+export interface WatchlistMatch {
+  email: string;
+  matchKey: string;
+  watchlistId: string;
+  watchlistName: string;
+  itemId: string;
+  patentNumber?: string;
+  title: string;
+  assignees: string[];
+  grantDate?: string;
+  sourceUrl?: string;
+  section: string;
+  timePeriod: string;
+  reasons: string[];
+  matchedAt: string;
+}
+
+const docClient = DynamoDBDocumentClient.from(new DynamoDBClient({}));
+const watchlistsTableName = process.env.WATCHLISTS_TABLE_NAME ?? '';
+const matchesTableName = process.env.WATCHLIST_MATCHES_TABLE_NAME ?? '';
+// The user's alert state (read marker, browser sessions to push to) shares the partition with their watchlists.
+const subscriberKey = '#subscriber';
+const matchTtlSeconds = 90 * 24 * 60 * 60;
+const maxSessions = 10;
+
+export const watchlistLimits = {
+  perUser: 20,
+  termsPerField: 20,
+  termLength: 80,
+};
+
+const cpcPattern = /^[A-HY](\d{2}([A-Z](\d{1,4}(\/\d{1,6})?)?)?)?$/;
+
+function cleanTerms(value: unknown): string[] | null {
+  if (value === undefined) {
+    return [];
+  }
+  if (!Array.isArray(value) || !value.every((entry) => typeof entry === 'string')) {
+    return null;
+  }
+  const terms = value.map((entry: string) => entry.replace(/\s+/g, ' ').trim()).filter(Boolean);
+  return Array.from(new Set(terms));
+}
+
+export function validateCriteria(body: Record<string, any>): WatchlistCriteria | string {
+  if (typeof body.name !== 'string' || !body.name.trim()) {
+    return 'name must be a non-empty string';
+  }
+  const assignees = cleanTerms(body.assignees);
+  const keywords = cleanTerms(body.keywords);
+  const cpcCodes = cleanTerms(body.cpcCodes)?.map((code) => code.replace(/\s+/g, '').toUpperCase()) ?? null;
+  if (!assignees || !keywords || !cpcCodes) {
+    return 'assignees, cpcCodes and keywords must be arrays of strings';
+  }
+  if (assignees.length + cpcCodes.length + keywords.length === 0) {
+    return 'A watchlist needs at least one assignee, CPC code or keyword';
+  }
+  const fields = { assignees, cpcCodes, keywords };
+  const oversized = Object.entries(fields).find(
+    ([, terms]) =>
+      terms.length > watchlistLimits.termsPerField || terms.some((term) => term.length > watchlistLimits.termLength),
+  );
+  if (oversized) {
+    const { termsPerField, termLength } = watchlistLimits;
+    return `${oversized[0]} allows up to ${termsPerField} terms of ${termLength} characters each`;
+  }
+  const badCode = cpcCodes.find((code) => !cpcPattern.test(code));
+  if (badCode) {
+    return `${badCode} is not a CPC code such as G06N or H01L21/02`;
+  }
+  return { name: body.name.trim().slice(0, watchlistLimits.termLength), ...fields };
+}
+
+function normalizeText(text: string): string {
+  return ` ${text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()} `;
+}
+
+// Every field a watchlist fills in must match (assignee AND CPC code AND keyword); within a field any term will do.
+export function matchWatchlist(watchlist: WatchlistCriteria, patent: WatchablePatent): string[] | null {
+  const reasons: string[] = [];
+
+  if (watchlist.assignees.length > 0) {
+    const wanted = watchlist.assignees.map((name) => ` ${assigneeName(name)} `).filter((name) => name.trim());
+    const assignee = (patent.assignees ?? []).find((name) =>
+      wanted.some((term) => ` ${assigneeName(name)} `.includes(term)),
+    );
+    if (!assignee) {
+      return null;
+    }
+    reasons.push(`Assignee ${assignee}`);
+  }
+
+  if (watchlist.cpcCodes.length > 0) {
+    const code = (patent.cpcCodes ?? []).find((cpc) =>
+      watchlist.cpcCodes.some((prefix) => cpc.replace(/\s+/g, '').toUpperCase().startsWith(prefix)),
+    );
+    if (!code) {
+      return null;
+    }
+    reasons.push(`CPC ${code}`);
+  }
+
+  if (watchlist.keywords.length > 0) {
+    const text = normalizeText(`${patent.title} ${patent.abstract ?? ''} ${patent.summary ?? ''}`);
+    const keywords = watchlist.keywords.filter((keyword) => {
+      const phrase = normalizeText(keyword);
+      return phrase.trim() !== '' && text.includes(phrase);
+    });
+    if (keywords.length === 0) {
+      return null;
+    }
+    reasons.push(`Keywords: ${keywords.slice(0, 4).join(', ')}`);
+  }
+
+  return reasons;
+}
+
+export async function listWatchlists(email: string): Promise<Watchlist[]> {
+  const result = await docClient.send(
+    new QueryCommand({
+      TableName: watchlistsTableName,
+      KeyConditionExpression: 'email = :email',
+      ExpressionAttributeValues: { ':email': email },
+    }),
+  );
+  return ((result.Items ?? []) as Watchlist[])
+    .filter((item) => item.watchlistId !== subscriberKey)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export async function loadWatchlist(email: string, watchlistId: string): Promise<Watchlist | null> {
+  if (watchlistId === subscriberKey) {
+    return null;
+  }
+  const result = await docClient.send(new GetCommand({ TableName: watchlistsTableName, Key: { email, watchlistId } }));
+  return (result.Item as Watchlist | undefined) ?? null;
+}
+
+export async function saveWatchlist(watchlist: Watchlist): Promise<void> {
+  await docClient.send(new PutCommand({ TableName: watchlistsTableName, Item: watchlist }));
+}
+
+export async function deleteWatchlist(email: string, watchlistId: string): Promise<boolean> {
+  try {
+    await docClient.send(
+      new DeleteCommand({
+        TableName: watchlistsTableName,
+        Key: { email, watchlistId },
+        ConditionExpression: 'attribute_exists(watchlistId)',
+      }),
+    );
+    return true;
+  } catch (error) {
+    if (error instanceof ConditionalCheckFailedException) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+export async function scanWatchlists(): Promise<Watchlist[]> {
+  const items: Watchlist[] = [];
+  let startKey: Record<string, any> | undefined;
+  do {
+    const result = await docClient.send(
+      new ScanCommand({ TableName: watchlistsTableName, ExclusiveStartKey: startKey }),
+    );
+    items.push(...((result.Items ?? []) as Watchlist[]).filter((item) => item.watchlistId !== subscriberKey));
+    startKey = result.LastEvaluatedKey;
+  } while (startKey);
+  return items;
+}
+
+// A browser session is remembered when its signed-in user loads their alerts, so the refresh can push to that
+// session's WebSocket connections. Only the most recent few are kept.
+export async function rememberSession(email: string, sessionId: string): Promise<void> {
+  const subscriber = await loadSubscriber(email);
+  const sessionIds = [sessionId, ...subscriber.sessionIds.filter((id) => id !== sessionId)].slice(0, maxSessions);
+  if (sessionIds.join(',') === subscriber.sessionIds.join(',')) {
+    return;
+  }
+  await docClient.send(
+    new UpdateCommand({
+      TableName: watchlistsTableName,
+      Key: { email, watchlistId: subscriberKey },
+      UpdateExpression: 'SET sessionIds = :sessionIds',
+      ExpressionAttributeValues: { ':sessionIds': sessionIds },
+    }),
+  );
+}
+
+export async function markMatchesRead(email: string, readAt: string): Promise<void> {
+  await docClient.send(
+    new UpdateCommand({
+      TableName: watchlistsTableName,
+      Key: { email, watchlistId: subscriberKey },
+      UpdateExpression: 'SET lastReadAt = :readAt',
+      ExpressionAttributeValues: { ':readAt': readAt },
+    }),
+  );
+}
+
+export async function loadSubscriber(email: string): Promise<{ sessionIds: string[]; lastReadAt?: string }> {
+  const result = await docClient.send(
+    new GetCommand({ TableName: watchlistsTableName, Key: { email, watchlistId: subscriberKey } }),
+  );
+  return {
+    sessionIds: (result.Item?.sessionIds as string[] | undefined) ?? [],
+    lastReadAt: result.Item?.lastReadAt as string | undefined,
+  };
+}
+
+// Each patent alerts a watchlist once: the put only lands if that pairing has never matched before.
+export async function recordMatches(matches: WatchlistMatch[]): Promise<WatchlistMatch[]> {
+  if (!matchesTableName || matches.length === 0) {
+    return [];
+  }
+  const ttl = Math.floor(Date.now() / 1000) + matchTtlSeconds;
+  const results = await Promise.allSettled(
+    matches.map((match) =>
+      docClient.send(
+        new PutCommand({
+          TableName: matchesTableName,
+          Item: Object.fromEntries(Object.entries({ ...match, ttl }).filter(([, value]) => value !== undefined)),
+          ConditionExpression: 'attribute_not_exists(matchKey)',
+        }),
+      ),
+    ),
+  );
+  const failures = results.filter(
+    (result) => result.status === 'rejected' && !(result.reason instanceof ConditionalCheckFailedException),
+  ).length;
+  if (failures > 0) {
+    console.warn(`Watchlist matches: ${failures}/${matches.length} writes failed`);
+  }
+  return matches.filter((_, index) => results[index].status === 'fulfilled');
+}
+
+export async function listMatches(email: string, limit: number): Promise<WatchlistMatch[]> {
+  const items: Array<WatchlistMatch & { ttl?: number }> = [];
+  let startKey: Record<string, any> | undefined;
+  do {
+    const result = await docClient.send(
+      new QueryCommand({
+        TableName: matchesTableName,
+        KeyConditionExpression: 'email = :email',
+        ExpressionAttributeValues: { ':email': email },
+        ExclusiveStartKey: startKey,
+      }),
+    );
+    items.push(...((result.Items ?? []) as Array<WatchlistMatch & { ttl?: number }>));
+    startKey = result.LastEvaluatedKey;
+  } while (startKey);
+  return items
+    .map(({ ttl, ...match }) => match)
+    .sort((a, b) => b.matchedAt.localeCompare(a.matchedAt))
+    .slice(0, limit);
+}
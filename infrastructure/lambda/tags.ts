@@ -0,0 +1,113 @@
+import { APIGatewayProxyEventV2, APIGatewayProxyResultV2 } from 'aws-lambda';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, QueryCommand } from '@aws-sdk/lib-dynamodb';
+
+interface TaggedContent {
+  itemId: string;
+  title: string;
+  summary: string;
+  sourceUrl?: string;
+  publishedAt?: string;
+  placements: string[];
+}
+
+interface TagResponse {
+  tag: {
+    id: string;
+    name: string;
+    type: string;
+    sections: string[];
+    lastSeenAt?: string;
+  };
+  news: TaggedContent[];
+  patents: TaggedContent[];
+  generatedAt: string;
+}
+
+const tableName = process.env.ENTITY_INDEX_TABLE_NAME ?? '';
+const maxPages = 5;
+const docClient = DynamoDBDocumentClient.from(new DynamoDBClient({}));
+
+const headers = {
+  'Content-Type': 'application/json',
+  'Access-Control-Allow-Origin': '*',
+  'Cache-Control': 'no-store',
+};
+
+function respond(statusCode: number, body: unknown): APIGatewayProxyResultV2 {
+  return { statusCode, headers, body: JSON.stringify(body) };
+}
+
+function toContent(item: Record<string, any>): TaggedContent {
+  return {
+    itemId: item.itemId,
+    title: item.title,
+    summary: item.summary,
+    sourceUrl: item.sourceUrl ?? undefined,
+    publishedAt: item.publishedAt,
+    placements: Array.from((item.placements as Set<string> | undefined) ?? []).sort(),
+  };
+}
+
+async function queryTag(tagId: string): Promise<Array<Record<string, any>>> {
+  const items: Array<Record<string, any>> = [];
+  let startKey: Record<string, any> | undefined;
+  let page = 0;
+  do {
+    const result = await docClient.send(
+      new QueryCommand({
+        TableName: tableName,
+        KeyConditionExpression: 'tagId = :tagId',
+        ExpressionAttributeValues: { ':tagId': tagId },
+        ExclusiveStartKey: startKey,
+      }),
+    );
+    items.push(...(result.Items ?? []));
+    startKey = result.LastEvaluatedKey;
+    page += 1;
+  } while (startKey && page < maxPages);
+  return items;
+}
+
+export const handler = async (event: APIGatewayProxyEventV2): Promise<APIGatewayProxyResultV2> => {
+  const tagId = decodeURIComponent(event.pathParameters?.tagId ?? '').toLowerCase();
+  const section = event.queryStringParameters?.section;
+  const limit = Math.min(Math.max(Number.parseInt(event.queryStringParameters?.limit ?? '', 10) || 50, 1), 200);
+
+  if (!tagId) {
+    return respond(400, { message: 'tagId is required' });
+  }
+  if (!tableName) {
+    return respond(503, { message: 'Entity index is not configured' });
+  }
+
+  try {
+    const rows = await queryTag(tagId);
+    const meta = rows.find((row) => row.refKey === '#META');
+    if (!meta) {
+      return respond(404, { message: `No content tagged ${tagId}` });
+    }
+    const content = rows
+      .filter((row) => row.refKey !== '#META')
+      .map((row) => ({ kind: row.kind as string, content: toContent(row) }))
+      .filter(({ content }) => !section || content.placements.some((placement) => placement.startsWith(`${section}#`)))
+      .sort((a, b) => (b.content.publishedAt ?? '').localeCompare(a.content.publishedAt ?? ''));
+
+    const response: TagResponse = {
+      tag: {
+        id: tagId,
+        name: meta.name,
+        type: meta.entityType,
+        sections: Array.from((meta.sections as Set<string> | undefined) ?? []).sort(),
+        lastSeenAt: meta.lastSeenAt,
+      },
+      news: content.filter((entry) => entry.kind === 'news').slice(0, limit).map((entry) => entry.content),
+      patents: content.filter((entry) => entry.kind === 'patent').slice(0, limit).map((entry) => entry.content),
+      generatedAt: new Date().toISOString(),
+    };
+    return respond(200, response);
+  } catch (error) {
+    console.error('Failed to read entity index', error);
+    return respond(500, { message: 'Unable to load tagged content' });
+  }
+};
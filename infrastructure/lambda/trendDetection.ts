@@ -0,0 +1,25 @@
+import { listEnabledSections } from './shared/sectionRegistry';
+import { detectTrends, storeTrends, trendPeriods } from './shared/trends';
+
+interface TrendDetectionEvent {
+  sections?: string[];
+  timePeriods?: string[];
+}
+
+export const handler = async (event: TrendDetectionEvent = {}) => {
+  const sections = event.sections ?? (await listEnabledSections()).map((section) => section.id);
+  const timePeriods = (event.timePeriods ?? trendPeriods).filter((period) => trendPeriods.includes(period));
+
+  const jobs = sections.flatMap((section) => timePeriods.map((timePeriod) => ({ section, timePeriod })));
+  const results = await Promise.allSettled(
+    jobs.map(async ({ section, timePeriod }) => {
+      const report = await detectTrends(section, timePeriod);
+      await storeTrends(report);
+      return report;
+    }),
+  );
+
+  const failed = results.filter((result) => result.status === 'rejected');
+  failed.forEach((result) => console.error('Trend detection failed', (result as PromiseRejectedResult).reason));
+  return { detected: results.length - failed.length, failed: failed.length };
+};
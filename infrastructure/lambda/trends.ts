@@ -0,0 +1,39 @@
+import { APIGatewayProxyEventV2, APIGatewayProxyResultV2 } from 'aws-lambda';
+import { findSection } from './shared/sectionRegistry';
+import { detectTrends, loadTrends, storeTrends, trendPeriods } from './shared/trends';
+
+const headers = {
+  'Content-Type': 'application/json',
+  'Access-Control-Allow-Origin': '*',
+  'Cache-Control': 'no-store',
+};
+
+function respond(statusCode: number, body: unknown): APIGatewayProxyResultV2 {
+  return { statusCode, headers, body: JSON.stringify(body) };
+}
+
+export const handler = async (event: APIGatewayProxyEventV2): Promise<APIGatewayProxyResultV2> => {
+  const section = event.pathParameters?.section ?? '';
+  const timePeriod = event.queryStringParameters?.period ?? 'daily';
+
+  if (!trendPeriods.includes(timePeriod)) {
+    return respond(400, { message: `period must be one of ${trendPeriods.join(', ')}` });
+  }
+
+  try {
+    if (!(await findSection(section))) {
+      return respond(404, { message: `Unknown section ${section}` });
+    }
+    const stored = await loadTrends(section, timePeriod);
+    if (stored) {
+      return respond(200, stored);
+    }
+    // Sections added since the last refresh have no stored report yet; compute one now rather than returning nothing.
+    const report = await detectTrends(section, timePeriod);
+    await storeTrends(report);
+    return respond(200, report);
+  } catch (error) {
+    console.error('Failed to load trends', error);
+    return respond(500, { message: 'Unable to load trends' });
+  }
+};
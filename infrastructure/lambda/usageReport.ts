@@ -0,0 +1,147 @@
+import { APIGatewayProxyEventV2, APIGatewayProxyResultV2 } from 'aws-lambda';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import { ProviderBudget, budgetFor, usageDay, usageMonth } from './shared/aiUsage';
+
+interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+interface ProviderUsageReport extends UsageTotals {
+  provider: string;
+  budget?: ProviderBudget;
+  monthToDateUsd: number;
+  days: Array<UsageTotals & { date: string }>;
+  byCaller: Record<string, UsageTotals>;
+  bySection: Record<string, UsageTotals>;
+}
+
+interface UsageReportResponse {
+  from: string;
+  to: string;
+  providers: ProviderUsageReport[];
+  generatedAt: string;
+}
+
+const tableName = process.env.AI_USAGE_TABLE_NAME ?? '';
+const docClient = DynamoDBDocumentClient.from(new DynamoDBClient({}));
+const dayMs = 24 * 60 * 60 * 1000;
+const maxRangeDays = 93;
+
+const headers = {
+  'Content-Type': 'application/json',
+  'Access-Control-Allow-Origin': '*',
+  'Cache-Control': 'no-store',
+};
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 };
+}
+
+function toTotals(item: Record<string, any> | undefined): UsageTotals {
+  return {
+    calls: Number(item?.calls ?? 0),
+    inputTokens: Number(item?.inputTokens ?? 0),
+    outputTokens: Number(item?.outputTokens ?? 0),
+    costUsd: Number(item?.costUsd ?? 0),
+  };
+}
+
+function addTotals(target: UsageTotals, source: UsageTotals): UsageTotals {
+  return {
+    calls: target.calls + source.calls,
+    inputTokens: target.inputTokens + source.inputTokens,
+    outputTokens: target.outputTokens + source.outputTokens,
+    costUsd: Math.round((target.costUsd + source.costUsd) * 1_000_000) / 1_000_000,
+  };
+}
+
+function parseDate(value: string | undefined, fallback: Date): Date {
+  const parsed = value && /^\d{4}-\d{2}-\d{2}$/.test(value) ? new Date(`${value}T00:00:00Z`) : fallback;
+  return Number.isNaN(parsed.getTime()) ? fallback : parsed;
+}
+
+function dateRange(from: Date, to: Date): string[] {
+  const days: string[] = [];
+  for (let at = from.getTime(); at <= to.getTime() && days.length < maxRangeDays; at += dayMs) {
+    days.push(usageDay(new Date(at)));
+  }
+  return days;
+}
+
+async function reportProvider(provider: string, days: string[]): Promise<ProviderUsageReport> {
+  const [dailyCounters, monthTotal] = await Promise.all([
+    Promise.all(
+      days.map(async (date) => {
+        const result = await docClient.send(
+          new QueryCommand({
+            TableName: tableName,
+            KeyConditionExpression: 'usagePeriod = :period AND begins_with(recordId, :counter)',
+            ExpressionAttributeValues: { ':period': `${provider}#${date}`, ':counter': '#' },
+          }),
+        );
+        return { date, counters: result.Items ?? [] };
+      }),
+    ),
+    docClient.send(
+      new GetCommand({ TableName: tableName, Key: { usagePeriod: `${provider}#${usageMonth()}`, recordId: '#TOTAL' } }),
+    ),
+  ]);
+
+  const report: ProviderUsageReport = {
+    provider,
+    ...emptyTotals(),
+    budget: budgetFor(provider),
+    monthToDateUsd: toTotals(monthTotal.Item).costUsd,
+    days: [],
+    byCaller: {},
+    bySection: {},
+  };
+
+  dailyCounters.forEach(({ date, counters }) => {
+    counters.forEach((counter) => {
+      const totals = toTotals(counter);
+      const [, dimension, name] = String(counter.recordId).split('#');
+      if (dimension === 'TOTAL') {
+        report.days.push({ date, ...totals });
+        Object.assign(report, addTotals(report, totals));
+      } else if (dimension === 'CALLER') {
+        report.byCaller[name] = addTotals(report.byCaller[name] ?? emptyTotals(), totals);
+      } else if (dimension === 'SECTION') {
+        report.bySection[name] = addTotals(report.bySection[name] ?? emptyTotals(), totals);
+      }
+    });
+  });
+  return report;
+}
+
+export const handler = async (event: APIGatewayProxyEventV2): Promise<APIGatewayProxyResultV2> => {
+  const query = event.queryStringParameters ?? {};
+  const to = parseDate(query.to, new Date());
+  const from = parseDate(query.from, new Date(to.getTime() - 6 * dayMs));
+  const providers = (query.provider ?? process.env.AI_PROVIDER_ORDER ?? 'perplexity,gemini,chatgpt')
+    .split(',')
+    .map((name) => name.trim())
+    .filter(Boolean);
+
+  if (!tableName) {
+    return { statusCode: 503, headers, body: JSON.stringify({ message: 'AI usage tracking is not configured' }) };
+  }
+
+  try {
+    const days = dateRange(from, to);
+    const response: UsageReportResponse = {
+      from: usageDay(from),
+      to: days[days.length - 1] ?? usageDay(to),
+      providers: await Promise.all(providers.map((provider) => reportProvider(provider, days))),
+      generatedAt: new Date().toISOString(),
+    };
+    return { statusCode: 200, headers, body: JSON.stringify(response) };
+  } catch (error) {
+    console.error('Failed to build AI usage report', error);
+    return { statusCode: 500, headers, body: JSON.stringify({ message: 'Unable to build usage report' }) };
+  }
+};
@@ -0,0 +1,161 @@
+import { ApiGatewayManagementApiClient, PostToConnectionCommand } from '@aws-sdk/client-apigatewaymanagementapi';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand, ScanCommand } from '@aws-sdk/lib-dynamodb';
+import { listEnabledSections } from './shared/sectionRegistry';
+import {
+  WatchablePatent,
+  WatchlistMatch,
+  loadSubscriber,
+  matchWatchlist,
+  recordMatches,
+  scanWatchlists,
+} from './shared/watchlists';
+
+interface WatchlistAlertEvent {
+  sections?: string[];
+  timePeriods?: string[];
+}
+
+const tableName = process.env.CONTENT_CACHE_TABLE_NAME ?? '';
+const websocketTableName = process.env.WEBSOCKET_SESSIONS_TABLE_NAME ?? '';
+const websocketEndpoint = process.env.WEBSOCKET_ENDPOINT ?? '';
+const defaultPeriods = ['daily', 'weekly', 'monthly', 'yearly'];
+const maxPushedMatches = 5;
+
+const docClient = DynamoDBDocumentClient.from(new DynamoDBClient({}));
+const websocketClient = websocketEndpoint
+  ? new ApiGatewayManagementApiClient({ endpoint: websocketEndpoint })
+  : undefined;
+
+async function loadCachedPatents(
+  section: string,
+  timePeriod: string,
+): Promise<Array<{ patent: WatchablePatent; section: string; timePeriod: string }>> {
+  const result = await docClient.send(
+    new GetCommand({ TableName: tableName, Key: { sectionPeriod: `${section}#${timePeriod}` } }),
+  );
+  const patents = (result.Item?.patentsArray as WatchablePatent[] | undefined) ?? [];
+  return patents.filter((patent) => patent?.id && patent.title).map((patent) => ({ patent, section, timePeriod }));
+}
+
+async function connectionsBySession(): Promise<Map<string, string[]>> {
+  const connections = new Map<string, string[]>();
+  if (!websocketTableName) {
+    return connections;
+  }
+  let startKey: Record<string, any> | undefined;
+  do {
+    const result = await docClient.send(
+      new ScanCommand({
+        TableName: websocketTableName,
+        ProjectionExpression: 'connectionId, sessionId',
+        ExclusiveStartKey: startKey,
+      }),
+    );
+    (result.Items ?? []).forEach((item) => {
+      if (item.connectionId && item.sessionId) {
+        connections.set(item.sessionId, [...(connections.get(item.sessionId) ?? []), item.connectionId]);
+      }
+    });
+    startKey = result.LastEvaluatedKey;
+  } while (startKey);
+  return connections;
+}
+
+async function pushMatches(matches: WatchlistMatch[]): Promise<number> {
+  if (!websocketClient || matches.length === 0) {
+    return 0;
+  }
+  const byEmail = new Map<string, WatchlistMatch[]>();
+  matches.forEach((match) => byEmail.set(match.email, [...(byEmail.get(match.email) ?? []), match]));
+  const connections = await connectionsBySession();
+
+  const deliveries = await Promise.all(
+    Array.from(byEmail, async ([email, userMatches]) => {
+      const { sessionIds } = await loadSubscriber(email);
+      const targets = sessionIds.flatMap((sessionId) => connections.get(sessionId) ?? []);
+      const payload = JSON.stringify({
+        type: 'watchlist-match',
+        count: userMatches.length,
+        matches: userMatches.slice(0, maxPushedMatches).map((match) => ({
+          itemId: match.itemId,
+          title: match.title,
+          watchlistName: match.watchlistName,
+        })),
+      });
+      // Stale connections fail with GoneException; the TTL on the sessions table clears them out.
+      const results = await Promise.allSettled(
+        targets.map((connectionId) =>
+          websocketClient.send(new PostToConnectionCommand({ ConnectionId: connectionId, Data: Buffer.from(payload) })),
+        ),
+      );
+      return results.filter((result) => result.status === 'fulfilled').length;
+    }),
+  );
+  return deliveries.reduce((sum, count) => sum + count, 0);
+}
+
+export const handler = async (event: WatchlistAlertEvent = {}) => {
+  const watchlists = await scanWatchlists();
+  if (watchlists.length === 0) {
+    return { watchlists: 0, patents: 0, matched: 0, newMatches: 0, pushed: 0 };
+  }
+  const sections = event.sections ?? (await listEnabledSections()).map((section) => section.id);
+  const timePeriods = event.timePeriods ?? defaultPeriods;
+
+  const jobs = sections.flatMap((section) => timePeriods.map((timePeriod) => loadCachedPatents(section, timePeriod)));
+  const loaded = await Promise.allSettled(jobs);
+  loaded
+    .filter((result): result is PromiseRejectedResult => result.status === 'rejected')
+    .forEach((result) => console.error('Unable to load cached patents for watchlists', result.reason));
+
+  // The same patent usually sits in several periods; it is matched once, against the shortest period it appears in.
+  const patents = new Map<string, { patent: WatchablePatent; section: string; timePeriod: string }>();
+  loaded.forEach((result) => {
+    if (result.status === 'fulfilled') {
+      result.value
+        .filter((entry) => !patents.has(entry.patent.id))
+        .forEach((entry) => patents.set(entry.patent.id, entry));
+    }
+  });
+
+  const matchedAt = new Date().toISOString();
+  const matches: WatchlistMatch[] = watchlists.flatMap((watchlist) =>
+    Array.from(patents.values()).flatMap(({ patent, section, timePeriod }) => {
+      const reasons = matchWatchlist(watchlist, patent);
+      return reasons
+        ? [
+            {
+              email: watchlist.email,
+              matchKey: `${watchlist.watchlistId}#${patent.id}`,
+              watchlistId: watchlist.watchlistId,
+              watchlistName: watchlist.name,
+              itemId: patent.id,
+              patentNumber: patent.patentNumber,
+              title: patent.title,
+              assignees: patent.assignees ?? [],
+              grantDate: patent.grantDate,
+              sourceUrl: patent.sourceUrl,
+              section,
+              timePeriod,
+              reasons,
+              matchedAt,
+            },
+          ]
+        : [];
+    }),
+  );
+
+  const fresh = await recordMatches(matches);
+  const pushed = await pushMatches(fresh).catch((error) => {
+    console.error('Unable to push watchlist matches', error);
+    return 0;
+  });
+  return {
+    watchlists: watchlists.length,
+    patents: patents.size,
+    matched: matches.length,
+    newMatches: fresh.length,
+    pushed,
+  };
+};
@@ -0,0 +1,158 @@
+import { APIGatewayProxyEventV2, APIGatewayProxyResultV2 } from 'aws-lambda';
+import { randomUUID } from 'crypto';
+import { authorizedEmail } from './shared/session';
+import {
+  Watchlist,
+  deleteWatchlist,
+  listMatches,
+  listWatchlists,
+  loadSubscriber,
+  loadWatchlist,
+  markMatchesRead,
+  rememberSession,
+  saveWatchlist,
+  validateCriteria,
+  watchlistLimits,
+} from './shared/watchlists';
+
+const defaultMatchLimit = 50;
+const maxMatchLimit = 200;
+
+const headers = {
+  'Content-Type': 'application/json',
+  'Access-Control-Allow-Origin': '*',
+  'Cache-Control': 'no-store',
+};
+
+function respond(statusCode: number, body: unknown): APIGatewayProxyResultV2 {
+  return { statusCode, headers, body: JSON.stringify(body) };
+}
+
+// REST API events carry httpMethod; HTTP API events carry it under requestContext.
+function requestMethod(event: APIGatewayProxyEventV2): string {
+  return ((event as any).httpMethod ?? (event.requestContext as any)?.http?.method ?? 'GET').toUpperCase();
+}
+
+function parseBody(event: APIGatewayProxyEventV2): Record<string, any> | null {
+  try {
+    return event.body ? JSON.parse(event.body) : {};
+  } catch (error) {
+    return null;
+  }
+}
+
+async function createWatchlist(email: string, event: APIGatewayProxyEventV2): Promise<APIGatewayProxyResultV2> {
+  const body = parseBody(event);
+  if (!body) {
+    return respond(400, { message: 'Body must be valid JSON' });
+  }
+  const criteria = validateCriteria(body);
+  if (typeof criteria === 'string') {
+    return respond(400, { message: criteria });
+  }
+  if ((await listWatchlists(email)).length >= watchlistLimits.perUser) {
+    return respond(409, { message: `You can keep up to ${watchlistLimits.perUser} watchlists` });
+  }
+  const now = new Date().toISOString();
+  const watchlist: Watchlist = { email, watchlistId: randomUUID(), ...criteria, createdAt: now, updatedAt: now };
+  await saveWatchlist(watchlist);
+  return respond(201, watchlist);
+}
+
+async function updateWatchlist(
+  email: string,
+  watchlistId: string,
+  event: APIGatewayProxyEventV2,
+): Promise<APIGatewayProxyResultV2> {
+  const body = parseBody(event);
+  if (!body) {
+    return respond(400, { message: 'Body must be valid JSON' });
+  }
+  const criteria = validateCriteria(body);
+  if (typeof criteria === 'string') {
+    return respond(400, { message: criteria });
+  }
+  const existing = await loadWatchlist(email, watchlistId);
+  if (!existing) {
+    return respond(404, { message: 'Watchlist not found' });
+  }
+  const watchlist: Watchlist = { ...existing, ...criteria, updatedAt: new Date().toISOString() };
+  await saveWatchlist(watchlist);
+  return respond(200, watchlist);
+}
+
+export const handler = async (event: APIGatewayProxyEventV2): Promise<APIGatewayProxyResultV2> => {
+  const email = authorizedEmail(event);
+  if (!email) {
+    return respond(401, { message: 'Not authenticated' });
+  }
+  if (!process.env.WATCHLISTS_TABLE_NAME) {
+    return respond(503, { message: 'Watchlists are not configured' });
+  }
+
+  const watchlistId = event.pathParameters?.watchlistId
+    ? decodeURIComponent(event.pathParameters.watchlistId)
+    : undefined;
+  const method = requestMethod(event);
+  try {
+    if (!watchlistId) {
+      if (method === 'POST') {
+        return await createWatchlist(email, event);
+      }
+      return respond(200, { watchlists: await listWatchlists(email), limits: watchlistLimits });
+    }
+    if (method === 'DELETE') {
+      return (await deleteWatchlist(email, watchlistId))
+        ? respond(200, { watchlistId, deleted: true })
+        : respond(404, { message: 'Watchlist not found' });
+    }
+    return await updateWatchlist(email, watchlistId, event);
+  } catch (error) {
+    console.error('Failed to handle watchlist request', error);
+    return respond(500, { message: 'Unable to update watchlists' });
+  }
+};
+
+export const matchesHandler = async (event: APIGatewayProxyEventV2): Promise<APIGatewayProxyResultV2> => {
+  const email = authorizedEmail(event);
+  if (!email) {
+    return respond(401, { message: 'Not authenticated' });
+  }
+  if (!process.env.WATCHLISTS_TABLE_NAME || !process.env.WATCHLIST_MATCHES_TABLE_NAME) {
+    return respond(503, { message: 'Watchlists are not configured' });
+  }
+
+  try {
+    if (requestMethod(event) === 'POST') {
+      const lastReadAt = new Date().toISOString();
+      await markMatchesRead(email, lastReadAt);
+      return respond(200, { lastReadAt, unread: 0 });
+    }
+
+    const sessionId = event.queryStringParameters?.sessionId;
+    if (sessionId && /^[\w-]{8,64}$/.test(sessionId)) {
+      await rememberSession(email, sessionId).catch((error) =>
+        console.warn('Unable to remember alert session', (error as Error).message),
+      );
+    }
+    const parsedLimit = Number.parseInt(event.queryStringParameters?.limit ?? '', 10);
+    const limit = Number.isNaN(parsedLimit) ? defaultMatchLimit : Math.max(1, Math.min(maxMatchLimit, parsedLimit));
+    const [watchlists, subscriber, stored] = await Promise.all([
+      listWatchlists(email),
+      loadSubscriber(email),
+      listMatches(email, limit),
+    ]);
+    // Matches outlive the watchlist that found them until their TTL runs out; deleted watchlists stop showing up.
+    const current = new Set(watchlists.map((watchlist) => watchlist.watchlistId));
+    const matches = stored.filter((match) => current.has(match.watchlistId));
+    const lastReadAt = subscriber.lastReadAt;
+    return respond(200, {
+      matches,
+      unread: matches.filter((match) => !lastReadAt || match.matchedAt > lastReadAt).length,
+      lastReadAt,
+    });
+  } catch (error) {
+    console.error('Failed to load watchlist matches', error);
+    return respond(500, { message: 'Unable to load watchlist matches' });
+  }
+};
@@ -32,6 +32,28 @@ export class TechNewsHubStack extends Stack {
       blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
     });
 
+    const newsArtifactsBucket = new s3.Bucket(this, 'NewsArtifactsBucket', {
+      encryption: s3.BucketEncryption.S3_MANAGED,
+      enforceSSL: true,
+      blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
+      lifecycleRules: [
+        {
+          prefix: 'raw/',
+          transitions: [
+            { storageClass: s3.StorageClass.INFREQUENT_ACCESS, transitionAfter: Duration.days(30) },
+            { storageClass: s3.StorageClass.GLACIER_INSTANT_RETRIEVAL, transitionAfter: Duration.days(90) },
+          ],
+        },
+      ],
+    });
+
+    const aiPromptsBucket = new s3.Bucket(this, 'AiPromptsBucket', {
+      encryption: s3.BucketEncryption.S3_MANAGED,
+      enforceSSL: true,
+      versioned: true,
+      blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
+    });
+
     const originAccessIdentity = new cloudfront.OriginAccessIdentity(this, 'OAI');
     staticSiteBucket.addToResourcePolicy(
       new iam.PolicyStatement({
@@ -78,6 +100,70 @@ export class TechNewsHubStack extends Stack {
       removalPolicy: RemovalPolicy.DESTROY,
       timeToLiveAttribute: 'expiresAt',
     });
+    contentCacheTable.addGlobalSecondaryIndex({
+      indexName: 'snapshot-index',
+      partitionKey: { name: 'snapshotSeries', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'snapshotDate', type: dynamodb.AttributeType.STRING },
+      projectionType: dynamodb.ProjectionType.INCLUDE,
+      nonKeyAttributes: [
+        'snapshotLabel',
+        'verifiedAt',
+        'verificationScore',
+        'newsCount',
+        'patentCount',
+        'patentImpactAverage',
+        'newsPromptVersion',
+        'patentPromptVersion',
+      ],
+    });
+
+    const aiUsageTable = new dynamodb.Table(this, 'AiUsageTable', {
+      partitionKey: { name: 'usagePeriod', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'recordId', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: RemovalPolicy.DESTROY,
+      timeToLiveAttribute: 'ttl',
+    });
+
+    const sectionsTable = new dynamodb.Table(this, 'SectionsTable', {
+      partitionKey: { name: 'sectionId', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: RemovalPolicy.DESTROY,
+    });
+
+    const entityIndexTable = new dynamodb.Table(this, 'EntityIndexTable', {
+      partitionKey: { name: 'tagId', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'refKey', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: RemovalPolicy.DESTROY,
+    });
+
+    const contentItemsTable = new dynamodb.Table(this, 'ContentItemsTable', {
+      partitionKey: { name: 'itemId', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: RemovalPolicy.DESTROY,
+    });
+
+    const patentGraphTable = new dynamodb.Table(this, 'PatentGraphTable', {
+      partitionKey: { name: 'patentNumber', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: RemovalPolicy.DESTROY,
+    });
+
+    const watchlistsTable = new dynamodb.Table(this, 'WatchlistsTable', {
+      partitionKey: { name: 'email', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'watchlistId', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: RemovalPolicy.DESTROY,
+    });
+
+    const watchlistMatchesTable = new dynamodb.Table(this, 'WatchlistMatchesTable', {
+      partitionKey: { name: 'email', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'matchKey', type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy: RemovalPolicy.DESTROY,
+      timeToLiveAttribute: 'ttl',
+    });
 
     const webSocketSessionsTable = new dynamodb.Table(this, 'WebSocketSessionsTable', {
       partitionKey: { name: 'connectionId', type: dynamodb.AttributeType.STRING },
@@ -134,6 +220,10 @@ export class TechNewsHubStack extends Stack {
       ],
     });
 
+    const userPoolDomain = userPool.addDomain('UserPoolDomain', {
+      cognitoDomain: { domainPrefix: `technewshub-${this.account}` },
+    });
+
     new cognito.UserPoolIdentityProviderGoogle(this, 'GoogleProvider', {
       userPool,
       clientId: apiSecrets.secretValueFromJson('googleClientId').unsafeUnwrap(),
@@ -160,9 +250,26 @@ export class TechNewsHubStack extends Stack {
         ACCESS_LOGS_TABLE_NAME: accessLogsTable.tableName,
         USER_PROFILES_TABLE_NAME: userProfilesTable.tableName,
         CONTENT_CACHE_TABLE_NAME: contentCacheTable.tableName,
+        SECTIONS_TABLE_NAME: sectionsTable.tableName,
+        ENTITY_INDEX_TABLE_NAME: entityIndexTable.tableName,
+        CONTENT_ITEMS_TABLE_NAME: contentItemsTable.tableName,
+        PATENT_GRAPH_TABLE_NAME: patentGraphTable.tableName,
+        WATCHLISTS_TABLE_NAME: watchlistsTable.tableName,
+        WATCHLIST_MATCHES_TABLE_NAME: watchlistMatchesTable.tableName,
         API_SECRET_ARN: apiSecrets.secretArn,
         DISTRIBUTION_DOMAIN: distribution.domainName,
         WEBSOCKET_SESSIONS_TABLE_NAME: webSocketSessionsTable.tableName,
+        NEWS_ARTIFACTS_BUCKET_NAME: newsArtifactsBucket.bucketName,
+        AI_PROMPTS_BUCKET_NAME: aiPromptsBucket.bucketName,
+        AI_PROVIDER_ORDER: 'perplexity,gemini,chatgpt',
+        AI_PROVIDER_MODELS: JSON.stringify({ gemini: 'gemini-pro', chatgpt: 'gpt-4o-mini' }),
+        AI_PROVIDER_TIMEOUT_MS: '15000',
+        AI_USAGE_TABLE_NAME: aiUsageTable.tableName,
+        AI_PROVIDER_BUDGETS: JSON.stringify({
+          perplexity: { dailyUsd: 5, monthlyUsd: 100 },
+          gemini: { dailyUsd: 5, monthlyUsd: 100 },
+          chatgpt: { dailyUsd: 5, monthlyUsd: 100 },
+        }),
       },
       logRetention: logs.RetentionDays.ONE_WEEK,
     };
@@ -179,6 +286,13 @@ export class TechNewsHubStack extends Stack {
       ...commonLambdaProps,
     });
 
+    const reprocessArchiveFunction = new lambdaNodejs.NodejsFunction(this, 'ReprocessArchiveFunction', {
+      entry: path.join(__dirname, '../lambda/reprocessArchive.ts'),
+      handler: 'handler',
+      ...commonLambdaProps,
+      timeout: Duration.minutes(5),
+    });
+
     const geoEnrichFunction = new lambdaNodejs.NodejsFunction(this, 'GeoEnrichFunction', {
       entry: path.join(__dirname, '../lambda/geoEnrich.ts'),
       handler: 'handler',
@@ -190,6 +304,9 @@ export class TechNewsHubStack extends Stack {
       handler: 'handler',
       ...commonLambdaProps,
     });
+    // Hosted UI sign-ins come back with an authorization code, which the function redeems at the user pool domain.
+    authCallbackFunction.addEnvironment('COGNITO_DOMAIN_URL', userPoolDomain.baseUrl());
+    authCallbackFunction.addEnvironment('COGNITO_CLIENT_ID', userPoolClient.userPoolClientId);
 
     const dailyRefreshFunction = new lambdaNodejs.NodejsFunction(this, 'DailyRefreshFunction', {
       entry: path.join(__dirname, '../lambda/dailyRefresh.ts'),
@@ -227,6 +344,97 @@ export class TechNewsHubStack extends Stack {
       ...commonLambdaProps,
     });
 
+    const contentSnapshotsFunction = new lambdaNodejs.NodejsFunction(this, 'ContentSnapshotsFunction', {
+      entry: path.join(__dirname, '../lambda/contentSnapshots.ts'),
+      handler: 'handler',
+      ...commonLambdaProps,
+    });
+
+    const readNewsFunction = new lambdaNodejs.NodejsFunction(this, 'ReadNewsFunction', {
+      entry: path.join(__dirname, '../lambda/readContent.ts'),
+      handler: 'newsHandler',
+      ...commonLambdaProps,
+      timeout: Duration.seconds(10),
+    });
+    readNewsFunction.addEnvironment('REGENERATE_FUNCTION_NAME', fetchNewsFunction.functionName);
+
+    const readPatentsFunction = new lambdaNodejs.NodejsFunction(this, 'ReadPatentsFunction', {
+      entry: path.join(__dirname, '../lambda/readContent.ts'),
+      handler: 'patentsHandler',
+      ...commonLambdaProps,
+      timeout: Duration.seconds(10),
+    });
+    readPatentsFunction.addEnvironment('REGENERATE_FUNCTION_NAME', fetchPatentsFunction.functionName);
+
+    const sectionsFunction = new lambdaNodejs.NodejsFunction(this, 'SectionsFunction', {
+      entry: path.join(__dirname, '../lambda/sections.ts'),
+      handler: 'handler',
+      ...commonLambdaProps,
+    });
+
+    const tagsFunction = new lambdaNodejs.NodejsFunction(this, 'TagsFunction', {
+      entry: path.join(__dirname, '../lambda/tags.ts'),
+      handler: 'handler',
+      ...commonLambdaProps,
+    });
+
+    const itemsFunction = new lambdaNodejs.NodejsFunction(this, 'ItemsFunction', {
+      entry: path.join(__dirname, '../lambda/items.ts'),
+      handler: 'handler',
+      ...commonLambdaProps,
+    });
+
+    const patentGraphFunction = new lambdaNodejs.NodejsFunction(this, 'PatentGraphFunction', {
+      entry: path.join(__dirname, '../lambda/patentGraph.ts'),
+      handler: 'handler',
+      ...commonLambdaProps,
+    });
+
+    const trendDetectionFunction = new lambdaNodejs.NodejsFunction(this, 'TrendDetectionFunction', {
+      entry: path.join(__dirname, '../lambda/trendDetection.ts'),
+      handler: 'handler',
+      ...commonLambdaProps,
+      timeout: Duration.minutes(2),
+    });
+
+    const buildSearchIndexFunction = new lambdaNodejs.NodejsFunction(this, 'BuildSearchIndexFunction', {
+      entry: path.join(__dirname, '../lambda/buildSearchIndex.ts'),
+      handler: 'handler',
+      ...commonLambdaProps,
+      timeout: Duration.minutes(2),
+    });
+
+    const watchlistsFunction = new lambdaNodejs.NodejsFunction(this, 'WatchlistsFunction', {
+      entry: path.join(__dirname, '../lambda/watchlists.ts'),
+      handler: 'handler',
+      ...commonLambdaProps,
+    });
+
+    const watchlistMatchesFunction = new lambdaNodejs.NodejsFunction(this, 'WatchlistMatchesFunction', {
+      entry: path.join(__dirname, '../lambda/watchlists.ts'),
+      handler: 'matchesHandler',
+      ...commonLambdaProps,
+    });
+
+    const watchlistAlertsFunction = new lambdaNodejs.NodejsFunction(this, 'WatchlistAlertsFunction', {
+      entry: path.join(__dirname, '../lambda/watchlistAlerts.ts'),
+      handler: 'handler',
+      ...commonLambdaProps,
+      timeout: Duration.minutes(2),
+    });
+
+    const trendsFunction = new lambdaNodejs.NodejsFunction(this, 'TrendsFunction', {
+      entry: path.join(__dirname, '../lambda/trends.ts'),
+      handler: 'handler',
+      ...commonLambdaProps,
+    });
+
+    const usageReportFunction = new lambdaNodejs.NodejsFunction(this, 'UsageReportFunction', {
+      entry: path.join(__dirname, '../lambda/usageReport.ts'),
+      handler: 'handler',
+      ...commonLambdaProps,
+    });
+
     const websocketManagerFunction = new lambdaNodejs.NodejsFunction(this, 'WebsocketManagerFunction', {
       entry: path.join(__dirname, '../lambda/websocketManager.ts'),
       handler: 'handler',
@@ -241,6 +449,58 @@ export class TechNewsHubStack extends Stack {
     contentCacheTable.grantReadWriteData(fetchPatentsFunction);
     contentCacheTable.grantReadWriteData(dailyRefreshFunction);
     contentCacheTable.grantReadData(relatedContentFunction);
+    contentCacheTable.grantReadWriteData(reprocessArchiveFunction);
+    contentCacheTable.grantReadData(contentSnapshotsFunction);
+    contentCacheTable.grantReadData(searchFunction);
+    contentCacheTable.grantReadWriteData(readNewsFunction);
+    contentCacheTable.grantReadWriteData(readPatentsFunction);
+    contentCacheTable.grantReadWriteData(trendDetectionFunction);
+    contentCacheTable.grantReadWriteData(trendsFunction);
+    contentCacheTable.grantReadData(watchlistAlertsFunction);
+    contentCacheTable.grantReadData(buildSearchIndexFunction);
+    fetchNewsFunction.grantInvoke(readNewsFunction);
+    fetchPatentsFunction.grantInvoke(readPatentsFunction);
+    sectionsTable.grantReadWriteData(sectionsFunction);
+    sectionsTable.grantReadData(fetchNewsFunction);
+    sectionsTable.grantReadData(fetchPatentsFunction);
+    sectionsTable.grantReadData(reprocessArchiveFunction);
+    sectionsTable.grantReadData(searchFunction);
+    sectionsTable.grantReadData(recommendationsFunction);
+    sectionsTable.grantReadData(dailyRefreshFunction);
+    sectionsTable.grantReadData(trendDetectionFunction);
+    sectionsTable.grantReadData(trendsFunction);
+    sectionsTable.grantReadData(watchlistAlertsFunction);
+    sectionsTable.grantReadData(buildSearchIndexFunction);
+    entityIndexTable.grantWriteData(fetchNewsFunction);
+    entityIndexTable.grantWriteData(fetchPatentsFunction);
+    entityIndexTable.grantWriteData(reprocessArchiveFunction);
+    entityIndexTable.grantReadData(tagsFunction);
+    contentItemsTable.grantWriteData(fetchNewsFunction);
+    contentItemsTable.grantWriteData(fetchPatentsFunction);
+    contentItemsTable.grantWriteData(reprocessArchiveFunction);
+    contentItemsTable.grantReadData(itemsFunction);
+    contentItemsTable.grantReadData(relatedContentFunction);
+    patentGraphTable.grantWriteData(fetchPatentsFunction);
+    patentGraphTable.grantWriteData(reprocessArchiveFunction);
+    patentGraphTable.grantReadWriteData(patentGraphFunction);
+    watchlistsTable.grantReadWriteData(watchlistsFunction);
+    watchlistsTable.grantReadWriteData(watchlistMatchesFunction);
+    watchlistsTable.grantReadData(watchlistAlertsFunction);
+    watchlistMatchesTable.grantReadData(watchlistMatchesFunction);
+    watchlistMatchesTable.grantWriteData(watchlistAlertsFunction);
+    aiUsageTable.grantReadWriteData(fetchNewsFunction);
+    aiUsageTable.grantReadWriteData(fetchPatentsFunction);
+    aiUsageTable.grantReadWriteData(searchFunction);
+    aiUsageTable.grantReadData(usageReportFunction);
+    newsArtifactsBucket.grantPut(fetchNewsFunction);
+    newsArtifactsBucket.grantPut(fetchPatentsFunction);
+    newsArtifactsBucket.grantRead(reprocessArchiveFunction);
+    newsArtifactsBucket.grantPut(buildSearchIndexFunction);
+    newsArtifactsBucket.grantRead(searchFunction);
+    aiPromptsBucket.grantRead(fetchNewsFunction);
+    aiPromptsBucket.grantRead(fetchPatentsFunction);
+    aiPromptsBucket.grantRead(searchFunction);
+    aiPromptsBucket.grantRead(reprocessArchiveFunction);
 
     apiSecrets.grantRead(fetchNewsFunction);
     apiSecrets.grantRead(fetchPatentsFunction);
@@ -249,11 +509,14 @@ export class TechNewsHubStack extends Stack {
     apiSecrets.grantRead(dailyRefreshFunction);
     apiSecrets.grantRead(searchFunction);
     apiSecrets.grantRead(relatedContentFunction);
+    apiSecrets.grantRead(reprocessArchiveFunction);
+    apiSecrets.grantRead(patentGraphFunction);
 
     accessLogsTable.grantReadData(recommendationsFunction);
     userProfilesTable.grantReadData(profileMeFunction);
     webSocketSessionsTable.grantReadWriteData(websocketManagerFunction);
     webSocketSessionsTable.grantReadData(dailyRefreshFunction);
+    webSocketSessionsTable.grantReadData(watchlistAlertsFunction);
 
     const restApi = new apigw.RestApi(this, 'TechNewsHubApi', {
       defaultCorsPreflightOptions: {
@@ -270,10 +533,20 @@ export class TechNewsHubStack extends Stack {
     });
 
     const newsResource = restApi.root.addResource('news');
-    newsResource.addMethod('POST', new apigw.LambdaIntegration(fetchNewsFunction));
+    newsResource.addMethod('GET', new apigw.LambdaIntegration(readNewsFunction));
+    newsResource.addMethod('POST', new apigw.LambdaIntegration(fetchNewsFunction), {
+      authorizationType: apigw.AuthorizationType.IAM,
+    });
 
     const patentsResource = restApi.root.addResource('patents');
-    patentsResource.addMethod('POST', new apigw.LambdaIntegration(fetchPatentsFunction));
+    patentsResource.addMethod('GET', new apigw.LambdaIntegration(readPatentsFunction));
+    patentsResource.addMethod('POST', new apigw.LambdaIntegration(fetchPatentsFunction), {
+      authorizationType: apigw.AuthorizationType.IAM,
+    });
+    patentsResource
+      .addResource('{patentNumber}')
+      .addResource('graph')
+      .addMethod('GET', new apigw.LambdaIntegration(patentGraphFunction));
 
     const geoResource = restApi.root.addResource('geo-enrich');
     geoResource.addMethod('POST', new apigw.LambdaIntegration(geoEnrichFunction));
@@ -285,6 +558,27 @@ export class TechNewsHubStack extends Stack {
     const profileMeResource = profileResource.addResource('me');
     profileMeResource.addMethod('GET', new apigw.LambdaIntegration(profileMeFunction));
 
+    // Watchlists are keyed by email, so the caller must present a Cognito ID token that API Gateway verifies.
+    const watchlistsAuthorization: apigw.MethodOptions = {
+      authorizationType: apigw.AuthorizationType.COGNITO,
+      authorizer: new apigw.CognitoUserPoolsAuthorizer(this, 'WatchlistsAuthorizer', {
+        cognitoUserPools: [userPool],
+      }),
+    };
+    const watchlistsIntegration = new apigw.LambdaIntegration(watchlistsFunction);
+    const watchlistMatchesIntegration = new apigw.LambdaIntegration(watchlistMatchesFunction);
+    const watchlistsResource = restApi.root.addResource('watchlists');
+    watchlistsResource.addMethod('GET', watchlistsIntegration, watchlistsAuthorization);
+    watchlistsResource.addMethod('POST', watchlistsIntegration, watchlistsAuthorization);
+    const watchlistResource = watchlistsResource.addResource('{watchlistId}');
+    watchlistResource.addMethod('PUT', watchlistsIntegration, watchlistsAuthorization);
+    watchlistResource.addMethod('DELETE', watchlistsIntegration, watchlistsAuthorization);
+    const watchlistMatchesResource = watchlistsResource.addResource('matches');
+    watchlistMatchesResource.addMethod('GET', watchlistMatchesIntegration, watchlistsAuthorization);
+    watchlistMatchesResource
+      .addResource('read')
+      .addMethod('POST', watchlistMatchesIntegration, watchlistsAuthorization);
+
     const searchResource = restApi.root.addResource('search');
     searchResource.addMethod('POST', new apigw.LambdaIntegration(searchFunction));
 
@@ -297,6 +591,35 @@ export class TechNewsHubStack extends Stack {
     const contentItemResource = periodResource.addResource('{itemId}');
     contentItemResource.addMethod('GET', new apigw.LambdaIntegration(relatedContentFunction));
 
+    const snapshotsIntegration = new apigw.LambdaIntegration(contentSnapshotsFunction);
+    const snapshotsResource = restApi.root.addResource('snapshots');
+    const snapshotPeriodResource = snapshotsResource.addResource('{section}').addResource('{period}');
+    snapshotPeriodResource.addMethod('GET', snapshotsIntegration);
+    snapshotPeriodResource.addResource('{snapshot}').addMethod('GET', snapshotsIntegration);
+
+    const sectionsIntegration = new apigw.LambdaIntegration(sectionsFunction);
+    const sectionsResource = restApi.root.addResource('sections');
+    sectionsResource.addMethod('GET', sectionsIntegration);
+    sectionsResource.addResource('{sectionId}').addMethod('PUT', sectionsIntegration, {
+      authorizationType: apigw.AuthorizationType.IAM,
+    });
+
+    const tagsResource = restApi.root.addResource('tags');
+    tagsResource.addResource('{tagId}').addMethod('GET', new apigw.LambdaIntegration(tagsFunction));
+
+    const trendsResource = restApi.root.addResource('trends');
+    trendsResource.addResource('{section}').addMethod('GET', new apigw.LambdaIntegration(trendsFunction));
+
+    const itemsResource = restApi.root.addResource('items');
+    itemsResource.addResource('{itemId}').addMethod('GET', new apigw.LambdaIntegration(itemsFunction));
+
+    const adminResource = restApi.root.addResource('admin');
+    adminResource
+      .addResource('usage')
+      .addMethod('GET', new apigw.LambdaIntegration(usageReportFunction), {
+        authorizationType: apigw.AuthorizationType.IAM,
+      });
+
     const websocketApi = new apigwv2.WebSocketApi(this, 'TechNewsHubWebsocketApi', {
       connectRouteOptions: {
         integration: new apigwv2Integrations.WebSocketLambdaIntegration(
@@ -325,12 +648,13 @@ export class TechNewsHubStack extends Stack {
     });
 
     websocketStage.grantManagementApiAccess(dailyRefreshFunction);
-
-    const sections = ['ml', 'ai', 'iot', 'quantum'];
-    const timePeriods = ['daily', 'weekly', 'monthly', 'yearly'];
+    websocketStage.grantManagementApiAccess(watchlistAlertsFunction);
 
     const prepareInput = new sfn.Pass(this, 'PrepareRefreshInput', {
-      result: sfn.Result.fromObject({ sections, timePeriods }),
+      parameters: {
+        'sections.$': '$.sections',
+        'timePeriods.$': '$.timePeriods',
+      },
       resultPath: '$.config',
     });
 
@@ -383,8 +707,34 @@ export class TechNewsHubStack extends Stack {
     prepareSectionContext.next(timePeriodIterator);
     sectionIterator.iterator(prepareSectionContext);
 
+    const detectTrendsTask = new sfnTasks.LambdaInvoke(this, 'InvokeTrendDetection', {
+      lambdaFunction: trendDetectionFunction,
+      payload: sfn.TaskInput.fromObject({
+        sections: sfn.JsonPath.listAt('$$.Execution.Input.sections'),
+      }),
+      payloadResponseOnly: true,
+    });
+
+    const buildSearchIndexTask = new sfnTasks.LambdaInvoke(this, 'InvokeSearchIndexBuild', {
+      lambdaFunction: buildSearchIndexFunction,
+      payloadResponseOnly: true,
+    });
+
+    const watchlistAlertsTask = new sfnTasks.LambdaInvoke(this, 'InvokeWatchlistAlerts', {
+      lambdaFunction: watchlistAlertsFunction,
+      payload: sfn.TaskInput.fromObject({
+        sections: sfn.JsonPath.listAt('$$.Execution.Input.sections'),
+        timePeriods: sfn.JsonPath.listAt('$$.Execution.Input.timePeriods'),
+      }),
+      payloadResponseOnly: true,
+    });
+
     const refreshStateMachine = new sfn.StateMachine(this, 'RefreshStateMachine', {
-      definition: prepareInput.next(sectionIterator),
+      definition: prepareInput
+        .next(sectionIterator)
+        .next(detectTrendsTask)
+        .next(buildSearchIndexTask)
+        .next(watchlistAlertsTask),
       timeout: Duration.minutes(15),
       tracingEnabled: true,
     });
@@ -399,7 +749,9 @@ export class TechNewsHubStack extends Stack {
 
     const managementEndpoint = `https://${websocketApi.apiId}.execute-api.${Stack.of(this).region}.amazonaws.com/${websocketStage.stageName}`;
     dailyRefreshFunction.addEnvironment('STATE_MACHINE_ARN', refreshStateMachine.stateMachineArn);
+    dailyRefreshFunction.addEnvironment('SECTIONS_TABLE_NAME', sectionsTable.tableName);
     dailyRefreshFunction.addEnvironment('WEBSOCKET_ENDPOINT', managementEndpoint);
+    watchlistAlertsFunction.addEnvironment('WEBSOCKET_ENDPOINT', managementEndpoint);
 
     const errorAlarm = new cloudwatch.Alarm(this, 'ApiGatewayErrorAlarm', {
       metric: restApi.metricServerError({ period: Duration.minutes(5) }),
@@ -446,6 +798,47 @@ export class TechNewsHubStack extends Stack {
             left: [distribution.metricRequests()],
           }),
         ],
+        [
+          new cloudwatch.GraphWidget({
+            title: 'AI Structured Output Parse Failures',
+            left: ['perplexity', 'gemini', 'chatgpt'].map(
+              (provider) =>
+                new cloudwatch.Metric({
+                  namespace: 'TechNewsHub',
+                  metricName: 'AiParseFailures',
+                  dimensionsMap: { Provider: provider },
+                  statistic: 'Sum',
+                  period: Duration.minutes(5),
+                }),
+            ),
+          }),
+          new cloudwatch.GraphWidget({
+            title: 'AI Estimated Cost (micro-USD)',
+            left: ['perplexity', 'gemini', 'chatgpt'].map(
+              (provider) =>
+                new cloudwatch.Metric({
+                  namespace: 'TechNewsHub',
+                  metricName: 'AiCostMicroUsd',
+                  dimensionsMap: { Provider: provider },
+                  statistic: 'Sum',
+                  period: Duration.hours(1),
+                }),
+            ),
+          }),
+          new cloudwatch.GraphWidget({
+            title: 'AI Provider Latency (p90)',
+            left: ['perplexity', 'gemini', 'chatgpt'].map(
+              (provider) =>
+                new cloudwatch.Metric({
+                  namespace: 'TechNewsHub',
+                  metricName: 'AiProviderLatency',
+                  dimensionsMap: { Provider: provider },
+                  statistic: 'p90',
+                  period: Duration.minutes(5),
+                }),
+            ),
+          }),
+        ],
       ],
     });
 
@@ -458,5 +851,14 @@ export class TechNewsHubStack extends Stack {
     new cdk.CfnOutput(this, 'WebsocketEndpoint', {
       value: websocketApi.apiEndpoint,
     });
+    new cdk.CfnOutput(this, 'NewsArtifactsBucketName', {
+      value: newsArtifactsBucket.bucketName,
+    });
+    new cdk.CfnOutput(this, 'AiPromptsBucketName', {
+      value: aiPromptsBucket.bucketName,
+    });
+    new cdk.CfnOutput(this, 'ReprocessArchiveFunctionName', {
+      value: reprocessArchiveFunction.functionName,
+    });
   }
 }
@@ -0,0 +1,37 @@
+import { deepStrictEqual } from 'assert';
+import { readFileSync, readdirSync } from 'fs';
+import * as path from 'path';
+import { parseFeed } from '../lambda/shared/newsSources';
+
+// Each fixtures/feeds/<name>.xml is parsed and compared with <name>.expected.json.
+const feedDir = path.join(__dirname, '..', 'fixtures', 'feeds');
+
+function main() {
+  const fixtures = readdirSync(feedDir)
+    .filter((name) => name.endsWith('.xml'))
+    .sort();
+  if (fixtures.length === 0) {
+    throw new Error(`No feed fixtures found in ${feedDir}`);
+  }
+
+  const failures = fixtures.filter((name) => {
+    const xml = readFileSync(path.join(feedDir, name), 'utf-8');
+    const expected = JSON.parse(readFileSync(path.join(feedDir, name.replace(/\.xml$/, '.expected.json')), 'utf-8'));
+    // Round-trip through JSON so absent optional fields compare equal to undefined ones.
+    const actual = JSON.parse(JSON.stringify(parseFeed(xml)));
+    try {
+      deepStrictEqual(actual, expected);
+      console.log(`ok   ${name} (${actual.length} articles)`);
+      return false;
+    } catch (error) {
+      console.error(`FAIL ${name}\n${(error as Error).message}`);
+      return true;
+    }
+  });
+
+  if (failures.length > 0) {
+    process.exit(1);
+  }
+}
+
+main();
@@ -0,0 +1,113 @@
+import { ok } from 'assert';
+import { StubbedRequest, startDynamoStub } from './dynamoStub';
+
+// Runs the news and patent cache writes against a local DynamoDB stub with records that leave their optional
+// fields unset, and checks that every row reaches the table without those fields.
+const unsetNewsFields = ['publisher', 'publishedAt', 'clusterId', 'engagement'];
+const unsetPatentFields = ['summary', 'priorityDate', 'filingDate', 'grantDate', 'relations'];
+
+function updatesOf(requests: StubbedRequest[], tableName: string): Array<Record<string, any>> {
+  return requests
+    .filter((request) => request.operation === 'UpdateItem' && request.input.TableName === tableName)
+    .map((request) => request.input);
+}
+
+function assertOmitted(stored: Record<string, unknown>, fields: string[], label: string): void {
+  const present = fields.filter((field) => field in stored);
+  ok(present.length === 0, `${label} stored unset fields: ${present.join(', ')}`);
+}
+
+async function main() {
+  const stub = await startDynamoStub();
+  Object.assign(process.env, {
+    AWS_ENDPOINT_URL_DYNAMODB: stub.endpoint,
+    AWS_REGION: 'us-east-1',
+    AWS_ACCESS_KEY_ID: 'check',
+    AWS_SECRET_ACCESS_KEY: 'check',
+    CONTENT_CACHE_TABLE_NAME: 'ContentCache',
+    CONTENT_ITEMS_TABLE_NAME: 'ContentItems',
+  });
+  try {
+    // The Lambda modules read their table names when they load, so they are imported after the environment is set.
+    const { persistContent } = await import('../lambda/fetchNews');
+    const { upsertCache } = await import('../lambda/fetchPatents');
+
+    await persistContent(
+      { section: 'ai', timePeriod: 'daily' },
+      [
+        {
+          id: 'news-check',
+          title: 'Chipmaker ships new accelerator',
+          summary: 'A feed item without publisher, publish date, cluster or engagement data.',
+          sourceUrl: 'https://example.com/story',
+          publisher: undefined,
+          publishedAt: undefined,
+          clusterId: undefined,
+          engagement: undefined,
+          verificationScore: 64,
+        },
+      ],
+      '2026-10-19T06:00:00.000Z',
+      64,
+      'check',
+      'Average verification 64%',
+    );
+    await upsertCache(
+      { section: 'ai', timePeriod: 'monthly' },
+      {
+        promptVersion: 'check',
+        patents: [
+          {
+            id: 'patent-check',
+            title: 'Neural accelerator interconnect',
+            abstract: 'A patent the source returned without a summary, dates or citation relations.',
+            summary: undefined,
+            patentNumber: undefined,
+            priorityDate: undefined,
+            filingDate: undefined,
+            grantDate: undefined,
+            relations: undefined,
+            impactScore: 61,
+            sourceUrl: 'https://example.com/patent',
+          },
+        ],
+      },
+    );
+
+    const cacheRows = updatesOf(stub.requests, 'ContentCache');
+    const newsRows = cacheRows.filter((input) => input.ExpressionAttributeValues[':news']);
+    const patentRows = cacheRows.filter((input) => input.ExpressionAttributeValues[':patents']);
+    ok(newsRows.length === 2, `Expected the live and snapshot news rows, got ${newsRows.length}`);
+    ok(patentRows.length === 2, `Expected the live and snapshot patent rows, got ${patentRows.length}`);
+    newsRows.forEach((input) =>
+      assertOmitted(input.ExpressionAttributeValues[':news'].L[0].M, unsetNewsFields, `${input.Key.sectionPeriod.S} news`),
+    );
+    patentRows.forEach((input) =>
+      assertOmitted(
+        input.ExpressionAttributeValues[':patents'].L[0].M,
+        unsetPatentFields,
+        `${input.Key.sectionPeriod.S} patents`,
+      ),
+    );
+
+    // recordItems only logs failed writes, so a record that could not be marshalled shows up as a missing request.
+    const itemRows = updatesOf(stub.requests, 'ContentItems');
+    const storedIds = itemRows.map((input) => input.Key.itemId.S);
+    ok(storedIds.includes('news-check') && storedIds.includes('patent-check'), 'Content items were not written');
+    itemRows.forEach((input) =>
+      assertOmitted(
+        input.ExpressionAttributeValues[':item'].M,
+        input.Key.itemId.S === 'news-check' ? unsetNewsFields : unsetPatentFields,
+        `item ${input.Key.itemId.S}`,
+      ),
+    );
+    console.log(`ok   news and patent writes with unset optional fields (${stub.requests.length} requests)`);
+  } finally {
+    await stub.close();
+  }
+}
+
+main().catch((error) => {
+  console.error(`FAIL ${(error as Error).message}`);
+  process.exit(1);
+});
@@ -0,0 +1,43 @@
+import { createServer } from 'http';
+import { AddressInfo } from 'net';
+
+export interface StubbedRequest {
+  operation: string;
+  input: Record<string, any>;
+}
+
+export interface DynamoStub {
+  endpoint: string;
+  requests: StubbedRequest[];
+  close: () => Promise<void>;
+}
+
+// A local stand-in for the DynamoDB endpoint. Every request is recorded and answered with an empty result,
+// which the SDK reads as a miss for reads and as success for writes. Point the SDK at it with
+// AWS_ENDPOINT_URL_DYNAMODB before the Lambda modules create their clients.
+export async function startDynamoStub(): Promise<DynamoStub> {
+  const requests: StubbedRequest[] = [];
+  const server = createServer((request, response) => {
+    const chunks: Buffer[] = [];
+    request.on('data', (chunk: Buffer) => chunks.push(chunk));
+    request.on('end', () => {
+      requests.push({
+        operation: String(request.headers['x-amz-target'] ?? '').replace(/^DynamoDB_\d+\./, ''),
+        input: JSON.parse(Buffer.concat(chunks).toString('utf-8') || '{}'),
+      });
+      response.writeHead(200, { 'Content-Type': 'application/x-amz-json-1.0' });
+      response.end('{}');
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    endpoint: `http://127.0.0.1:${port}`,
+    requests,
+    close: () =>
+      new Promise<void>((resolve) => {
+        server.closeAllConnections();
+        server.close(() => resolve());
+      }),
+  };
+}
@@ -0,0 +1,67 @@
+import { existsSync, readFileSync } from 'fs';
+import * as path from 'path';
+import { startDynamoStub } from './dynamoStub';
+
+function usage(): never {
+  console.error('Usage: npm run invoke:local -- <handler> [event.json | inline JSON] [--record | --replay]');
+  console.error('Example: npm run invoke:local -- fetchNews \'{"section":"ai","timePeriod":"daily"}\' --replay');
+  process.exit(1);
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const flags = args.filter((arg) => arg.startsWith('--'));
+  const [handlerName, eventArg] = args.filter((arg) => !arg.startsWith('--'));
+  if (!handlerName) {
+    usage();
+  }
+
+  if (flags.includes('--record')) {
+    process.env.HTTP_FIXTURE_MODE = 'record';
+  } else if (flags.includes('--replay')) {
+    process.env.HTTP_FIXTURE_MODE = 'replay';
+  }
+  process.env.HTTP_FIXTURE_DIR = process.env.HTTP_FIXTURE_DIR ?? path.join(__dirname, '..', 'fixtures', 'http');
+
+  // A replay runs offline: unless AWS_ENDPOINT_URL points at DynamoDB Local, table calls go to a local stub
+  // that reads every row as missing and accepts every write.
+  const stub =
+    process.env.HTTP_FIXTURE_MODE === 'replay' && !process.env.AWS_ENDPOINT_URL && !process.env.AWS_ENDPOINT_URL_DYNAMODB
+      ? await startDynamoStub()
+      : null;
+  if (stub) {
+    process.env.AWS_ENDPOINT_URL_DYNAMODB = stub.endpoint;
+    process.env.AWS_REGION = process.env.AWS_REGION ?? 'us-east-1';
+    process.env.AWS_ACCESS_KEY_ID = process.env.AWS_ACCESS_KEY_ID ?? 'replay';
+    process.env.AWS_SECRET_ACCESS_KEY = process.env.AWS_SECRET_ACCESS_KEY ?? 'replay';
+  }
+
+  const event = !eventArg
+    ? {}
+    : existsSync(eventArg)
+      ? JSON.parse(readFileSync(eventArg, 'utf-8'))
+      : JSON.parse(eventArg);
+
+  // The fixture mode must be set before the handler module builds its HTTP client.
+  const module = await import(path.join(__dirname, '..', 'lambda', handlerName));
+  const { unmatchedFixtures } = await import(path.join(__dirname, '..', 'lambda', 'shared', 'httpClient'));
+  const result = await module.handler(event);
+  console.log(JSON.stringify(result, null, 2));
+  if (stub) {
+    console.log(`${stub.requests.length} DynamoDB request(s) answered by the local stub`);
+    await stub.close();
+  }
+
+  // Handlers degrade gracefully when a call fails, so a missing fixture would otherwise pass unnoticed.
+  const unmatched: string[] = unmatchedFixtures();
+  if (unmatched.length > 0) {
+    console.error(`${unmatched.length} request(s) had no recorded fixture:`);
+    unmatched.forEach((request) => console.error(`  ${request}`));
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error('Local invocation failed', error);
+  process.exit(1);
+});